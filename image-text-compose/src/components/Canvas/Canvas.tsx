@@ -1,17 +1,89 @@
 import React, { useEffect, useRef } from 'react';
 import * as fabric from 'fabric';
 import { useEditorStore } from '../../store/editorSlice';
+import { useFontStore } from '../../store/fontSlice';
 import { useHistoryStore } from '../../store/historySlice';
+import { useTextSelectionStore } from '../../store/textSelectionSlice';
+import { ImageLayerProperties } from '../../types/canvas';
+import { createImageObjectFromLayer, updateImageObjectFromLayer } from '../../utils/imageLayers';
+import { createShapeObjectFromLayer, updateShapeObjectFromLayer } from '../../utils/shapeLayers';
+import {
+  createTextObjectFromLayer,
+  getTextObjectSpans,
+  refitTextObject,
+  updateTextObjectFromLayer,
+} from '../../utils/textLayers';
+import { getLayerKind } from '../../utils/layers';
+import { expandToGroupMembers, getSelectedGroup, resolveLayerForRender } from '../../utils/groups';
+import { getLayerTransformFromObject, groupObjects } from '../../utils/transforms';
 import type { Canvas as FabricCanvas } from 'fabric/fabric-impl';
 
 interface CanvasProps {
   canvasRef: React.RefObject<FabricCanvas | null>;
 }
 
+/**
+ * Load an image layer onto the canvas. Loading is async, so the layer is
+ * skipped if it was deleted, already added or the canvas was disposed meanwhile.
+ * @param fabricCanvas - Fabric.js canvas
+ * @param layer - Image layer properties
+ */
+const addImageObject = async (
+  fabricCanvas: fabric.Canvas,
+  layer: ImageLayerProperties
+): Promise<void> => {
+  const imageObj = await createImageObjectFromLayer(layer);
+  
+  const latestLayer = useEditorStore.getState().imageLayers.find(l => l.id === layer.id);
+  const alreadyAdded = fabricCanvas.getObjects().some(obj =>
+    // TODO: Use module augmentation to extend fabric.Object with layerId property
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (obj as any).layerId === layer.id
+  );
+  if (fabricCanvas.disposed || !latestLayer || alreadyAdded) return;
+  
+  updateImageObjectFromLayer(imageObj, resolveLayerForRender(latestLayer, useEditorStore.getState().groups));
+  fabricCanvas.add(imageObj);
+};
+
+/**
+ * Restack layer objects to match the store's layer order.
+ * Objects without a layer ID (the background) stay underneath.
+ * @param fabricCanvas - Fabric.js canvas
+ * @param layerOrder - Layer IDs, bottom to top
+ */
+const applyLayerOrder = (fabricCanvas: fabric.Canvas, layerOrder: string[]): void => {
+  if (fabricCanvas.disposed) return;
+  
+  const objects = fabricCanvas.getObjects();
+  layerOrder.forEach(layerId => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const obj = objects.find(o => (o as any).layerId === layerId);
+    if (obj) {
+      fabricCanvas.bringObjectToFront(obj);
+    }
+  });
+  fabricCanvas.requestRenderAll();
+};
+
 const Canvas: React.FC<CanvasProps> = ({ canvasRef }) => {
-  const { canvasDimensions, backgroundImage, textLayers, selectedLayerIds, updateTextLayer } = useEditorStore();
+  const {
+    canvasDimensions,
+    backgroundImage,
+    textLayers,
+    imageLayers,
+    shapeLayers,
+    groups,
+    layerOrder,
+    selectedLayerIds,
+    updateLayerTransform,
+  } = useEditorStore();
   const { pushHistory } = useHistoryStore();
   const canvasElementRef = useRef<HTMLCanvasElement>(null);
+  // Uploaded fonts restored on reload finish loading after the text is first drawn
+  const loadedFontFamilies = useFontStore(state =>
+    state.customFonts.filter(font => font.isLoaded).map(font => font.family).join('\n')
+  );
 
   useEffect(() => {
     if (!canvasElementRef.current) return;
@@ -36,11 +108,12 @@ const Canvas: React.FC<CanvasProps> = ({ canvasRef }) => {
       const obj = e.target;
       const layerId = obj.layerId;
       if (layerId) {
-        updateTextLayer(layerId, {
+        const kind = getLayerKind(useEditorStore.getState(), layerId);
+        updateLayerTransform(layerId, {
           left: obj.left,
           top: obj.top,
         });
-        pushHistory('Moved text layer', useEditorStore.getState());
+        pushHistory(`Moved ${kind} layer`, useEditorStore.getState());
 
       }
     });
@@ -49,19 +122,91 @@ const Canvas: React.FC<CanvasProps> = ({ canvasRef }) => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     (fabricCanvas as any).on('object:modified', (e: any) => {
       const obj = e.target;
+      
+      // Moving, rotating or scaling a selection (or a group) changes every object in it
+      if (obj instanceof fabric.ActiveSelection) {
+        const layerIds: string[] = [];
+        obj.getObjects().forEach(child => {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const childLayerId = (child as any).layerId;
+          if (childLayerId) {
+            updateLayerTransform(childLayerId, getLayerTransformFromObject(child));
+            layerIds.push(childLayerId);
+          }
+        });
+        
+        const group = getSelectedGroup(useEditorStore.getState().groups, layerIds);
+        pushHistory(
+          group ? `Transformed ${group.name}` : `Modified ${layerIds.length} layers`,
+          useEditorStore.getState()
+        );
+        return;
+      }
+      
       const layerId = obj.layerId;
       if (layerId) {
-        updateTextLayer(layerId, {
+        const kind = getLayerKind(useEditorStore.getState(), layerId);
+        updateLayerTransform(layerId, {
           left: obj.left,
           top: obj.top,
           scaleX: obj.scaleX,
           scaleY: obj.scaleY,
           angle: obj.angle,
         });
-        pushHistory('Modified text layer', useEditorStore.getState());
+        // Textboxes resize by changing their width rather than their scale
+        // (and height, when the text is fitted to its box); curved text keeps
+        // its width and stores the curve its handles edited
+        if (kind === 'text') {
+          useEditorStore.getState().updateTextLayer(
+            layerId,
+            obj.textPath
+              ? { textPath: obj.textPath }
+              : { width: obj.width, ...(obj.boxHeight ? { height: obj.boxHeight } : {}) }
+          );
+        }
+        pushHistory(`Modified ${kind} layer`, useEditorStore.getState());
 
       }
     });
+    
+    // Fitted text follows its box while it is being resized
+    fabricCanvas.on('object:resizing', (e) => {
+      refitTextObject(e.target);
+    });
+    
+    // Keep the store selection in step with clicks on the canvas.
+    // Clicking any member of a group selects the whole group.
+    // TODO: Create FabricSelectionEvent interface for proper event typing
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const handleCanvasSelection = (e: any) => {
+      // Programmatic selections are driven by the store already
+      if (!e.e) return;
+      
+      const { groups: currentGroups, selectMultipleLayers } = useEditorStore.getState();
+      const selectedIds: string[] = fabricCanvas.getActiveObjects()
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .map(obj => (obj as any).layerId)
+        .filter(Boolean);
+      const expandedIds = expandToGroupMembers(currentGroups, selectedIds);
+      
+      if (expandedIds.length > selectedIds.length) {
+        const members = fabricCanvas.getObjects().filter(obj =>
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          expandedIds.includes((obj as any).layerId) && obj.selectable
+        );
+        groupObjects(fabricCanvas, members);
+      }
+      
+      selectMultipleLayers(expandedIds);
+    };
+    
+    fabricCanvas.on('selection:created', handleCanvasSelection);
+    fabricCanvas.on('selection:updated', handleCanvasSelection);
+    fabricCanvas.on('selection:cleared', (e) => {
+      if (e.e) {
+        useEditorStore.getState().deselectAllLayers();
+      }
+    });
 
     // Handle text content changes
     // TODO: Create FabricTextEvent interface for proper event typing
@@ -70,12 +215,32 @@ const Canvas: React.FC<CanvasProps> = ({ canvasRef }) => {
       const obj = e.target;
       const layerId = obj.layerId;
       if (layerId && obj.text !== undefined) {
-        updateTextLayer(layerId, {
+        useEditorStore.getState().updateTextLayer(layerId, {
           text: obj.text,
+          spans: getTextObjectSpans(obj),
         });
 
       }
     });
+    
+    // Share the characters selected while editing on the canvas, so the
+    // properties panel styles just that range
+    // TODO: Create FabricTextEvent interface for proper event typing
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (fabricCanvas as any).on('text:selection:changed', (e: any) => {
+      const obj = e.target;
+      const layerId = obj.layerId;
+      if (!layerId) return;
+      
+      // Fabric.js counts line breaks as characters; span offsets skip them
+      const toOffset = (index: number) =>
+        obj._text.slice(0, index).filter((char: string) => char !== '\n').length;
+      useTextSelectionStore.getState().setRange({
+        layerId,
+        start: toOffset(obj.selectionStart),
+        end: toOffset(obj.selectionEnd),
+      });
+    });
 
     // Handle text editing exit to ensure final sync
     // TODO: Create FabricTextEvent interface for proper event typing
@@ -84,8 +249,9 @@ const Canvas: React.FC<CanvasProps> = ({ canvasRef }) => {
       const obj = e.target;
       const layerId = obj.layerId;
       if (layerId && obj.text !== undefined) {
-        updateTextLayer(layerId, {
+        useEditorStore.getState().updateTextLayer(layerId, {
           text: obj.text,
+          spans: getTextObjectSpans(obj),
         });
         pushHistory('Edited text content', useEditorStore.getState());
 
@@ -113,28 +279,29 @@ const Canvas: React.FC<CanvasProps> = ({ canvasRef }) => {
         fabricCanvas.clear();
         fabricCanvas.add(img);
         
-        // Re-add all text layers on top of background
-        textLayers.forEach(layer => {
-          const textObj = new fabric.Textbox(layer.text, {
-            left: layer.left,
-            top: layer.top,
-            fontSize: layer.fontSize || 24,
-            fill: layer.color || '#000000',
-            fontFamily: layer.fontFamily || 'Arial',
-            width: layer.width || 200,
-            opacity: layer.opacity || 1,
-            visible: true,
-            selectable: !layer.locked,
-            evented: !layer.locked,
-          });
-          // TODO: Use module augmentation to extend fabric.Object with layerId property
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          (textObj as any).layerId = layer.id;
+        // Re-add all layers on top of background
+        const {
+          textLayers: currentTextLayers,
+          imageLayers: currentImageLayers,
+          shapeLayers: currentShapeLayers,
+          groups: currentGroups,
+        } = useEditorStore.getState();
+        
+        currentTextLayers.forEach(layer => {
           // TODO: Create typed wrapper for canvas.add method
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          fabricCanvas.add(textObj as any);
+          fabricCanvas.add(createTextObjectFromLayer(resolveLayerForRender(layer, currentGroups)) as any);
         });
         
+        currentShapeLayers.forEach(layer => {
+          fabricCanvas.add(createShapeObjectFromLayer(resolveLayerForRender(layer, currentGroups)));
+        });
+        
+        // Re-add image layers and restack everything once they have loaded
+        Promise.all(currentImageLayers.map(layer => addImageObject(fabricCanvas, layer)))
+          .then(() => applyLayerOrder(fabricCanvas, useEditorStore.getState().layerOrder))
+          .catch(error => console.error('Failed to load image layers:', error));
+        
         fabricCanvas.renderAll();
 
       });
@@ -143,7 +310,7 @@ const Canvas: React.FC<CanvasProps> = ({ canvasRef }) => {
     return () => {
       fabricCanvas.dispose();
     };
-  }, [canvasDimensions, backgroundImage, canvasRef, pushHistory, textLayers, updateTextLayer]);
+  }, [canvasDimensions, backgroundImage, canvasRef, pushHistory, updateLayerTransform]);
 
   // Sync text layers with Fabric.js canvas
   useEffect(() => {
@@ -153,7 +320,20 @@ const Canvas: React.FC<CanvasProps> = ({ canvasRef }) => {
     }
 
     const fabricCanvas = canvasRef.current;
-
+    // TODO: Create proper Canvas type definitions
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const layerCanvas = fabricCanvas as any as fabric.Canvas;
+    
+    // Objects inside an active selection use coordinates relative to it,
+    // so release them while syncing and restore the selection afterwards
+    const activeObject = layerCanvas.getActiveObject();
+    const reselectIds = activeObject instanceof fabric.ActiveSelection
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      ? activeObject.getObjects().map(obj => (obj as any).layerId as string)
+      : null;
+    if (reselectIds) {
+      layerCanvas.discardActiveObject();
+    }
     
     // Get existing text objects
     const existingTextObjects = fabricCanvas.getObjects().filter(obj => 
@@ -171,8 +351,9 @@ const Canvas: React.FC<CanvasProps> = ({ canvasRef }) => {
       }
     });
 
-    // Add or update text objects for each layer
+    // Add or update text objects for each layer (store is the source of truth)
     textLayers.forEach(layer => {
+      const renderLayer = resolveLayerForRender(layer, groups);
       const existingObj = existingTextObjects.find(obj => 
         // TODO: Use module augmentation to extend fabric.Object with layerId property
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -180,61 +361,104 @@ const Canvas: React.FC<CanvasProps> = ({ canvasRef }) => {
       );
 
       if (!existingObj) {
-        // Create new text object
-        const textObj = new fabric.Textbox(layer.text, {
-          left: layer.left,
-          top: layer.top,
-          fontSize: layer.fontSize || 24,
-          fill: layer.color || '#000000',
-          fontFamily: layer.fontFamily || 'Arial',
-          width: layer.width || 200,
-          opacity: layer.opacity || 1,
-          lineHeight: layer.lineHeight || 1.2,
-          charSpacing: layer.charSpacing || 0,
-          visible: true, // Ensure always visible
-          // Lock enforcement
-          selectable: !layer.locked,
-          evented: !layer.locked,
-        });
-
-        // Store layer ID for tracking
-        // TODO: Use module augmentation to extend fabric.Object with layerId property
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (textObj as any).layerId = layer.id;
-        
-        // TODO: Create typed wrapper for canvas.add method
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        fabricCanvas.add(textObj as any);
+        layerCanvas.add(createTextObjectFromLayer(renderLayer));
         fabricCanvas.renderAll(); // Force render after adding
 
       } else {
-        // Update existing object properties (preserve position unless explicitly changed)
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (existingObj as any).set({
-          text: layer.text,
-          fontSize: layer.fontSize || 24,
-          fill: layer.color || '#000000',
-          fontFamily: layer.fontFamily || 'Arial',
-          opacity: layer.opacity || 1,
-          lineHeight: layer.lineHeight || 1.2,
-          charSpacing: layer.charSpacing || 0,
-          visible: true, // Ensure always visible
-          // Lock enforcement
-          selectable: !layer.locked,
-          evented: !layer.locked,
-        });
-        
-        // Always update position to match store (store is the source of truth)
+        updateTextObjectFromLayer(existingObj as unknown as fabric.Textbox, renderLayer);
+      }
+    });
+
+    // Remove image objects that no longer exist in store
+    const existingImageObjects = layerCanvas.getObjects().filter(obj =>
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      obj.type === 'image' && (obj as any).layerId
+    ) as fabric.FabricImage[];
+    
+    existingImageObjects.forEach(obj => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const layerId = (obj as any).layerId;
+      if (!imageLayers.find(layer => layer.id === layerId)) {
+        layerCanvas.remove(obj);
+      }
+    });
+    
+    // Add or update image objects for each layer
+    const pendingImages: Promise<void>[] = [];
+    imageLayers.forEach(layer => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const existingObj = existingImageObjects.find(obj => (obj as any).layerId === layer.id);
+      
+      if (existingObj) {
+        updateImageObjectFromLayer(existingObj, resolveLayerForRender(layer, groups));
+      } else {
+        pendingImages.push(addImageObject(layerCanvas, layer));
+      }
+    });
+    
+    // Shape objects are tagged with their shape type; a type change needs a new object
+    const existingShapeObjects = layerCanvas.getObjects().filter(obj =>
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (obj as any).shapeType && (obj as any).layerId
+    );
+    
+    existingShapeObjects.forEach(obj => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { layerId, shapeType } = obj as any;
+      const layer = shapeLayers.find(l => l.id === layerId);
+      if (!layer || layer.shapeType !== shapeType) {
+        layerCanvas.remove(obj);
+      }
+    });
+    
+    // Add or update shape objects for each layer
+    shapeLayers.forEach(layer => {
+      const existingObj = existingShapeObjects.find(obj =>
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (existingObj as any).set({
-          left: layer.left,
-          top: layer.top,
-        });
+        (obj as any).layerId === layer.id && (obj as any).shapeType === layer.shapeType
+      );
+      
+      const renderLayer = resolveLayerForRender(layer, groups);
+      if (existingObj) {
+        updateShapeObjectFromLayer(existingObj, renderLayer);
+      } else {
+        layerCanvas.add(createShapeObjectFromLayer(renderLayer));
       }
     });
+    
+    applyLayerOrder(layerCanvas, layerOrder);
+    if (pendingImages.length > 0) {
+      Promise.all(pendingImages)
+        .then(() => applyLayerOrder(layerCanvas, useEditorStore.getState().layerOrder))
+        .catch(error => console.error('Failed to load image layers:', error));
+    }
+    
+    if (reselectIds) {
+      groupObjects(layerCanvas, layerCanvas.getObjects().filter(obj =>
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        reselectIds.includes((obj as any).layerId) && obj.selectable
+      ));
+    }
 
     fabricCanvas.renderAll();
-  }, [textLayers, canvasRef]);
+  }, [textLayers, imageLayers, shapeLayers, groups, layerOrder, canvasRef]);
+
+  // Lay text out again once its fonts have loaded, dropping widths measured with a fallback font
+  useEffect(() => {
+    if (!canvasRef?.current || !loadedFontFamilies) return;
+
+    loadedFontFamilies.split('\n').forEach(family => fabric.cache.clearFontCache(family));
+    const { textLayers: currentTextLayers, groups: currentGroups } = useEditorStore.getState();
+    canvasRef.current.getObjects().forEach(obj => {
+      // TODO: Use module augmentation to extend fabric.Object with layerId property
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const layer = currentTextLayers.find(l => l.id === (obj as any).layerId);
+      if (layer && obj.type === 'textbox') {
+        updateTextObjectFromLayer(obj as unknown as fabric.Textbox, resolveLayerForRender(layer, currentGroups));
+      }
+    });
+    canvasRef.current.requestRenderAll();
+  }, [loadedFontFamilies, canvasRef]);
 
   // Sync selection between sidebar and canvas
   useEffect(() => {
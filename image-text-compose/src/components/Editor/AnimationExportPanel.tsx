@@ -0,0 +1,269 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useEditorStore } from '../../store/editorSlice';
+import { AnimationExportOptions, AnimationFormat, ExportProgress } from '../../types/export';
+import {
+  ANIMATION_FORMATS,
+  ANIMATION_FRAME_RATES,
+  ANIMATION_WIDTHS,
+  DEFAULT_ANIMATION_EXPORT_OPTIONS,
+  exportAnimation,
+  getAnimationLength,
+} from '../../utils/animationExport';
+import { createCompositionCanvas } from '../../utils/composition';
+import { downloadBlob } from '../../utils/export';
+import { createAnimationTimeline, TEXT_ANIMATION_LABELS } from '../../utils/textAnimations';
+import { useToast } from '../Toast/ToastContainer';
+
+interface AnimationExportPanelProps {
+  onClose: () => void;
+}
+
+// Width of the preview player in the dialog
+const PREVIEW_WIDTH = 352;
+
+const AnimationExportPanel: React.FC<AnimationExportPanelProps> = ({ onClose }) => {
+  const [options, setOptions] = useState<AnimationExportOptions>(DEFAULT_ANIMATION_EXPORT_OPTIONS);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { showSuccess, showError } = useToast();
+
+  const state = useEditorStore();
+  const animatedLayers = state.textLayers.filter(layer => layer.animation);
+  const length = getAnimationLength(state, options.hold);
+
+  // Stop a running export if the dialog closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Play the animation once in the preview, drawn from its own copy of the layers
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frameRequest = 0;
+    let isCancelled = false;
+    const compositionPromise = createCompositionCanvas(useEditorStore.getState(), '#ffffff');
+
+    compositionPromise.then(composition => {
+      if (isCancelled) return;
+      const preview = previewRef.current;
+      const ctx = preview?.getContext('2d');
+      if (!preview || !ctx) return;
+
+      const poseAt = createAnimationTimeline(composition, useEditorStore.getState().textLayers);
+      const multiplier = PREVIEW_WIDTH / composition.getWidth();
+      preview.width = PREVIEW_WIDTH;
+      preview.height = Math.round(composition.getHeight() * multiplier);
+      const startedAt = performance.now();
+
+      const draw = (now: number) => {
+        const time = (now - startedAt) / 1000;
+        poseAt(time);
+        ctx.drawImage(composition.toCanvasElement(multiplier), 0, 0);
+        if (time < length) {
+          frameRequest = requestAnimationFrame(draw);
+        } else {
+          setIsPlaying(false);
+        }
+      };
+      frameRequest = requestAnimationFrame(draw);
+    }).catch(error => {
+      console.error('Error previewing animation:', error);
+      setIsPlaying(false);
+    });
+
+    return () => {
+      isCancelled = true;
+      cancelAnimationFrame(frameRequest);
+      compositionPromise.then(composition => composition.dispose()).catch(() => {});
+    };
+  }, [isPlaying, length]);
+
+  const handleDownload = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsPlaying(false);
+    setProgress({ stage: 'rendering', done: 0, total: 1 });
+
+    try {
+      const blob = await exportAnimation(useEditorStore.getState(), options, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      downloadBlob(blob, `image-text-composition-${Date.now()}.${ANIMATION_FORMATS[options.format].extension}`);
+      showSuccess('Export successful', `Your animation has been downloaded as a ${ANIMATION_FORMATS[options.format].label} file.`);
+      onClose();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return;
+      }
+      console.error('Error exporting animation:', error);
+      showError(
+        'Export failed',
+        error instanceof Error ? error.message : 'An unexpected error occurred during export.'
+      );
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  return (
+    <>
+      {/* Timeline */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">Timeline ({length.toFixed(1)}s)</label>
+        {animatedLayers.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            No text layers are animated. Choose an entrance animation in a text layer&apos;s properties.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {animatedLayers.map(layer => layer.animation && (
+              <div key={layer.id} className="flex items-center gap-2 text-xs">
+                <span className="w-20 truncate" title={layer.text}>{layer.text || 'Text'}</span>
+                <div className="relative flex-1 h-4 bg-gray-100 rounded">
+                  <div
+                    className="absolute h-full bg-blue-400 rounded"
+                    style={{
+                      left: `${(layer.animation.start / length) * 100}%`,
+                      width: `${(layer.animation.duration / length) * 100}%`,
+                    }}
+                    title={`${TEXT_ANIMATION_LABELS[layer.animation.type]}, ${layer.animation.start}s to ${layer.animation.start + layer.animation.duration}s`}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Preview */}
+      <div className="mb-4">
+        <canvas
+          ref={previewRef}
+          width={PREVIEW_WIDTH}
+          height={0}
+          className={`w-full border rounded ${isPlaying ? '' : 'hidden'}`}
+        />
+        <button
+          onClick={() => setIsPlaying(!isPlaying)}
+          disabled={progress !== null}
+          className="mt-1 text-blue-500 text-sm disabled:text-gray-400"
+        >
+          {isPlaying ? 'Stop Preview' : 'Play Preview'}
+        </button>
+      </div>
+
+      {/* Format */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">Format</label>
+        <div className="flex border rounded overflow-hidden">
+          {(Object.keys(ANIMATION_FORMATS) as AnimationFormat[]).map((format) => (
+            <button
+              key={format}
+              className={`flex-1 py-1 text-sm ${options.format === format ? 'bg-blue-500 text-white' : 'bg-white'}`}
+              onClick={() => setOptions({ ...options, format })}
+            >
+              {ANIMATION_FORMATS[format].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Frame Rate & Width */}
+      <div className="mb-4 flex gap-2">
+        <div className="flex-1">
+          <label className="block text-sm font-medium mb-1">Frame Rate</label>
+          <select
+            value={options.fps}
+            onChange={(e) => setOptions({ ...options, fps: parseInt(e.target.value) })}
+            className="w-full p-1 border rounded"
+          >
+            {ANIMATION_FRAME_RATES.map((fps) => (
+              <option key={fps} value={fps}>{fps} fps</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label className="block text-sm font-medium mb-1">Width</label>
+          <select
+            value={options.width}
+            onChange={(e) => setOptions({ ...options, width: parseInt(e.target.value) })}
+            className="w-full p-1 border rounded"
+          >
+            {ANIMATION_WIDTHS.map((width) => (
+              <option key={width} value={width}>{width}px</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Hold */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">
+          Hold at End: {options.hold.toFixed(1)}s
+        </label>
+        <input
+          type="range"
+          min="0"
+          max="10"
+          step="0.5"
+          value={options.hold}
+          onChange={(e) => setOptions({ ...options, hold: parseFloat(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+
+      <div className="mb-4 p-2 bg-gray-50 rounded text-sm">
+        {progress ? (
+          <div>
+            <div className="h-2 bg-gray-200 rounded overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all"
+                style={{ width: `${(progress.done / progress.total) * 100}%` }}
+              />
+            </div>
+            <div className="text-xs text-gray-500 mt-1">
+              {progress.stage === 'rendering'
+                ? `Rendering frame ${progress.done + 1} of ${progress.total}...`
+                : 'Encoding...'}
+            </div>
+          </div>
+        ) : (
+          <div className="text-gray-600">
+            {Math.round(length * options.fps)} frames.{' '}
+            {options.format === 'webm'
+              ? 'WebM is recorded as it plays, so exporting takes as long as the animation.'
+              : 'GIF uses up to 256 colors, so photos may show banding.'}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {progress ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200"
+          >
+            Stop Export
+          </button>
+        ) : (
+          <button onClick={onClose} className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200">
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={handleDownload}
+          disabled={progress !== null}
+          className="px-3 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:bg-gray-300"
+        >
+          {progress ? 'Exporting...' : 'Download'}
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default AnimationExportPanel;
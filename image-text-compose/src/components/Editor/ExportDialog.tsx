@@ -0,0 +1,572 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useEditorStore } from '../../store/editorSlice';
+import { useFontStore } from '../../store/fontSlice';
+import { BackgroundImage } from '../../types/canvas';
+import { CustomFont } from '../../types/fonts';
+import {
+  ExportArea,
+  ExportColorProfile,
+  ExportFormat,
+  ExportOptions,
+  ExportProgress,
+  PdfPageSize,
+} from '../../types/export';
+import {
+  COLOR_METADATA_FORMATS,
+  EXPORT_COLOR_PROFILES,
+  addColorMetadata,
+  convertToColorSpace,
+  readIccProfile,
+  resolveColorProfile,
+} from '../../utils/colorProfiles';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMATS,
+  LARGE_EXPORT_PIXELS,
+  RASTER_EXPORT_FORMATS,
+  downloadBlob,
+  encodeExportCanvas,
+  formatFileSize,
+  renderExportCanvas,
+  renderLayersCanvas,
+  renderRegionCanvas,
+} from '../../utils/export';
+import {
+  MAX_PDF_BLEED,
+  PDF_DPI_OPTIONS,
+  PDF_PAGE_SIZES,
+  exportToPdf,
+  getPdfPageLayout,
+} from '../../utils/pdfExport';
+import { createEmbeddedProject, embedProjectInPng } from '../../utils/pngMetadata';
+import { exportToSvg } from '../../utils/svgExport';
+import { exportInTiles, getExportSize } from '../../utils/tiledExport';
+import { useToast } from '../Toast/ToastContainer';
+import AnimationExportPanel from './AnimationExportPanel';
+import ExportRegionPicker from './ExportRegionPicker';
+import PresetExportPanel from './PresetExportPanel';
+import type { Canvas as FabricCanvas } from 'fabric/fabric-impl';
+
+interface ExportDialogProps {
+  canvas: FabricCanvas;
+  backgroundImage: BackgroundImage;
+  onClose: () => void;
+}
+
+// Upload limit on most social platforms and our CMS
+const SIZE_WARNING_BYTES = 8 * 1024 * 1024;
+
+const EXPORT_MODES = [
+  { value: 'single', label: 'Single File' },
+  { value: 'presets', label: 'Social Sizes' },
+  { value: 'animation', label: 'Animation' },
+] as const;
+
+const EXPORT_AREAS: { value: ExportArea; label: string }[] = [
+  { value: 'canvas', label: 'Whole Image' },
+  { value: 'region', label: 'Region' },
+  { value: 'layers', label: 'Selected Layers' },
+];
+
+const EMPTY_REGION = { left: 0, top: 0, width: 0, height: 0 };
+
+/**
+ * Encode the export. SVG is written from the layers themselves, PDF places
+ * the render with the text over it, and the other formats encode the render,
+ * with PNG and JPEG tagged with their DPI and color profile.
+ */
+const encodeExport = async (
+  canvas: FabricCanvas,
+  backgroundImage: BackgroundImage,
+  customFonts: CustomFont[],
+  rendered: HTMLCanvasElement,
+  options: ExportOptions,
+  sourceProfile: Uint8Array<ArrayBuffer> | null
+): Promise<Blob> => {
+  if (options.format === 'svg') {
+    const svg = await exportToSvg(canvas, backgroundImage, customFonts);
+    return new Blob([svg], { type: EXPORT_FORMATS.svg.mimeType });
+  }
+  if (options.format === 'pdf') {
+    return exportToPdf(canvas, rendered, options);
+  }
+
+  if (!COLOR_METADATA_FORMATS.includes(options.format)) {
+    return encodeExportCanvas(rendered, options);
+  }
+
+  const { colorSpace, profile } = resolveColorProfile(options.colorProfile, sourceProfile);
+  const encoded = await encodeExportCanvas(convertToColorSpace(rendered, colorSpace), options);
+  const blob = await addColorMetadata(encoded, options.format, options.dpi, profile);
+  // A partial export reopens as the whole project, so only whole images carry it
+  if (options.format === 'png' && options.embedProject && options.area === 'canvas') {
+    return embedProjectInPng(blob, createEmbeddedProject(useEditorStore.getState(), customFonts));
+  }
+  return blob;
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ canvas, backgroundImage, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [rendered, setRendered] = useState<HTMLCanvasElement | null>(null);
+  const [encoded, setEncoded] = useState<{ options: ExportOptions; blob: Blob } | null>(null);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [mode, setMode] = useState<(typeof EXPORT_MODES)[number]['value']>('single');
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Undefined until the background image has been read
+  const [sourceProfile, setSourceProfile] = useState<Uint8Array<ArrayBuffer> | null | undefined>(undefined);
+  const { selectedLayerIds } = useEditorStore();
+  const { customFonts } = useFontStore();
+  const { showSuccess, showError } = useToast();
+
+  // SVG and PDF always export the whole composition
+  const isRaster = RASTER_EXPORT_FORMATS.includes(options.format);
+  const area = isRaster ? options.area : 'canvas';
+  const { region } = options;
+
+  // Whole images this large skip the preview render and export in tiles off the main thread
+  const exportSize = getExportSize(canvas, backgroundImage);
+  const isLargeExport = isRaster && area === 'canvas' && exportSize.width * exportSize.height > LARGE_EXPORT_PIXELS;
+
+  // Stop a running export if the dialog closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // The background's own color profile, for exports that keep it
+  useEffect(() => {
+    let cancelled = false;
+    fetch(backgroundImage.url)
+      .then(response => response.blob())
+      .then(readIccProfile)
+      .catch((error) => {
+        console.warn('Could not read the color profile of the background image:', error);
+        return null;
+      })
+      .then((profile) => {
+        if (!cancelled) setSourceProfile(profile);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backgroundImage]);
+
+  // Render at full resolution when the area changes; every format and quality encodes the same pixels
+  useEffect(() => {
+    setRendered(null);
+    if (isLargeExport) return;
+
+    const timer = setTimeout(() => {
+      try {
+        if (area === 'region') {
+          setRendered(renderRegionCanvas(canvas, backgroundImage, region || EMPTY_REGION));
+        } else if (area === 'layers') {
+          setRendered(renderLayersCanvas(canvas, backgroundImage, selectedLayerIds));
+        } else {
+          setRendered(renderExportCanvas(canvas, backgroundImage));
+        }
+        setEstimateError(null);
+      } catch (error) {
+        setEstimateError(error instanceof Error ? error.message : 'Failed to render the image');
+      }
+    }, area === 'region' ? 300 : 0);
+    return () => clearTimeout(timer);
+  }, [canvas, backgroundImage, area, region, selectedLayerIds, isLargeExport]);
+
+  // Encode with the current settings to show the real file size, once the slider settles
+  useEffect(() => {
+    if (!rendered) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      encodeExport(canvas, backgroundImage, customFonts, rendered, options, sourceProfile ?? null)
+        .then((blob) => {
+          if (!cancelled) {
+            setEncoded({ options, blob });
+            setEstimateError(null);
+          }
+        })
+        .catch((error) => {
+          if (!cancelled) {
+            setEncoded(null);
+            setEstimateError(error instanceof Error ? error.message : 'Failed to encode the image');
+          }
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [canvas, backgroundImage, customFonts, rendered, options, sourceProfile]);
+
+  const updateOptions = (changes: Partial<ExportOptions>) => {
+    setOptions(current => ({ ...current, ...changes }));
+  };
+
+  const exportLarge = async (): Promise<Blob> => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const hasColorMetadata = COLOR_METADATA_FORMATS.includes(options.format);
+      const { colorSpace, profile } = hasColorMetadata
+        ? resolveColorProfile(options.colorProfile, sourceProfile ?? null)
+        : { colorSpace: 'srgb' as const, profile: null };
+      const tiled = await exportInTiles(canvas, backgroundImage, options, colorSpace, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      const blob = hasColorMetadata
+        ? await addColorMetadata(tiled, options.format, options.dpi, profile)
+        : tiled;
+      return options.format === 'png' && options.embedProject
+        ? embedProjectInPng(blob, createEmbeddedProject(useEditorStore.getState(), customFonts))
+        : blob;
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!rendered && !isLargeExport) return;
+
+    try {
+      setIsDownloading(true);
+      let blob: Blob;
+      if (isLargeExport) {
+        blob = await exportLarge();
+      } else if (encoded && encoded.options === options) {
+        blob = encoded.blob;
+      } else if (rendered) {
+        blob = await encodeExport(canvas, backgroundImage, customFonts, rendered, options, sourceProfile ?? null);
+      } else {
+        return;
+      }
+      const { extension, label } = EXPORT_FORMATS[options.format];
+      downloadBlob(blob, `image-text-composition-${Date.now()}.${extension}`);
+
+      showSuccess('Export successful', `Your ${label} file has been downloaded.`);
+      onClose();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+
+      console.error('Error exporting canvas:', error);
+      showError(
+        'Export failed',
+        (error instanceof Error ? error.message : 'An unexpected error occurred during export.') +
+          ' Please try again or try with a smaller image.'
+      );
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const isCurrent = encoded !== null && encoded.options === options;
+  const hasColorMetadata = COLOR_METADATA_FORMATS.includes(options.format);
+  const colorProfileNotice = hasColorMetadata && options.colorProfile === 'source' && sourceProfile !== undefined
+    ? resolveColorProfile('source', sourceProfile).notice
+    : undefined;
+  const pdfLayout = rendered && options.format === 'pdf'
+    ? getPdfPageLayout(rendered.width, rendered.height, options)
+    : null;
+  const toMillimetres = (points: number) => Math.round((points * 25.4) / 72);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div className="w-96 p-4 bg-white rounded-md shadow-lg" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-lg font-medium mb-4">Export Image</h3>
+
+        {/* Mode */}
+        <div className="mb-4 flex border rounded overflow-hidden">
+          {EXPORT_MODES.map(({ value, label }) => (
+            <button
+              key={value}
+              className={`flex-1 py-1 text-sm ${mode === value ? 'bg-blue-500 text-white' : 'bg-white'}`}
+              onClick={() => setMode(value)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'presets' ? (
+          <PresetExportPanel canvas={canvas} onClose={onClose} />
+        ) : mode === 'animation' ? (
+          <AnimationExportPanel onClose={onClose} />
+        ) : (
+          <>
+            {/* Format */}
+            <div className="mb-4">
+              <label className="block text-sm font-medium mb-1">Format</label>
+              <div className="flex border rounded overflow-hidden">
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                  <button
+                    key={format}
+                    className={`flex-1 py-1 text-sm ${
+                      options.format === format ? 'bg-blue-500 text-white' : 'bg-white'
+                    }`}
+                    onClick={() => updateOptions({ format })}
+                  >
+                    {EXPORT_FORMATS[format].label}
+                  </button>
+                ))}
+              </div>
+              {options.format === 'svg' && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Text stays editable. Uploaded fonts are embedded; other fonts are referenced by name.
+                </p>
+              )}
+            </div>
+
+            {/* Area */}
+            {isRaster && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium mb-1">Area</label>
+                <div className="flex border rounded overflow-hidden">
+                  {EXPORT_AREAS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      disabled={value === 'layers' && selectedLayerIds.length === 0}
+                      className={`flex-1 py-1 text-sm disabled:text-gray-300 ${
+                        options.area === value ? 'bg-blue-500 text-white' : 'bg-white'
+                      }`}
+                      onClick={() => updateOptions({ area: value })}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {options.area === 'region' && (
+                  <div className="mt-2">
+                    <ExportRegionPicker
+                      canvas={canvas}
+                      region={region}
+                      onChange={(next) => updateOptions({ region: next })}
+                    />
+                  </div>
+                )}
+                {options.area === 'layers' && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Only the selected layers, on a transparent background, trimmed to their edges.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Quality */}
+            {(options.format === 'jpeg' || options.format === 'webp') && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium mb-1">
+                  Quality: {Math.round(options.quality * 100)}%
+                </label>
+                <input
+                  type="range"
+                  min="0.1"
+                  max="1"
+                  step="0.01"
+                  value={options.quality}
+                  onChange={(e) => updateOptions({ quality: parseFloat(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+            )}
+
+            {/* Embed Project */}
+            {options.format === 'png' && options.area === 'canvas' && (
+              <label className="flex items-center gap-2 mb-4 text-sm">
+                <input
+                  type="checkbox"
+                  checked={options.embedProject}
+                  onChange={(e) => updateOptions({ embedProject: e.target.checked })}
+                />
+                Save the project in the file, so it can be reopened for editing (adds about the size of the background image)
+              </label>
+            )}
+
+            {/* Matte Color */}
+            {options.format === 'jpeg' && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium mb-1">Matte Color</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={options.matteColor}
+                    onChange={(e) => updateOptions({ matteColor: e.target.value })}
+                    className="w-8 h-8 border rounded"
+                  />
+                  <span className="text-xs text-gray-500">Fills transparent areas, which JPEG cannot store.</span>
+                </div>
+              </div>
+            )}
+
+            {/* Color Profile and DPI */}
+            {hasColorMetadata && (
+              <div className="mb-4">
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium mb-1">Color Profile</label>
+                    <select
+                      value={options.colorProfile}
+                      onChange={(e) => updateOptions({ colorProfile: e.target.value as ExportColorProfile })}
+                      className="w-full p-1 border rounded text-sm"
+                    >
+                      {(Object.keys(EXPORT_COLOR_PROFILES) as ExportColorProfile[]).map((colorProfile) => (
+                        <option key={colorProfile} value={colorProfile}>
+                          {EXPORT_COLOR_PROFILES[colorProfile]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium mb-1">DPI</label>
+                    <select
+                      value={options.dpi}
+                      onChange={(e) => updateOptions({ dpi: parseInt(e.target.value) })}
+                      className="w-full p-1 border rounded text-sm"
+                    >
+                      {PDF_DPI_OPTIONS.map((dpi) => (
+                        <option key={dpi} value={dpi}>{dpi}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                {colorProfileNotice && (
+                  <p className="text-xs text-gray-500 mt-1">{colorProfileNotice}</p>
+                )}
+              </div>
+            )}
+
+            {/* PDF Page */}
+            {options.format === 'pdf' && (
+              <div className="mb-4">
+                <div className="flex gap-2 mb-3">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium mb-1">Page Size</label>
+                    <select
+                      value={options.pageSize}
+                      onChange={(e) => updateOptions({ pageSize: e.target.value as PdfPageSize })}
+                      className="w-full p-1 border rounded text-sm"
+                    >
+                      {(Object.keys(PDF_PAGE_SIZES) as PdfPageSize[]).map((pageSize) => (
+                        <option key={pageSize} value={pageSize}>
+                          {PDF_PAGE_SIZES[pageSize].label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium mb-1">DPI</label>
+                    <select
+                      value={options.dpi}
+                      onChange={(e) => updateOptions({ dpi: parseInt(e.target.value) })}
+                      className="w-full p-1 border rounded text-sm"
+                    >
+                      {PDF_DPI_OPTIONS.map((dpi) => (
+                        <option key={dpi} value={dpi}>{dpi}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <label className="block text-sm font-medium mb-1">Bleed: {options.bleed} mm</label>
+                <input
+                  type="range"
+                  min="0"
+                  max={MAX_PDF_BLEED}
+                  step="0.5"
+                  value={options.bleed}
+                  onChange={(e) => updateOptions({ bleed: parseFloat(e.target.value) })}
+                  className="w-full mb-2"
+                />
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={options.cropMarks}
+                    onChange={(e) => updateOptions({ cropMarks: e.target.checked })}
+                  />
+                  Crop marks
+                </label>
+              </div>
+            )}
+
+            {/* Size */}
+            <div className="mb-4 p-3 bg-gray-50 rounded border text-sm">
+              {rendered && (
+                <div className="text-gray-600">
+                  {rendered.width} × {rendered.height}px
+                </div>
+              )}
+              {isLargeExport && (
+                <div className="text-gray-600">
+                  {exportSize.width} × {exportSize.height}px, exported in tiles in the background
+                </div>
+              )}
+              {pdfLayout && (
+                <div className="text-gray-600">
+                  Trimmed page: {toMillimetres(pdfLayout.trimBox.width)} × {toMillimetres(pdfLayout.trimBox.height)} mm,
+                  image at {pdfLayout.rasterWidth} × {pdfLayout.rasterHeight}px
+                </div>
+              )}
+              {estimateError ? (
+                <div className="text-red-600">{estimateError}</div>
+              ) : isLargeExport ? (
+                progress ? (
+                  <div className="mt-1">
+                    <div className="h-2 bg-gray-200 rounded overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500 transition-all"
+                        style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                      />
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {progress.stage === 'rendering'
+                        ? `Rendering tile ${progress.done + 1} of ${progress.total}...`
+                        : 'Encoding...'}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-gray-500">File size is known once the export finishes.</div>
+                )
+              ) : (
+                <div>
+                  Estimated size:{' '}
+                  <span className="font-medium">
+                    {isCurrent ? formatFileSize(encoded.blob.size) : 'Calculating...'}
+                  </span>
+                </div>
+              )}
+              {isCurrent && encoded.blob.size > SIZE_WARNING_BYTES && (
+                <div className="text-amber-600 text-xs mt-1">
+                  Over 8 MB. Many platforms reject files this large; try JPEG or WebP at a lower quality.
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {progress ? (
+                <button
+                  onClick={() => abortRef.current?.abort()}
+                  className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200"
+                >
+                  Stop Export
+                </button>
+              ) : (
+                <button onClick={onClose} className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200">
+                  Cancel
+                </button>
+              )}
+              <button
+                onClick={handleDownload}
+                disabled={(!rendered && !isLargeExport) || isDownloading}
+                className="px-3 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:bg-gray-300"
+              >
+                {isDownloading ? 'Exporting...' : 'Download'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportRegion } from '../../types/export';
+import type { Canvas as FabricCanvas } from 'fabric/fabric-impl';
+
+interface ExportRegionPickerProps {
+  canvas: FabricCanvas;
+  region: ExportRegion | null;
+  onChange: (region: ExportRegion) => void;
+}
+
+// Width of the preview the region is drawn on
+const PREVIEW_WIDTH = 352;
+
+const ExportRegionPicker: React.FC<ExportRegionPickerProps> = ({ canvas, region, onChange }) => {
+  const [preview, setPreview] = useState<string | null>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  const canvasWidth = canvas.getWidth();
+  const canvasHeight = canvas.getHeight();
+  const scale = Math.min(PREVIEW_WIDTH / canvasWidth, 1);
+
+  useEffect(() => {
+    setPreview(canvas.toDataURL({ format: 'png', multiplier: Math.min(PREVIEW_WIDTH / canvas.getWidth(), 1) }));
+  }, [canvas]);
+
+  // Pointer position in canvas coordinates, kept inside the canvas
+  const toCanvasPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((e.clientX - rect.left) / scale, 0), canvasWidth),
+      y: Math.min(Math.max((e.clientY - rect.top) / scale, 0), canvasHeight),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = toCanvasPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return;
+
+    const start = dragStart.current;
+    const point = toCanvasPoint(e);
+    onChange({
+      left: Math.round(Math.min(start.x, point.x)),
+      top: Math.round(Math.min(start.y, point.y)),
+      width: Math.round(Math.abs(point.x - start.x)),
+      height: Math.round(Math.abs(point.y - start.y)),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  return (
+    <div>
+      <div
+        className="relative border cursor-crosshair select-none touch-none"
+        style={{ width: canvasWidth * scale, height: canvasHeight * scale }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {preview && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={preview} alt="Composition preview" className="w-full h-full" draggable={false} />
+        )}
+        {region && (
+          <div
+            className="absolute border-2 border-blue-500 bg-blue-500/10 pointer-events-none"
+            style={{
+              left: region.left * scale,
+              top: region.top * scale,
+              width: region.width * scale,
+              height: region.height * scale,
+            }}
+          />
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        {region && region.width > 0 && region.height > 0
+          ? `Region: ${region.width} × ${region.height} at ${region.left}, ${region.top} (canvas pixels)`
+          : 'Drag on the preview to choose the region.'}
+      </p>
+    </div>
+  );
+};
+
+export default ExportRegionPicker;
@@ -1,7 +1,10 @@
 import React, { useRef, useState } from 'react';
 import { useEditorStore } from '@/store/editorSlice';
+import { useFontStore } from '@/store/fontSlice';
 import { useHistoryStore } from '@/store/historySlice';
 import { BackgroundImage, ImageDimensions } from '@/types/canvas';
+import { EmbeddedProject } from '@/types/export';
+import { readProjectFromPng } from '@/utils/pngMetadata';
 import { useToast } from '@/components/Toast/ToastContainer';
 
 const ImageUploader: React.FC = () => {
@@ -9,8 +12,9 @@ const ImageUploader: React.FC = () => {
   const [isUploading, setIsUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  const { setBackgroundImage, setCanvasDimensions } = useEditorStore();
+  const { setBackgroundImage, setCanvasDimensions, importState } = useEditorStore();
   const { pushHistory } = useHistoryStore();
+  const { getFontByFamily } = useFontStore();
   const { showSuccess, showError, showWarning } = useToast();
   
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -45,6 +49,20 @@ const ImageUploader: React.FC = () => {
     }
   };
   
+  const openEmbeddedProject = (project: EmbeddedProject, file: File) => {
+    importState(project.state);
+    pushHistory('Reopened project from PNG', useEditorStore.getState());
+
+    const missingFonts = project.customFonts.filter(family => !getFontByFamily(family));
+    if (missingFonts.length > 0) {
+      showWarning(
+        'Fonts missing',
+        `Upload ${missingFonts.join(', ')} to show the text as it was designed.`
+      );
+    }
+    showSuccess('Project reopened', `${file.name} is editable again.`);
+  };
+
   const processFile = async (file: File) => {
     try {
       setIsUploading(true);
@@ -69,6 +87,22 @@ const ImageUploader: React.FC = () => {
         return;
       }
 
+      // PNGs exported from the editor can carry their whole project
+      if (file.type === 'image/png') {
+        const project = await readProjectFromPng(file);
+        if (
+          project &&
+          window.confirm(
+            'This image was exported with its project saved inside. Reopen it as an editable project?\n\n' +
+              'Cancel uses it as a flat background image instead.'
+          )
+        ) {
+          openEmbeddedProject(project, file);
+          setIsUploading(false);
+          return;
+        }
+      }
+
       // Create FileReader with error handling
       const reader = new FileReader();
       
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { useExportPresetStore } from '../../store/exportPresetSlice';
+import { ExportFitMode, ExportPreset } from '../../types/export';
+import {
+  BUILT_IN_EXPORT_PRESETS,
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FIT_MODES,
+  EXPORT_FORMATS,
+  downloadBlob,
+  encodeExportCanvas,
+  getPresetFileName,
+  renderPresetCanvas,
+} from '../../utils/export';
+import { createZip } from '../../utils/zip';
+import { useToast } from '../Toast/ToastContainer';
+import type { Canvas as FabricCanvas } from 'fabric/fabric-impl';
+
+interface PresetExportPanelProps {
+  canvas: FabricCanvas;
+  onClose: () => void;
+}
+
+// Largest side a custom preset may have
+const MAX_PRESET_SIZE = 8000;
+
+const EMPTY_PRESET: Omit<ExportPreset, 'id'> = {
+  name: '',
+  width: 1080,
+  height: 1080,
+  format: 'jpeg',
+  fit: 'crop',
+};
+
+const PresetExportPanel: React.FC<PresetExportPanelProps> = ({ canvas, onClose }) => {
+  const { customPresets, selectedPresetIds, addPreset, removePreset, togglePresetSelected } = useExportPresetStore();
+  const [matteColor, setMatteColor] = useState(DEFAULT_EXPORT_OPTIONS.matteColor);
+  const [draft, setDraft] = useState<Omit<ExportPreset, 'id'> | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const { showSuccess, showError } = useToast();
+
+  const presets = [...BUILT_IN_EXPORT_PRESETS, ...customPresets];
+  const selectedPresets = presets.filter(preset => selectedPresetIds.includes(preset.id));
+
+  const isDraftValid = draft !== null &&
+    draft.name.trim() !== '' &&
+    draft.width >= 1 && draft.width <= MAX_PRESET_SIZE &&
+    draft.height >= 1 && draft.height <= MAX_PRESET_SIZE;
+
+  const handleSavePreset = () => {
+    if (!draft || !isDraftValid) return;
+    addPreset({ ...draft, name: draft.name.trim() });
+    setDraft(null);
+  };
+
+  const handleExport = async () => {
+    if (selectedPresets.length === 0) return;
+
+    try {
+      setProgress({ done: 0, total: selectedPresets.length });
+      const usedNames = new Set<string>();
+      const entries = [];
+
+      for (const preset of selectedPresets) {
+        // Let the progress update paint between renders
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        const rendered = renderPresetCanvas(canvas, preset, matteColor);
+        const blob = await encodeExportCanvas(rendered, {
+          ...DEFAULT_EXPORT_OPTIONS,
+          format: preset.format,
+          matteColor,
+        });
+
+        // Presets may share a name and size
+        let name = getPresetFileName(preset);
+        for (let i = 2; usedNames.has(name); i++) {
+          name = getPresetFileName(preset).replace(/(\.\w+)$/, `-${i}$1`);
+        }
+        usedNames.add(name);
+
+        entries.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+        setProgress({ done: entries.length, total: selectedPresets.length });
+      }
+
+      downloadBlob(createZip(entries), `image-text-composition-${Date.now()}.zip`);
+      showSuccess('Export successful', `${entries.length} sizes have been downloaded as a ZIP file.`);
+      onClose();
+    } catch (error) {
+      console.error('Error exporting presets:', error);
+      showError(
+        'Export failed',
+        error instanceof Error ? error.message : 'An unexpected error occurred during export.'
+      );
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <>
+      {/* Presets */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">Sizes</label>
+        <div className="max-h-48 overflow-y-auto border rounded divide-y">
+          {presets.map((preset) => (
+            <label key={preset.id} className="flex items-center gap-2 px-2 py-1 text-sm">
+              <input
+                type="checkbox"
+                checked={selectedPresetIds.includes(preset.id)}
+                onChange={() => togglePresetSelected(preset.id)}
+              />
+              <span className="flex-1 truncate">{preset.name}</span>
+              <span className="text-xs text-gray-500">
+                {preset.width}×{preset.height} {EXPORT_FORMATS[preset.format].label} · {EXPORT_FIT_MODES[preset.fit]}
+              </span>
+              {customPresets.includes(preset) && (
+                <button
+                  onClick={(e) => {
+                    e.preventDefault();
+                    removePreset(preset.id);
+                  }}
+                  className="p-1 text-red-500 hover:text-red-700"
+                  title="Delete Preset"
+                >
+                  ×
+                </button>
+              )}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* New Preset */}
+      {draft ? (
+        <div className="mb-4 p-3 bg-gray-50 rounded border text-sm">
+          <input
+            type="text"
+            placeholder="Preset name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="w-full p-1 mb-2 border rounded"
+          />
+          <div className="flex items-center gap-2 mb-2">
+            <input
+              type="number"
+              min="1"
+              max={MAX_PRESET_SIZE}
+              value={draft.width}
+              onChange={(e) => setDraft({ ...draft, width: parseInt(e.target.value) || 0 })}
+              className="w-20 p-1 border rounded"
+            />
+            ×
+            <input
+              type="number"
+              min="1"
+              max={MAX_PRESET_SIZE}
+              value={draft.height}
+              onChange={(e) => setDraft({ ...draft, height: parseInt(e.target.value) || 0 })}
+              className="w-20 p-1 border rounded"
+            />
+            px
+          </div>
+          <div className="flex gap-2 mb-2">
+            <select
+              value={draft.format}
+              onChange={(e) => setDraft({ ...draft, format: e.target.value as ExportPreset['format'] })}
+              className="flex-1 p-1 border rounded"
+            >
+              {(['png', 'jpeg', 'webp'] as const).map((format) => (
+                <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+              ))}
+            </select>
+            <select
+              value={draft.fit}
+              onChange={(e) => setDraft({ ...draft, fit: e.target.value as ExportFitMode })}
+              className="flex-1 p-1 border rounded"
+            >
+              {(Object.keys(EXPORT_FIT_MODES) as ExportFitMode[]).map((fit) => (
+                <option key={fit} value={fit}>{EXPORT_FIT_MODES[fit]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200">
+              Cancel
+            </button>
+            <button
+              onClick={handleSavePreset}
+              disabled={!isDraftValid}
+              className="px-2 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:bg-gray-300"
+            >
+              Save Preset
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button onClick={() => setDraft(EMPTY_PRESET)} className="mb-4 text-blue-500 text-sm">
+          + New Preset
+        </button>
+      )}
+
+      {/* Letterbox Color */}
+      {selectedPresets.some(preset => preset.fit === 'letterbox' || preset.format === 'jpeg') && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-1">Letterbox & Matte Color</label>
+          <input
+            type="color"
+            value={matteColor}
+            onChange={(e) => setMatteColor(e.target.value)}
+            className="w-8 h-8 border rounded"
+          />
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200">
+          Cancel
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={selectedPresets.length === 0 || progress !== null}
+          className="px-3 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:bg-gray-300"
+        >
+          {progress
+            ? `Exporting ${progress.done}/${progress.total}...`
+            : `Download ${selectedPresets.length} as ZIP`}
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default PresetExportPanel;
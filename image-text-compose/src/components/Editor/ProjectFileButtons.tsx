@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useEditorStore } from '../../store/editorSlice';
+import { useFontStore } from '../../store/fontSlice';
+import { useHistoryStore } from '../../store/historySlice';
+import { downloadBlob } from '../../utils/export';
+import { createCustomFontFromFile, loadCustomFont } from '../../utils/fontUtils';
+import { createProjectBundle, PROJECT_FILE_EXTENSION, readProjectBundle } from '../../utils/projectBundle';
+import { useToast } from '../Toast/ToastContainer';
+
+const ProjectFileButtons: React.FC = () => {
+  const { backgroundImage, importState } = useEditorStore();
+  const { pushHistory } = useHistoryStore();
+  const [isBusy, setIsBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { showSuccess, showError, showWarning } = useToast();
+
+  const handleSave = async () => {
+    if (!useEditorStore.getState().backgroundImage || isBusy) return;
+
+    try {
+      setIsBusy(true);
+      const { customFonts } = useFontStore.getState();
+      const bundle = await createProjectBundle(useEditorStore.getState(), customFonts);
+      downloadBlob(bundle, `image-text-composition-${Date.now()}.${PROJECT_FILE_EXTENSION}`);
+      showSuccess('Project saved', 'Open the .itc file on any machine to keep editing.');
+    } catch (error) {
+      console.error('Error saving project:', error);
+      showError('Save failed', error instanceof Error ? error.message : 'The project could not be saved.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleOpen = async (file: File) => {
+    if (
+      useEditorStore.getState().backgroundImage &&
+      !window.confirm('Opening a project replaces the current composition. Continue?')
+    ) {
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+      const project = await readProjectBundle(file);
+
+      // Fonts load before the layers, so text is measured with them
+      const { addCustomFont, updateFontLoadStatus, removeCustomFont } = useFontStore.getState();
+      const failedFonts: string[] = [];
+      for (const { family, file: fontFile } of project.fonts) {
+        const font = { ...(await createCustomFontFromFile(fontFile)), name: family, family };
+        addCustomFont(font);
+        const result = await loadCustomFont(font);
+        if (result.success) {
+          updateFontLoadStatus(font.id, true);
+        } else {
+          removeCustomFont(font.id);
+          failedFonts.push(family);
+        }
+      }
+
+      importState(project.state);
+      pushHistory(`Opened ${file.name}`, useEditorStore.getState());
+
+      const missingFonts = [...project.missingFonts, ...failedFonts]
+        .filter(family => !useFontStore.getState().getFontByFamily(family)?.isLoaded);
+      if (missingFonts.length > 0) {
+        showWarning(
+          'Fonts missing',
+          `Upload ${missingFonts.join(', ')} to show the text as it was designed.`
+        );
+      }
+      if (project.problems.length > 0) {
+        showWarning(
+          'Project repaired',
+          `Damaged parts of ${file.name} were left out: ${project.problems[0]}`
+        );
+      }
+      showSuccess('Project opened', file.name);
+    } catch (error) {
+      console.error('Error opening project:', error);
+      showError('Open failed', error instanceof Error ? error.message : 'The project could not be opened.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again
+    e.target.value = '';
+    if (file) {
+      handleOpen(file);
+    }
+  };
+
+  // Save: Ctrl+S or Cmd+S, Open: Ctrl+O or Cmd+O (Ctrl+Shift+S is smart spacing)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.shiftKey) return;
+      if (e.key.toLowerCase() === 's') {
+        e.preventDefault();
+        handleSave();
+      } else if (e.key.toLowerCase() === 'o') {
+        e.preventDefault();
+        fileInputRef.current?.click();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isBusy}
+        className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded disabled:text-gray-400"
+        title="Open Project (Ctrl+O)"
+      >
+        Open
+      </button>
+      <button
+        onClick={handleSave}
+        disabled={!backgroundImage || isBusy}
+        className={`px-3 py-1 rounded ${
+          backgroundImage && !isBusy
+            ? 'bg-gray-100 hover:bg-gray-200'
+            : 'bg-gray-50 text-gray-400 cursor-not-allowed'
+        }`}
+        title="Save Project as a .itc file with its images and fonts (Ctrl+S)"
+      >
+        Save
+      </button>
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        accept={`.${PROJECT_FILE_EXTENSION}`}
+        className="hidden"
+      />
+    </>
+  );
+};
+
+export default ProjectFileButtons;
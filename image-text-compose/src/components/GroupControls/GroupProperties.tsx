@@ -0,0 +1,99 @@
+import React from 'react';
+import { useEditorStore } from '@/store/editorSlice';
+import { useHistoryStore } from '@/store/historySlice';
+import { LayerGroup } from '@/types/canvas';
+import { getSelectedGroup } from '@/utils/groups';
+import { debounce } from 'lodash';
+
+type EditableGroupProperties = Omit<LayerGroup, 'id' | 'layerIds'>;
+
+const GroupProperties: React.FC = () => {
+  const { groups, selectedLayerIds, updateGroup, ungroupLayers } = useEditorStore();
+  const { pushHistory } = useHistoryStore();
+
+  // Create debounced version of handleChange to avoid too many history entries
+  const debouncedPushHistory = debounce((message: string) => {
+    pushHistory(message, useEditorStore.getState());
+  }, 500);
+
+  const selectedGroup = getSelectedGroup(groups, selectedLayerIds);
+
+  if (!selectedGroup) {
+    return (
+      <div className="p-4 text-center text-gray-500">
+        No group selected
+      </div>
+    );
+  }
+
+  const handleChange = <K extends keyof EditableGroupProperties>(
+    property: K,
+    value: EditableGroupProperties[K]
+  ) => {
+    updateGroup(selectedGroup.id, { [property]: value });
+    debouncedPushHistory(`Updated group ${property}`);
+  };
+
+  const handleUngroup = () => {
+    ungroupLayers(selectedGroup.id);
+    pushHistory('Ungrouped layers', useEditorStore.getState());
+  };
+
+  return (
+    <div className="p-4 border rounded-md">
+      <h3 className="text-lg font-medium mb-4">Group Properties</h3>
+
+      {/* Name */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">Name</label>
+        <input
+          type="text"
+          value={selectedGroup.name}
+          onChange={(e) => handleChange('name', e.target.value)}
+          className="w-full p-2 border rounded"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          {selectedGroup.layerIds.length} layers. Drag, rotate or scale the group on the canvas.
+        </p>
+      </div>
+
+      {/* Opacity */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">
+          Opacity: {Math.round(selectedGroup.opacity * 100)}%
+        </label>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.01"
+          value={selectedGroup.opacity}
+          onChange={(e) => handleChange('opacity', parseFloat(e.target.value))}
+          className="w-full"
+        />
+      </div>
+
+      {/* Lock Group */}
+      <div className="mb-4">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={selectedGroup.locked || false}
+            onChange={(e) => handleChange('locked', e.target.checked)}
+            className="mr-2"
+          />
+          <span>Lock Group</span>
+        </label>
+      </div>
+
+      <button
+        onClick={handleUngroup}
+        className="w-full px-3 py-2 bg-gray-100 border rounded hover:bg-gray-200"
+      >
+        Ungroup
+      </button>
+    </div>
+  );
+};
+
+export default GroupProperties;
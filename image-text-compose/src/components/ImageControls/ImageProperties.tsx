@@ -0,0 +1,129 @@
+import React from 'react';
+import { useEditorStore } from '@/store/editorSlice';
+import { useHistoryStore } from '@/store/historySlice';
+import { ImageLayerProperties } from '@/types/canvas';
+import { debounce } from 'lodash';
+
+const ImageProperties: React.FC = () => {
+  const { imageLayers, selectedLayerIds, updateImageLayer } = useEditorStore();
+  const { pushHistory } = useHistoryStore();
+
+  // Create debounced version of handleChange to avoid too many history entries
+  const debouncedPushHistory = debounce((message: string) => {
+    pushHistory(message, useEditorStore.getState());
+  }, 500);
+
+  // Get the selected layer (for now, just support single selection)
+  const selectedLayer = imageLayers.find(layer =>
+    selectedLayerIds.length > 0 && layer.id === selectedLayerIds[0]
+  );
+
+  if (!selectedLayer) {
+    return (
+      <div className="p-4 text-center text-gray-500">
+        No image layer selected
+      </div>
+    );
+  }
+
+  const handleChange = <K extends keyof ImageLayerProperties>(
+    property: K,
+    value: ImageLayerProperties[K]
+  ) => {
+    updateImageLayer(selectedLayer.id, { [property]: value });
+    debouncedPushHistory(`Updated image ${property}`);
+  };
+
+  // Scale is shown as a single percentage; non-uniform scaling is done on the canvas
+  const scalePercent = Math.round(selectedLayer.scaleX * 100);
+
+  const handleScaleChange = (percent: number) => {
+    const ratio = selectedLayer.scaleY / (selectedLayer.scaleX || 1);
+    updateImageLayer(selectedLayer.id, {
+      scaleX: percent / 100,
+      scaleY: (percent / 100) * ratio,
+    });
+    debouncedPushHistory('Updated image scale');
+  };
+
+  return (
+    <div className="p-4 border rounded-md">
+      <h3 className="text-lg font-medium mb-4">Image Properties</h3>
+
+      {/* Name */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">Name</label>
+        <input
+          type="text"
+          value={selectedLayer.name}
+          onChange={(e) => handleChange('name', e.target.value)}
+          className="w-full p-2 border rounded"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Original size: {selectedLayer.naturalWidth}x{selectedLayer.naturalHeight}px
+        </p>
+      </div>
+
+      {/* Scale */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">
+          Scale: {scalePercent}%
+        </label>
+        <input
+          type="range"
+          min="1"
+          max="300"
+          value={scalePercent}
+          onChange={(e) => handleScaleChange(parseInt(e.target.value))}
+          className="w-full"
+        />
+      </div>
+
+      {/* Rotation */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">
+          Rotation: {Math.round(selectedLayer.angle)}°
+        </label>
+        <input
+          type="range"
+          min="0"
+          max="360"
+          value={selectedLayer.angle}
+          onChange={(e) => handleChange('angle', parseInt(e.target.value))}
+          className="w-full"
+        />
+      </div>
+
+      {/* Opacity */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">
+          Opacity: {Math.round(selectedLayer.opacity * 100)}%
+        </label>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.01"
+          value={selectedLayer.opacity}
+          onChange={(e) => handleChange('opacity', parseFloat(e.target.value))}
+          className="w-full"
+        />
+      </div>
+
+      {/* Lock Layer */}
+      <div className="mb-4">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={selectedLayer.locked || false}
+            onChange={(e) => handleChange('locked', e.target.checked)}
+            className="mr-2"
+          />
+          <span>Lock Layer</span>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ImageProperties;
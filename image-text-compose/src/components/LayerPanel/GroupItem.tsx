@@ -0,0 +1,129 @@
+import React from 'react';
+import { useEditorStore } from '@/store/editorSlice';
+import { LayerGroup } from '@/types/canvas';
+
+interface GroupItemProps {
+  group: LayerGroup;
+  isSelected: boolean;
+  onToggleCollapse: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onMoveToTop: () => void;
+  onMoveToBottom: () => void;
+  onToggleLock: () => void;
+  onUngroup: () => void;
+  onDelete: () => void;
+}
+
+const GroupItem: React.FC<GroupItemProps> = ({
+  group,
+  isSelected,
+  onToggleCollapse,
+  onMoveUp,
+  onMoveDown,
+  onMoveToTop,
+  onMoveToBottom,
+  onToggleLock,
+  onUngroup,
+  onDelete,
+}) => {
+  const { selectMultipleLayers } = useEditorStore();
+
+  // Selecting a group row selects all of its members together
+  const handleClick = () => {
+    selectMultipleLayers(group.layerIds);
+  };
+
+  const actionButtons: { label: string; title: string; onClick: () => void; className?: string }[] = [
+    { label: '⤒', title: 'Move Group to Top', onClick: onMoveToTop },
+    { label: '↑', title: 'Move Group Up', onClick: onMoveUp },
+    { label: '↓', title: 'Move Group Down', onClick: onMoveDown },
+    { label: '⤓', title: 'Move Group to Bottom', onClick: onMoveToBottom },
+  ];
+
+  return (
+    <li
+      className={`border-b p-3 flex items-center cursor-pointer transition-colors ${
+        isSelected ? 'bg-blue-50 border-l-4 border-blue-500' : 'bg-gray-50 hover:bg-gray-100'
+      }`}
+      onClick={handleClick}
+    >
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggleCollapse();
+        }}
+        className="p-1 mr-1 text-gray-500 hover:text-gray-700"
+        title={group.collapsed ? 'Expand Group' : 'Collapse Group'}
+      >
+        {group.collapsed ? '▸' : '▾'}
+      </button>
+
+      <div className="flex-1 min-w-0">
+        <div className="font-medium truncate pr-2" title={group.name}>
+          {group.name}
+        </div>
+        <div className="text-xs text-gray-500 truncate pr-2">
+          Group, {group.layerIds.length} layers
+          {group.opacity < 1 && `, ${Math.round(group.opacity * 100)}%`}
+          {group.locked && ' (Locked)'}
+        </div>
+      </div>
+
+      <div className="flex space-x-1">
+        {/* Group ordering buttons */}
+        {actionButtons.map((button) => (
+          <button
+            key={button.title}
+            onClick={(e) => {
+              e.stopPropagation();
+              button.onClick();
+            }}
+            className="p-1 text-gray-500 hover:text-gray-700"
+            title={button.title}
+          >
+            {button.label}
+          </button>
+        ))}
+
+        {/* Lock/Unlock button */}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleLock();
+          }}
+          className={`p-1 ${group.locked ? 'text-blue-500 hover:text-blue-700' : 'text-gray-500 hover:text-gray-700'}`}
+          title={group.locked ? 'Unlock Group' : 'Lock Group'}
+        >
+          {group.locked ? '🔒' : '🔓'}
+        </button>
+
+        {/* Ungroup button */}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onUngroup();
+          }}
+          className="p-1 text-gray-500 hover:text-gray-700"
+          title="Ungroup"
+        >
+          ⊟
+        </button>
+
+        {/* Delete button */}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onDelete();
+          }}
+          className="p-1 text-red-500 hover:text-red-700"
+          title="Delete Group and Its Layers"
+        >
+          ×
+        </button>
+      </div>
+    </li>
+  );
+};
+
+export default GroupItem;
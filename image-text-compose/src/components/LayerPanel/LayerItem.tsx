@@ -1,10 +1,12 @@
 import React from 'react';
 import { useEditorStore } from '@/store/editorSlice';
-import { TextLayerProperties } from '@/types/canvas';
+import { LayerEntry } from '@/types/canvas';
+import { SHAPE_TYPE_LABELS, isStrokeOnlyShape } from '@/utils/shapeLayers';
 
 interface LayerItemProps {
-  layer: TextLayerProperties;
+  entry: LayerEntry;
   isSelected: boolean;
+  isGrouped?: boolean;
   onDelete: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
@@ -15,8 +17,9 @@ interface LayerItemProps {
 }
 
 const LayerItem: React.FC<LayerItemProps> = ({
-  layer,
+  entry,
   isSelected,
+  isGrouped = false,
   onDelete,
   onMoveUp,
   onMoveDown,
@@ -26,6 +29,7 @@ const LayerItem: React.FC<LayerItemProps> = ({
   onToggleLock,
 }) => {
   const { selectLayer, selectMultipleLayers, selectedLayerIds } = useEditorStore();
+  const { layer } = entry;
   
   const handleClick = (e: React.MouseEvent) => {
     if (e.ctrlKey || e.metaKey) {
@@ -40,15 +44,15 @@ const LayerItem: React.FC<LayerItemProps> = ({
       }
     } else if (e.shiftKey && selectedLayerIds.length > 0) {
       // Shift+click- Select range from last selected to this layer
-      const { textLayers } = useEditorStore.getState();
+      const { layerOrder } = useEditorStore.getState();
       const lastSelectedId = selectedLayerIds[selectedLayerIds.length - 1];
-      const lastSelectedIndex = textLayers.findIndex(l => l.id === lastSelectedId);
-      const currentIndex = textLayers.findIndex(l => l.id === layer.id);
+      const lastSelectedIndex = layerOrder.indexOf(lastSelectedId);
+      const currentIndex = layerOrder.indexOf(layer.id);
       
       const startIndex = Math.min(lastSelectedIndex, currentIndex);
       const endIndex = Math.max(lastSelectedIndex, currentIndex);
       
-      const rangeIds = textLayers.slice(startIndex, endIndex + 1).map(l => l.id);
+      const rangeIds = layerOrder.slice(startIndex, endIndex + 1);
       selectMultipleLayers(rangeIds);
     } else {
       // Normal click: Select only this layer
@@ -56,25 +60,68 @@ const LayerItem: React.FC<LayerItemProps> = ({
     }
   };
   
-  const displayText = layer.text || 'Empty Text';
-  const isTextTruncated = layer.text && layer.text.length > 25;
+  const getDisplayText = (): string => {
+    switch (entry.kind) {
+      case 'text':
+        return entry.layer.text || 'Empty Text';
+      case 'image':
+        return entry.layer.name || 'Image';
+      case 'shape':
+        return SHAPE_TYPE_LABELS[entry.layer.shapeType];
+    }
+  };
+  
+  const getDetailText = (): string => {
+    switch (entry.kind) {
+      case 'text':
+        return `${entry.layer.fontFamily}, ${entry.layer.fontSize}px`;
+      case 'image':
+        return `Image, ${entry.layer.naturalWidth}x${entry.layer.naturalHeight}`;
+      case 'shape':
+        return `Shape, ${Math.round(entry.layer.width * entry.layer.scaleX)}x${Math.round(entry.layer.height * entry.layer.scaleY)}`;
+    }
+  };
+  
+  const displayText = getDisplayText();
+  const isTextTruncated = displayText.length > 25;
   
   return (
     <li
       className={`border-b p-3 flex items-center cursor-pointer transition-colors ${
         isSelected ? 'bg-blue-50 border-l-4 border-blue-500' : 'hover:bg-gray-50'
-      }`}
+      } ${isGrouped ? 'pl-8' : ''}`}
       onClick={handleClick}
     >
+      {entry.kind === 'image' && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={entry.layer.src}
+          alt=""
+          className="w-8 h-8 mr-2 object-contain border rounded bg-gray-100 flex-shrink-0"
+        />
+      )}
+      
+      {entry.kind === 'shape' && (
+        <div
+          className="w-8 h-8 mr-2 border rounded flex-shrink-0"
+          style={{
+            backgroundColor: isStrokeOnlyShape(entry.layer.shapeType)
+              ? entry.layer.stroke
+              : entry.layer.fill,
+            borderRadius: entry.layer.shapeType === 'ellipse' ? '50%' : undefined,
+          }}
+        />
+      )}
+      
       <div className="flex-1 min-w-0"> {/* min-w-0 allows text truncation */}
         <div 
           className="font-medium truncate pr-2" 
-          title={isTextTruncated ? layer.text : undefined}
+          title={isTextTruncated ? displayText : undefined}
         >
           {displayText}
         </div>
         <div className="text-xs text-gray-500 truncate pr-2">
-          {layer.fontFamily}, {layer.fontSize}px
+          {getDetailText()}
           {layer.locked && ' (Locked)'}
         </div>
       </div>
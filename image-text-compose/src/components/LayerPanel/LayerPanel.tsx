@@ -1,22 +1,47 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { useEditorStore } from '@/store/editorSlice';
 import { useHistoryStore } from '@/store/historySlice';
+import { useImageLayerUpload } from '@/hooks/useImageLayerUpload';
+import { ShapeType } from '@/types/canvas';
+import { SHAPE_TYPE_DEFAULTS, SHAPE_TYPE_LABELS } from '@/utils/shapeLayers';
+import { findLayerEntry, getOrderedLayers } from '@/utils/layers';
+import { getLayerOrderUnits, getSelectedGroup, LayerOrderDirection } from '@/utils/groups';
 import LayerItem from './LayerItem';
+import GroupItem from './GroupItem';
 
 const LayerPanel: React.FC = () => {
   const { 
     textLayers, 
+    imageLayers,
+    shapeLayers,
+    groups,
+    layerOrder,
     selectedLayerIds, 
     addTextLayer, 
+    addImageLayer,
+    addShapeLayer,
     deleteTextLayer,
+    deleteImageLayer,
+    deleteShapeLayer,
     moveLayerUp,
     moveLayerDown,
     moveLayerToTop,
     moveLayerToBottom,
-    toggleLayerLock
+    toggleLayerLock,
+    groupLayers,
+    ungroupLayers,
+    updateGroup,
+    deleteGroup,
   } = useEditorStore();
   
   const { pushHistory } = useHistoryStore();
+  const { isAddingImage, addImagesFromFiles } = useImageLayerUpload();
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  
+  const orderedLayers = getOrderedLayers({ textLayers, imageLayers, shapeLayers, layerOrder });
+  const orderUnits = getLayerOrderUnits(layerOrder, groups);
+  const selectedGroup = getSelectedGroup(groups, selectedLayerIds);
+  const canGroup = selectedLayerIds.length > 1 && !selectedGroup;
   
   const handleAddLayer = () => {
     addTextLayer({
@@ -31,16 +56,56 @@ const LayerPanel: React.FC = () => {
     );
   };
   
+  const handleAddShape = (shapeType: ShapeType) => {
+    const { canvasDimensions } = useEditorStore.getState();
+    const defaults = SHAPE_TYPE_DEFAULTS[shapeType];
+    
+    // Drop the new shape in the middle of the canvas
+    addShapeLayer({
+      ...defaults,
+      shapeType,
+      left: (canvasDimensions.width - (defaults.width || 0)) / 2,
+      top: (canvasDimensions.height - (defaults.height || 0)) / 2,
+    });
+    
+    pushHistory(
+      `Added ${SHAPE_TYPE_LABELS[shapeType].toLowerCase()}`,
+      useEditorStore.getState()
+    );
+  };
+  
+  const handleImageFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      addImagesFromFiles(files);
+    }
+    // Reset input
+    e.target.value = '';
+  };
+  
   const handleDeleteLayer = (id: string) => {
-    deleteTextLayer(id);
+    const entry = findLayerEntry(useEditorStore.getState(), id);
+    if (!entry) return;
+    
+    switch (entry.kind) {
+      case 'text':
+        deleteTextLayer(id);
+        break;
+      case 'image':
+        deleteImageLayer(id);
+        break;
+      case 'shape':
+        deleteShapeLayer(id);
+        break;
+    }
     
     pushHistory(
-      'Deleted text layer',
+      `Deleted ${entry.kind} layer`,
       useEditorStore.getState()
     );
   };
   
-  const handleMoveLayer = (id: string, direction: 'up' | 'down' | 'top' | 'bottom') => {
+  const handleMoveLayer = (id: string, direction: LayerOrderDirection) => {
     switch (direction) {
       case 'up':
         moveLayerUp(id);
@@ -62,22 +127,81 @@ const LayerPanel: React.FC = () => {
     );
   };
   
+  const handleGroupSelected = () => {
+    if (!canGroup) return;
+    
+    const groupId = groupLayers(selectedLayerIds);
+    if (!groupId) return;
+    
+    pushHistory(
+      'Grouped layers',
+      useEditorStore.getState()
+    );
+  };
+  
+  const handleUngroup = (groupId: string) => {
+    ungroupLayers(groupId);
+    
+    pushHistory(
+      'Ungrouped layers',
+      useEditorStore.getState()
+    );
+  };
+  
+  const handleDeleteGroup = (groupId: string) => {
+    deleteGroup(groupId);
+    
+    pushHistory(
+      'Deleted group',
+      useEditorStore.getState()
+    );
+  };
+  
+  const handleToggleGroupLock = (groupId: string) => {
+    const group = groups.find(g => g.id === groupId);
+    if (!group) return;
+    
+    updateGroup(groupId, { locked: !group.locked });
+    
+    pushHistory(
+      group.locked ? 'Unlocked group' : 'Locked group',
+      useEditorStore.getState()
+    );
+  };
+  
   const handleDuplicateLayer = (id: string) => {
-    const layerToDuplicate = textLayers.find(layer => layer.id === id);
-    if (!layerToDuplicate) return;
+    const entry = findLayerEntry(useEditorStore.getState(), id);
+    if (!entry) return;
     
     // Create a duplicate with slightly offset position
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { id: _id, ...layerWithoutId } = layerToDuplicate;
-    
-    addTextLayer({
-      ...layerWithoutId,
-      left: layerToDuplicate.left + 20,
-      top: layerToDuplicate.top + 20,
-    });
+    if (entry.kind === 'text') {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { id: _id, ...layerWithoutId } = entry.layer;
+      addTextLayer({
+        ...layerWithoutId,
+        left: entry.layer.left + 20,
+        top: entry.layer.top + 20,
+      });
+    } else if (entry.kind === 'image') {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { id: _id, ...layerWithoutId } = entry.layer;
+      addImageLayer({
+        ...layerWithoutId,
+        left: entry.layer.left + 20,
+        top: entry.layer.top + 20,
+      });
+    } else {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { id: _id, ...layerWithoutId } = entry.layer;
+      addShapeLayer({
+        ...layerWithoutId,
+        left: entry.layer.left + 20,
+        top: entry.layer.top + 20,
+      });
+    }
     
     pushHistory(
-      'Duplicated text layer',
+      `Duplicated ${entry.kind} layer`,
       useEditorStore.getState()
     );
   };
@@ -86,8 +210,11 @@ const LayerPanel: React.FC = () => {
     toggleLayerLock(id);
     
     // Get the current state of the layer to determine the action description
-    const layer = useEditorStore.getState().textLayers.find(l => l.id === id);
-    const actionDescription = layer?.locked ? 'Locked text layer' : 'Unlocked text layer';
+    const entry = findLayerEntry(useEditorStore.getState(), id);
+    if (!entry) return;
+    const actionDescription = entry.layer.locked
+      ? `Locked ${entry.kind} layer`
+      : `Unlocked ${entry.kind} layer`;
     
     pushHistory(
       actionDescription,
@@ -99,36 +226,124 @@ const LayerPanel: React.FC = () => {
     <div className="border rounded-md overflow-hidden">
       <div className="bg-gray-100 p-3 flex justify-between items-center">
         <h3 className="font-medium">Layers</h3>
-        <button
-          onClick={handleAddLayer}
-          className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
-        >
-          Add Text
-        </button>
+        <div className="flex space-x-1">
+          <button
+            onClick={handleAddLayer}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+          >
+            Add Text
+          </button>
+          <button
+            onClick={() => imageInputRef.current?.click()}
+            disabled={isAddingImage}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            title="Add a logo, sticker or cut-out above the background"
+          >
+            {isAddingImage ? 'Adding...' : 'Add Image'}
+          </button>
+          <input
+            type="file"
+            ref={imageInputRef}
+            onChange={handleImageFileChange}
+            accept="image/png,image/jpeg,image/webp,image/svg+xml"
+            className="hidden"
+            multiple
+          />
+        </div>
       </div>
       
+      <div className="bg-gray-50 px-3 py-2 border-t flex items-center space-x-1 text-sm">
+        <span className="text-gray-500 mr-1">Shapes:</span>
+        {(Object.keys(SHAPE_TYPE_LABELS) as ShapeType[]).map((shapeType) => (
+          <button
+            key={shapeType}
+            onClick={() => handleAddShape(shapeType)}
+            className="px-2 py-0.5 bg-white border rounded hover:bg-gray-100"
+            title={`Add ${SHAPE_TYPE_LABELS[shapeType].toLowerCase()}`}
+          >
+            {SHAPE_TYPE_LABELS[shapeType]}
+          </button>
+        ))}
+      </div>
+      
+      {(canGroup || selectedGroup) && (
+        <div className="bg-blue-50 px-3 py-2 border-t flex items-center justify-between text-sm">
+          <span className="text-blue-700">
+            {selectedGroup ? selectedGroup.name : `${selectedLayerIds.length} layers selected`}
+          </span>
+          {selectedGroup ? (
+            <button
+              onClick={() => handleUngroup(selectedGroup.id)}
+              className="px-2 py-0.5 bg-white border rounded hover:bg-gray-100"
+              title="Ungroup (Ctrl+Shift+G)"
+            >
+              Ungroup
+            </button>
+          ) : (
+            <button
+              onClick={handleGroupSelected}
+              className="px-2 py-0.5 bg-white border rounded hover:bg-gray-100"
+              title="Group (Ctrl+G)"
+            >
+              Group
+            </button>
+          )}
+        </div>
+      )}
+      
       <div className="max-h-80 overflow-y-auto">
-        {textLayers.length === 0 ? (
+        {orderedLayers.length === 0 ? (
           <div className="p-4 text-center text-gray-500">
-            No text layers yet
+            No layers yet
           </div>
         ) : (
           <ul>
             {/* Render layers in reverse order so top layers appear first */}
-            {[...textLayers].reverse().map((layer) => (
-              <LayerItem
-                key={layer.id}
-                layer={layer}
-                isSelected={selectedLayerIds.includes(layer.id)}
-                onDelete={() => handleDeleteLayer(layer.id)}
-                onMoveUp={() => handleMoveLayer(layer.id, 'up')}
-                onMoveDown={() => handleMoveLayer(layer.id, 'down')}
-                onMoveToTop={() => handleMoveLayer(layer.id, 'top')}
-                onMoveToBottom={() => handleMoveLayer(layer.id, 'bottom')}
-                onDuplicate={() => handleDuplicateLayer(layer.id)}
-                onToggleLock={() => handleToggleLock(layer.id)}
-              />
-            ))}
+            {[...orderUnits].reverse().map((unit) => {
+              const group = unit.groupId ? groups.find(g => g.id === unit.groupId) : null;
+              const unitLayers = [...unit.ids]
+                .reverse()
+                .map(id => orderedLayers.find(entry => entry.layer.id === id))
+                .filter((entry): entry is NonNullable<typeof entry> => !!entry);
+              
+              const layerItems = unitLayers.map((entry) => (
+                <LayerItem
+                  key={entry.layer.id}
+                  entry={entry}
+                  isSelected={selectedLayerIds.includes(entry.layer.id)}
+                  isGrouped={!!group}
+                  onDelete={() => handleDeleteLayer(entry.layer.id)}
+                  onMoveUp={() => handleMoveLayer(entry.layer.id, 'up')}
+                  onMoveDown={() => handleMoveLayer(entry.layer.id, 'down')}
+                  onMoveToTop={() => handleMoveLayer(entry.layer.id, 'top')}
+                  onMoveToBottom={() => handleMoveLayer(entry.layer.id, 'bottom')}
+                  onDuplicate={() => handleDuplicateLayer(entry.layer.id)}
+                  onToggleLock={() => handleToggleLock(entry.layer.id)}
+                />
+              ));
+              
+              if (!group) {
+                return layerItems;
+              }
+              
+              return (
+                <React.Fragment key={group.id}>
+                  <GroupItem
+                    group={group}
+                    isSelected={selectedGroup?.id === group.id}
+                    onToggleCollapse={() => updateGroup(group.id, { collapsed: !group.collapsed })}
+                    onMoveUp={() => handleMoveLayer(group.id, 'up')}
+                    onMoveDown={() => handleMoveLayer(group.id, 'down')}
+                    onMoveToTop={() => handleMoveLayer(group.id, 'top')}
+                    onMoveToBottom={() => handleMoveLayer(group.id, 'bottom')}
+                    onToggleLock={() => handleToggleGroupLock(group.id)}
+                    onUngroup={() => handleUngroup(group.id)}
+                    onDelete={() => handleDeleteGroup(group.id)}
+                  />
+                  {!group.collapsed && layerItems}
+                </React.Fragment>
+              );
+            })}
           </ul>
         )}
       </div>
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { useProjectStore } from '@/store/projectSlice';
+import { ProjectSummary } from '@/types/project';
+import { formatTimeAgo, searchProjects } from '@/utils/projects';
+import { useToast } from '@/components/Toast/ToastContainer';
+
+const ProjectLibrary: React.FC = () => {
+  const { projects, createProject, renameProject, duplicateProject, deleteProject, openProject } = useProjectStore();
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  // The library loads from IndexedDB after the first render
+  const [hasHydrated, setHasHydrated] = useState(() => useProjectStore.persist.hasHydrated());
+  const { showError } = useToast();
+
+  useEffect(() => {
+    if (hasHydrated) return;
+    return useProjectStore.persist.onFinishHydration(() => setHasHydrated(true));
+  }, [hasHydrated]);
+
+  // Most recently edited first
+  const results = searchProjects(projects, query);
+
+  const handleOpen = (projectId: string) => {
+    openProject(projectId).catch(error => {
+      console.error('Error opening project:', error);
+      showError('Open failed', 'The project could not be opened.');
+    });
+  };
+
+  const handleCreate = () => {
+    handleOpen(createProject());
+  };
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const finishRename = () => {
+    if (renamingId) {
+      renameProject(renamingId, draftName);
+    }
+    setRenamingId(null);
+  };
+
+  const handleDuplicate = async (projectId: string) => {
+    try {
+      await duplicateProject(projectId);
+    } catch (error) {
+      console.error('Error duplicating project:', error);
+      showError('Duplicate failed', 'The project could not be copied.');
+    }
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (!window.confirm(`Delete "${project.name}"? Its autosave and history are removed and can't be recovered.`)) {
+      return;
+    }
+    deleteProject(project.id).catch(error => console.error('Error deleting project:', error));
+  };
+
+  const renderProject = (project: ProjectSummary) => (
+    <div key={project.id} className="bg-white rounded-md shadow-sm overflow-hidden">
+      <button
+        onClick={() => handleOpen(project.id)}
+        className="block w-full aspect-video bg-gray-100 hover:opacity-90"
+        title={`Open ${project.name}`}
+      >
+        {project.thumbnail ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={project.thumbnail} alt="" className="w-full h-full object-contain" />
+        ) : (
+          <span className="text-sm text-gray-400">No image yet</span>
+        )}
+      </button>
+      <div className="p-2">
+        {renamingId === project.id ? (
+          <input
+            type="text"
+            value={draftName}
+            autoFocus
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={finishRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') finishRename();
+              if (e.key === 'Escape') setRenamingId(null);
+            }}
+            className="w-full p-1 text-sm border rounded"
+          />
+        ) : (
+          <div className="text-sm font-medium truncate" title={project.name}>{project.name}</div>
+        )}
+        <div className="flex items-center justify-between mt-1">
+          <span className="text-xs text-gray-500">Edited {formatTimeAgo(project.updatedAt)}</span>
+          <div className="flex gap-2 text-xs">
+            <button onClick={() => startRename(project)} className="text-blue-500">Rename</button>
+            <button onClick={() => handleDuplicate(project.id)} className="text-blue-500">Duplicate</button>
+            <button onClick={() => handleDelete(project)} className="text-red-500">Delete</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <input
+          type="search"
+          placeholder="Search projects"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="flex-1 max-w-sm p-2 border rounded"
+        />
+        <button
+          onClick={handleCreate}
+          className="px-3 py-2 rounded bg-blue-500 text-white hover:bg-blue-600"
+        >
+          + New Project
+        </button>
+      </div>
+
+      {!hasHydrated ? (
+        <div className="text-center py-8 text-gray-500">Loading projects...</div>
+      ) : projects.length === 0 ? (
+        <div className="text-center py-16 text-gray-500">
+          No projects yet. Create one to start composing.
+        </div>
+      ) : (
+        <section>
+          <h2 className="text-lg font-medium mb-3">
+            {query ? `Results for "${query}"` : 'Recent Projects'}
+          </h2>
+          {results.length === 0 ? (
+            <div className="text-sm text-gray-500">No projects match your search.</div>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {results.map(renderProject)}
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default ProjectLibrary;
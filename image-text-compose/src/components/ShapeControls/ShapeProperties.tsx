@@ -0,0 +1,203 @@
+import React from 'react';
+import { useEditorStore } from '@/store/editorSlice';
+import { useHistoryStore } from '@/store/historySlice';
+import { ShapeLayerProperties, ShapeType } from '@/types/canvas';
+import { SHAPE_TYPE_DEFAULTS, SHAPE_TYPE_LABELS, isStrokeOnlyShape } from '@/utils/shapeLayers';
+import { debounce } from 'lodash';
+
+const ShapeProperties: React.FC = () => {
+  const { shapeLayers, selectedLayerIds, updateShapeLayer } = useEditorStore();
+  const { pushHistory } = useHistoryStore();
+
+  // Create debounced version of handleChange to avoid too many history entries
+  const debouncedPushHistory = debounce((message: string) => {
+    pushHistory(message, useEditorStore.getState());
+  }, 500);
+
+  // Get the selected layer (for now, just support single selection)
+  const selectedLayer = shapeLayers.find(layer =>
+    selectedLayerIds.length > 0 && layer.id === selectedLayerIds[0]
+  );
+
+  if (!selectedLayer) {
+    return (
+      <div className="p-4 text-center text-gray-500">
+        No shape layer selected
+      </div>
+    );
+  }
+
+  const handleChange = <K extends keyof ShapeLayerProperties>(
+    property: K,
+    value: ShapeLayerProperties[K]
+  ) => {
+    updateShapeLayer(selectedLayer.id, { [property]: value });
+    debouncedPushHistory(`Updated shape ${property}`);
+  };
+
+  // Lines and arrows are invisible without a stroke, so give them one when switching
+  const handleShapeTypeChange = (shapeType: ShapeType) => {
+    const needsStroke = isStrokeOnlyShape(shapeType) && selectedLayer.strokeWidth === 0;
+    updateShapeLayer(selectedLayer.id, {
+      shapeType,
+      ...(needsStroke ? { strokeWidth: SHAPE_TYPE_DEFAULTS[shapeType].strokeWidth } : {}),
+    });
+    debouncedPushHistory('Changed shape type');
+  };
+
+  const strokeOnly = isStrokeOnlyShape(selectedLayer.shapeType);
+
+  // Color inputs only understand hex; rgba values keep their text field
+  const toColorInputValue = (color: string) => (color.startsWith('#') ? color : '#000000');
+
+  return (
+    <div className="p-4 border rounded-md">
+      <h3 className="text-lg font-medium mb-4">Shape Properties</h3>
+
+      {/* Shape Type */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">Shape</label>
+        <select
+          value={selectedLayer.shapeType}
+          onChange={(e) => handleShapeTypeChange(e.target.value as ShapeType)}
+          className="w-full p-2 border rounded"
+        >
+          {(Object.keys(SHAPE_TYPE_LABELS) as ShapeType[]).map((shapeType) => (
+            <option key={shapeType} value={shapeType}>
+              {SHAPE_TYPE_LABELS[shapeType]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Size */}
+      <div className="mb-4 grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-sm font-medium mb-1">Width</label>
+          <input
+            type="number"
+            min="1"
+            value={Math.round(selectedLayer.width)}
+            onChange={(e) => handleChange('width', Math.max(1, parseInt(e.target.value) || 1))}
+            className="w-full p-2 border rounded"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Height</label>
+          <input
+            type="number"
+            min="1"
+            value={Math.round(selectedLayer.height)}
+            onChange={(e) => handleChange('height', Math.max(1, parseInt(e.target.value) || 1))}
+            className="w-full p-2 border rounded"
+          />
+        </div>
+      </div>
+
+      {/* Fill */}
+      {!strokeOnly && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-1">Fill</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={toColorInputValue(selectedLayer.fill)}
+              onChange={(e) => handleChange('fill', e.target.value)}
+              className="w-10 h-10 border rounded flex-shrink-0"
+            />
+            <input
+              type="text"
+              value={selectedLayer.fill}
+              onChange={(e) => handleChange('fill', e.target.value)}
+              className="min-w-0 flex-1 p-2 border rounded text-sm"
+              placeholder="rgba(0,0,0,0.5)"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Stroke */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">Stroke</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="color"
+            value={toColorInputValue(selectedLayer.stroke)}
+            onChange={(e) => handleChange('stroke', e.target.value)}
+            className="w-10 h-10 border rounded flex-shrink-0"
+          />
+          <input
+            type="text"
+            value={selectedLayer.stroke}
+            onChange={(e) => handleChange('stroke', e.target.value)}
+            className="min-w-0 flex-1 p-2 border rounded text-sm"
+            placeholder="#000000"
+          />
+        </div>
+      </div>
+
+      {/* Stroke Width */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">
+          Stroke Width: {selectedLayer.strokeWidth}px
+        </label>
+        <input
+          type="range"
+          min={strokeOnly ? 1 : 0}
+          max="40"
+          value={selectedLayer.strokeWidth}
+          onChange={(e) => handleChange('strokeWidth', parseInt(e.target.value))}
+          className="w-full"
+        />
+      </div>
+
+      {/* Corner Radius */}
+      {selectedLayer.shapeType === 'rect' && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-1">
+            Corner Radius: {selectedLayer.cornerRadius}px
+          </label>
+          <input
+            type="range"
+            min="0"
+            max={Math.round(Math.min(selectedLayer.width, selectedLayer.height) / 2)}
+            value={selectedLayer.cornerRadius}
+            onChange={(e) => handleChange('cornerRadius', parseInt(e.target.value))}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      {/* Opacity */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">
+          Opacity: {Math.round(selectedLayer.opacity * 100)}%
+        </label>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.01"
+          value={selectedLayer.opacity}
+          onChange={(e) => handleChange('opacity', parseFloat(e.target.value))}
+          className="w-full"
+        />
+      </div>
+
+      {/* Lock Layer */}
+      <div className="mb-4">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={selectedLayer.locked || false}
+            onChange={(e) => handleChange('locked', e.target.checked)}
+            className="mr-2"
+          />
+          <span>Lock Layer</span>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ShapeProperties;
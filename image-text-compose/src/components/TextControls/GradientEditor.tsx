@@ -0,0 +1,122 @@
+import React from 'react';
+import { GradientStop, GradientType, TextGradient } from '@/types/canvas';
+import { gradientToCss } from '@/utils/gradients';
+
+interface GradientEditorProps {
+  gradient: TextGradient;
+  onChange: (gradient: TextGradient) => void;
+}
+
+const MAX_STOPS = 5;
+
+const GradientEditor: React.FC<GradientEditorProps> = ({ gradient, onChange }) => {
+  const gradientTypes: { value: GradientType; label: string }[] = [
+    { value: 'linear', label: 'Linear' },
+    { value: 'radial', label: 'Radial' },
+  ];
+
+  const updateStop = (index: number, changes: Partial<GradientStop>) => {
+    onChange({
+      ...gradient,
+      stops: gradient.stops.map((stop, i) => (i === index ? { ...stop, ...changes } : stop)),
+    });
+  };
+
+  // New stops go halfway between the last two so they are visible right away
+  const addStop = () => {
+    const last = gradient.stops[gradient.stops.length - 1];
+    const previous = gradient.stops[gradient.stops.length - 2] || last;
+    onChange({
+      ...gradient,
+      stops: [...gradient.stops, { offset: (last.offset + previous.offset) / 2, color: last.color }],
+    });
+  };
+
+  // A gradient needs at least two stops
+  const removeStop = (index: number) => {
+    if (gradient.stops.length <= 2) return;
+    onChange({ ...gradient, stops: gradient.stops.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="mt-2 p-3 bg-gray-50 rounded border">
+      {/* Preview */}
+      <div
+        className="h-6 mb-3 border rounded"
+        style={{ backgroundImage: gradientToCss(gradient) }}
+      />
+
+      {/* Gradient Type */}
+      <div className="mb-3 flex border rounded overflow-hidden">
+        {gradientTypes.map((option) => (
+          <button
+            key={option.value}
+            className={`flex-1 py-1 text-sm ${
+              gradient.type === option.value ? 'bg-blue-500 text-white' : 'bg-white'
+            }`}
+            onClick={() => onChange({ ...gradient, type: option.value })}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Angle */}
+      {gradient.type === 'linear' && (
+        <div className="mb-3">
+          <label className="block text-sm font-medium mb-1">
+            Angle: {gradient.angle}°
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="360"
+            value={gradient.angle}
+            onChange={(e) => onChange({ ...gradient, angle: parseInt(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      {/* Color Stops */}
+      <label className="block text-sm font-medium mb-1">Color Stops</label>
+      {gradient.stops.map((stop, index) => (
+        <div key={index} className="flex items-center gap-2 mb-2">
+          <input
+            type="color"
+            value={stop.color.startsWith('#') ? stop.color : '#000000'}
+            onChange={(e) => updateStop(index, { color: e.target.value })}
+            className="w-8 h-8 border rounded flex-shrink-0"
+          />
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.01"
+            value={stop.offset}
+            onChange={(e) => updateStop(index, { offset: parseFloat(e.target.value) })}
+            className="min-w-0 flex-1"
+          />
+          <span className="w-10 text-xs text-gray-500 text-right">
+            {Math.round(stop.offset * 100)}%
+          </span>
+          <button
+            onClick={() => removeStop(index)}
+            disabled={gradient.stops.length <= 2}
+            className="p-1 text-red-500 hover:text-red-700 disabled:text-gray-300"
+            title="Remove Stop"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      {gradient.stops.length < MAX_STOPS && (
+        <button onClick={addStop} className="text-blue-500 text-sm">
+          + Add Stop
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default GradientEditor;
@@ -1,13 +1,54 @@
 import React, { useState } from 'react';
 import { useEditorStore } from '@/store/editorSlice';
 import { useHistoryStore } from '@/store/historySlice';
-import { TextLayerProperties, TextShadow } from '@/types/canvas';
+import { useTextSelectionStore } from '@/store/textSelectionSlice';
+import {
+  TextAnimation,
+  TextAnimationDirection,
+  TextAnimationType,
+  TextBackground,
+  TextBackgroundMode,
+  TextFitMode,
+  TextFontFeatures,
+  TextFontStyle,
+  TextLayerProperties,
+  TextShadow,
+  TextSpanStyle,
+  TextPath,
+  TextPathType,
+  TextStroke,
+  TextStrokePosition,
+  TextTransform,
+  TextVerticalAlign
+} from '@/types/canvas';
+import { DEFAULT_GRADIENT } from '@/utils/gradients';
+import { DEFAULT_FONT_FEATURES, TEXT_TRANSFORM_LABELS } from '@/utils/textFeatures';
+import {
+  DEFAULT_TEXT_ANIMATION,
+  MAX_ANIMATION_DURATION,
+  MAX_ANIMATION_START,
+  TEXT_ANIMATION_DIRECTION_LABELS,
+  TEXT_ANIMATION_LABELS
+} from '@/utils/textAnimations';
+import { DEFAULT_TEXT_BACKGROUND, hasFixedHeight, isTextFitted } from '@/utils/textLayers';
+import { createTextPath, getTextPathLayerPosition, TEXT_PATH_LABELS } from '@/utils/textPaths';
+import {
+  adjustSpansForTextChange,
+  applySpanStyle,
+  clearSpanStyles,
+  getActiveSpanRange,
+  getSpanCharacters,
+  getSpanStyleAt,
+  toSpanOffset
+} from '@/utils/textSpans';
 import FontSelector from './FontSelector';
+import GradientEditor from './GradientEditor';
 import { debounce } from 'lodash';
 
 const TextProperties: React.FC = () => {
   const { textLayers, selectedLayerIds, updateTextLayer } = useEditorStore();
   const { pushHistory } = useHistoryStore();
+  const { range: textSelection, setRange: setTextSelection } = useTextSelectionStore();
   
   // State for shadow panel visibility
   const [showShadowPanel, setShowShadowPanel] = useState(false);
@@ -37,6 +78,58 @@ const TextProperties: React.FC = () => {
     debouncedPushHistory(`Updated ${property}`);
   };
   
+  // With characters selected, font and color controls style only those characters
+  const activeRange = getActiveSpanRange(textSelection, selectedLayer);
+  const rangeStyle = activeRange ? getSpanStyleAt(selectedLayer.spans, activeRange.start) : {};
+  
+  // Keep span styles on the same characters as the text is edited
+  const handleTextChange = (text: string) => {
+    updateTextLayer(selectedLayer.id, {
+      text,
+      spans: adjustSpansForTextChange(selectedLayer.spans, selectedLayer.text, text)
+    });
+    debouncedPushHistory('Updated text');
+  };
+  
+  const handleTextSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd, value } = e.currentTarget;
+    setTextSelection({
+      layerId: selectedLayer.id,
+      start: toSpanOffset(value, selectionStart),
+      end: toSpanOffset(value, selectionEnd)
+    });
+  };
+  
+  const applyRangeStyle = (style: TextSpanStyle, message: string) => {
+    if (!activeRange) return;
+    
+    updateTextLayer(selectedLayer.id, {
+      spans: applySpanStyle(selectedLayer.spans, selectedLayer.text, activeRange.start, activeRange.end, style)
+    });
+    debouncedPushHistory(message);
+  };
+  
+  // Font and color changes go to the selected characters, or the whole layer without a selection
+  const handleStyleChange = <K extends 'fontFamily' | 'fontSize' | 'fontWeight' | 'color'>(
+    property: K,
+    value: TextLayerProperties[K]
+  ) => {
+    if (activeRange) {
+      applyRangeStyle({ [property]: value }, `Styled selected text ${property}`);
+    } else {
+      handleChange(property, value);
+    }
+  };
+  
+  const clearRangeStyles = () => {
+    if (!activeRange) return;
+    
+    updateTextLayer(selectedLayer.id, {
+      spans: clearSpanStyles(selectedLayer.spans, selectedLayer.text, activeRange.start, activeRange.end)
+    });
+    pushHistory('Cleared selected text styles', useEditorStore.getState());
+  };
+  
   // Handle shadow property changes
   // TODO: Replace any with proper union type for TextShadow property values
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -57,6 +150,23 @@ const TextProperties: React.FC = () => {
     debouncedPushHistory(`Updated shadow ${shadowProperty}`);
   };
   
+  // Handle entrance animation changes
+  const handleAnimationChange = <K extends keyof TextAnimation>(property: K, value: TextAnimation[K]) => {
+    updateTextLayer(selectedLayer.id, {
+      animation: { ...(selectedLayer.animation || DEFAULT_TEXT_ANIMATION), [property]: value }
+    });
+    debouncedPushHistory(`Updated animation ${property}`);
+  };
+  
+  const handleAnimationTypeChange = (type: TextAnimationType | 'none') => {
+    if (type === 'none') {
+      updateTextLayer(selectedLayer.id, { animation: null });
+      debouncedPushHistory('Removed text animation');
+    } else {
+      handleAnimationChange('type', type);
+    }
+  };
+  
   // Toggle shadow on/off
   const toggleShadow = () => {
     if (selectedLayer.shadow) {
@@ -74,6 +184,83 @@ const TextProperties: React.FC = () => {
     debouncedPushHistory('Toggled text shadow');
   };
   
+  // Handle outline property changes
+  // TODO: Replace any with proper union type for TextStroke property values
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const handleStrokeChange = (strokeProperty: keyof TextStroke, value: any) => {
+    const currentStroke = selectedLayer.stroke || {
+      color: '#000000',
+      width: 2,
+      position: 'outside' as TextStrokePosition
+    };
+    
+    updateTextLayer(selectedLayer.id, {
+      stroke: {
+        ...currentStroke,
+        [strokeProperty]: value
+      }
+    });
+    debouncedPushHistory(`Updated outline ${strokeProperty}`);
+  };
+  
+  // Toggle outline on/off
+  const toggleStroke = () => {
+    if (selectedLayer.stroke) {
+      updateTextLayer(selectedLayer.id, { stroke: null });
+    } else {
+      updateTextLayer(selectedLayer.id, {
+        stroke: {
+          color: '#000000',
+          width: 2,
+          position: 'outside'
+        }
+      });
+    }
+    debouncedPushHistory('Toggled text outline');
+  };
+  
+  // Handle background box property changes
+  // TODO: Replace any with proper union type for TextBackground property values
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const handleBackgroundChange = (backgroundProperty: keyof TextBackground, value: any) => {
+    const currentBackground = selectedLayer.background || DEFAULT_TEXT_BACKGROUND;
+    
+    updateTextLayer(selectedLayer.id, {
+      background: {
+        ...currentBackground,
+        [backgroundProperty]: value
+      }
+    });
+    debouncedPushHistory(`Updated background ${backgroundProperty}`);
+  };
+  
+  // Toggle background box on/off
+  const toggleBackground = () => {
+    updateTextLayer(selectedLayer.id, {
+      background: selectedLayer.background ? null : DEFAULT_TEXT_BACKGROUND
+    });
+    debouncedPushHistory('Toggled text background');
+  };
+  
+  // Switch between a solid color and a gradient fill
+  const toggleGradient = (useGradient: boolean) => {
+    updateTextLayer(selectedLayer.id, {
+      gradient: useGradient ? DEFAULT_GRADIENT : null
+    });
+    debouncedPushHistory(useGradient ? 'Applied gradient fill' : 'Applied solid fill');
+  };
+  
+  const backgroundModeOptions: { value: TextBackgroundMode; label: string }[] = [
+    { value: 'block', label: 'Whole Block' },
+    { value: 'line', label: 'Per Line' },
+  ];
+  
+  const strokePositionOptions: { value: TextStrokePosition; label: string }[] = [
+    { value: 'outside', label: 'Outside' },
+    { value: 'center', label: 'Center' },
+    { value: 'inside', label: 'Inside' },
+  ];
+  
   const fontWeightOptions = [
     { value: 'normal', label: 'Normal' },
     { value: 'bold', label: 'Bold' },
@@ -88,10 +275,96 @@ const TextProperties: React.FC = () => {
     { value: '900', label: 'Black (900)' },
   ];
   
+  // Changing the curve moves the box around it, so keep the text where it was
+  const applyTextPath = (textPath: TextPath | null, message: string) => {
+    updateTextLayer(selectedLayer.id, {
+      textPath,
+      ...getTextPathLayerPosition(selectedLayer, textPath)
+    });
+    debouncedPushHistory(message);
+  };
+  
+  const handleTextPathTypeChange = (type: TextPathType | 'none') => {
+    const currentPath = selectedLayer.textPath;
+    if (type === 'none') {
+      applyTextPath(null, 'Removed text curve');
+    } else if (currentPath && currentPath.type !== 'bezier' && type !== 'bezier') {
+      // Arcs and circles share their radius and direction
+      applyTextPath({ ...currentPath, type }, 'Changed text curve');
+    } else {
+      applyTextPath(createTextPath(type, selectedLayer.width), 'Changed text curve');
+    }
+  };
+  
+  // A box that stops growing with its text starts from roughly the height the text takes now
+  const getStartingBoxHeight = () => {
+    const lineCount = selectedLayer.text.split('\n').length;
+    const textHeight = Math.ceil(selectedLayer.fontSize * (selectedLayer.lineHeight || 1.16) * lineCount);
+    return Math.max(selectedLayer.height, textHeight);
+  };
+  
+  // Fitting needs a fixed box height
+  const handleFitModeChange = (fitMode: TextFitMode) => {
+    updateTextLayer(selectedLayer.id, {
+      fitMode,
+      ...(fitMode !== 'none' && !hasFixedHeight(selectedLayer) ? { height: getStartingBoxHeight() } : {}),
+    });
+    debouncedPushHistory('Changed text fit');
+  };
+  
+  const handleFixedHeightChange = (fixedHeight: boolean) => {
+    updateTextLayer(selectedLayer.id, {
+      fixedHeight,
+      ...(fixedHeight && !hasFixedHeight(selectedLayer) ? { height: getStartingBoxHeight() } : {}),
+    });
+    debouncedPushHistory('Changed text box height');
+  };
+  
+  const fontFeatures = selectedLayer.fontFeatures || DEFAULT_FONT_FEATURES;
+  
+  const handleFontFeatureChange = (feature: keyof TextFontFeatures, enabled: boolean) => {
+    handleChange('fontFeatures', { ...fontFeatures, [feature]: enabled });
+  };
+  
+  const fontStyleOptions: { value: TextFontStyle; label: string }[] = [
+    { value: 'normal', label: 'Normal' },
+    { value: 'italic', label: 'Italic' },
+    { value: 'oblique', label: 'Oblique' },
+  ];
+  
+  const decorationOptions: { property: 'underline' | 'overline' | 'linethrough'; label: string; className: string }[] = [
+    { property: 'underline', label: 'Underline', className: 'underline' },
+    { property: 'overline', label: 'Overline', className: 'overline' },
+    { property: 'linethrough', label: 'Strikethrough', className: 'line-through' },
+  ];
+  
+  const fontFeatureOptions: { feature: keyof TextFontFeatures; label: string }[] = [
+    { feature: 'ligatures', label: 'Ligatures' },
+    { feature: 'smallCaps', label: 'Small Caps' },
+    { feature: 'tabularFigures', label: 'Tabular Figures' },
+  ];
+  
+  const fitted = isTextFitted(selectedLayer);
+  const fixedHeight = hasFixedHeight(selectedLayer);
+  
+  const fitOptions = [
+    { value: 'none', label: 'Off' },
+    { value: 'shrink', label: 'Shrink to Fit' },
+    { value: 'fill', label: 'Fill Box' },
+  ];
+  
   const alignmentOptions = [
     { value: 'left', label: 'Left' },
     { value: 'center', label: 'Center' },
     { value: 'right', label: 'Right' },
+    { value: 'justify', label: 'Justify' },
+    { value: 'justify-all', label: 'Justify All' },
+  ];
+  
+  const verticalAlignmentOptions: { value: TextVerticalAlign; label: string }[] = [
+    { value: 'top', label: 'Top' },
+    { value: 'middle', label: 'Middle' },
+    { value: 'bottom', label: 'Bottom' },
   ];
   
   return (
@@ -103,42 +376,140 @@ const TextProperties: React.FC = () => {
         <label className="block text-sm font-medium mb-1">Text</label>
         <textarea
           value={selectedLayer.text}
-          onChange={(e) => handleChange('text', e.target.value)}
+          onChange={(e) => handleTextChange(e.target.value)}
+          onSelect={handleTextSelect}
           className="w-full p-2 border rounded"
           rows={3}
         />
+        <p className="text-xs text-gray-500 mt-1">
+          Select characters here or on the canvas to style just those.
+        </p>
       </div>
       
+      {/* Selected Characters */}
+      {activeRange && (
+        <div className="mb-4 p-3 bg-blue-50 rounded border border-blue-200">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm text-blue-700 truncate pr-2">
+              Styling &ldquo;{getSpanCharacters(selectedLayer.text).slice(activeRange.start, activeRange.end).join('')}&rdquo;
+            </span>
+            <button
+              onClick={() => setTextSelection(null)}
+              className="text-blue-500 text-sm flex-shrink-0"
+            >
+              Whole Layer
+            </button>
+          </div>
+          <div className="flex gap-1">
+            <button
+              className={`px-3 py-1 border rounded font-bold ${
+                rangeStyle.fontWeight === 'bold' ? 'bg-blue-500 text-white' : 'bg-white'
+              }`}
+              onClick={() => applyRangeStyle(
+                { fontWeight: rangeStyle.fontWeight === 'bold' ? undefined : 'bold' },
+                'Toggled bold on selected text'
+              )}
+              title="Bold"
+            >
+              B
+            </button>
+            <button
+              className={`px-3 py-1 border rounded underline ${
+                rangeStyle.underline ? 'bg-blue-500 text-white' : 'bg-white'
+              }`}
+              onClick={() => applyRangeStyle(
+                { underline: rangeStyle.underline ? undefined : true },
+                'Toggled underline on selected text'
+              )}
+              title="Underline"
+            >
+              U
+            </button>
+            <button
+              className={`px-3 py-1 border rounded line-through ${
+                rangeStyle.linethrough ? 'bg-blue-500 text-white' : 'bg-white'
+              }`}
+              onClick={() => applyRangeStyle(
+                { linethrough: rangeStyle.linethrough ? undefined : true },
+                'Toggled strikethrough on selected text'
+              )}
+              title="Strikethrough"
+            >
+              S
+            </button>
+            <button
+              onClick={clearRangeStyles}
+              className="ml-auto px-2 py-1 text-sm text-gray-600 hover:text-gray-800"
+            >
+              Clear Styles
+            </button>
+          </div>
+        </div>
+      )}
+      
       {/* Font Family */}
       <div className="mb-4">
         <label className="block text-sm font-medium mb-1">Font Family</label>
         <FontSelector
-          value={selectedLayer.fontFamily}
-          onChange={(fontFamily) => handleChange('fontFamily', fontFamily)}
+          value={rangeStyle.fontFamily ?? selectedLayer.fontFamily}
+          onChange={(fontFamily) => handleStyleChange('fontFamily', fontFamily)}
         />
       </div>
       
       {/* Font Size */}
       <div className="mb-4">
         <label className="block text-sm font-medium mb-1">
-          Font Size: {selectedLayer.fontSize}px
+          {fitted && selectedLayer.fitMode === 'shrink' && !activeRange ? 'Max Font Size' : 'Font Size'}:{' '}
+          {fitted && selectedLayer.fitMode === 'fill' && !activeRange
+            ? 'auto'
+            : `${rangeStyle.fontSize ?? selectedLayer.fontSize}px`}
         </label>
         <input
           type="range"
           min="8"
           max="120"
-          value={selectedLayer.fontSize}
-          onChange={(e) => handleChange('fontSize', parseInt(e.target.value))}
+          value={rangeStyle.fontSize ?? selectedLayer.fontSize}
+          onChange={(e) => handleStyleChange('fontSize', parseInt(e.target.value))}
+          disabled={fitted && selectedLayer.fitMode === 'fill' && !activeRange}
           className="w-full"
         />
       </div>
       
+      {/* Auto Fit */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">Auto Fit</label>
+        <div className="flex border rounded overflow-hidden">
+          {fitOptions.map((option) => (
+            <button
+              key={option.value}
+              className={`flex-1 py-1 text-sm ${
+                (selectedLayer.fitMode || 'none') === option.value ? 'bg-blue-500 text-white' : 'bg-white'
+              } disabled:text-gray-400`}
+              onClick={() => handleFitModeChange(option.value as TextFitMode)}
+              disabled={!!selectedLayer.textPath}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        
+        {selectedLayer.textPath && (
+          <p className="text-xs text-gray-500 mt-1">Curved text is not fitted to a box.</p>
+        )}
+        
+        {fitted && (
+          <p className="text-xs text-gray-500 mt-1">
+            Text is sized to its box. Set the box height under Alignment or drag its edges on the canvas.
+          </p>
+        )}
+      </div>
+      
       {/* Font Weight */}
       <div className="mb-4">
         <label className="block text-sm font-medium mb-1">Font Weight</label>
         <select
-          value={selectedLayer.fontWeight.toString()}
-          onChange={(e) => handleChange('fontWeight', e.target.value)}
+          value={(rangeStyle.fontWeight ?? selectedLayer.fontWeight).toString()}
+          onChange={(e) => handleStyleChange('fontWeight', e.target.value)}
           className="w-full p-2 border rounded"
         >
           {fontWeightOptions.map((option) => (
@@ -149,23 +520,323 @@ const TextProperties: React.FC = () => {
         </select>
       </div>
       
-      {/* Color */}
+      {/* Font Style */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">Font Style</label>
+        <div className="flex border rounded overflow-hidden">
+          {fontStyleOptions.map((option) => (
+            <button
+              key={option.value}
+              className={`flex-1 py-1 text-sm ${option.value === 'normal' ? '' : 'italic'} ${
+                (selectedLayer.fontStyle || 'normal') === option.value ? 'bg-blue-500 text-white' : 'bg-white'
+              }`}
+              onClick={() => handleChange('fontStyle', option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      
+      {/* Decoration */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">Decoration</label>
+        <div className="flex gap-1">
+          {decorationOptions.map((option) => (
+            <button
+              key={option.property}
+              className={`flex-1 py-1 text-sm border rounded ${option.className} ${
+                selectedLayer[option.property] ? 'bg-blue-500 text-white' : 'bg-white'
+              }`}
+              onClick={() => handleChange(option.property, !selectedLayer[option.property])}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      
+      {/* Text Case */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">Text Case</label>
+        <select
+          value={selectedLayer.textTransform || 'none'}
+          onChange={(e) => handleChange('textTransform', e.target.value as TextTransform)}
+          className="w-full p-2 border rounded"
+        >
+          {(Object.keys(TEXT_TRANSFORM_LABELS) as TextTransform[]).map((transform) => (
+            <option key={transform} value={transform}>
+              {TEXT_TRANSFORM_LABELS[transform]}
+            </option>
+          ))}
+        </select>
+      </div>
+      
+      {/* Typography Features */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">Typography Features</label>
+        {fontFeatureOptions.map((option) => (
+          <label key={option.feature} className="flex items-center">
+            <input
+              type="checkbox"
+              checked={fontFeatures[option.feature]}
+              onChange={(e) => handleFontFeatureChange(option.feature, e.target.checked)}
+              className="mr-2"
+            />
+            <span className="text-sm">{option.label}</span>
+          </label>
+        ))}
+        <p className="text-xs text-gray-500 mt-1">
+          These work with every font: fonts without small caps get synthesized ones, and tabular figures space the font&apos;s own digits evenly. Stylistic sets aren&apos;t available.
+        </p>
+      </div>
+      
+      {/* Fill */}
+      {activeRange ? (
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-1">Color</label>
+          <div className="flex items-center">
+            <input
+              type="color"
+              value={rangeStyle.color ?? selectedLayer.color}
+              onChange={(e) => handleStyleChange('color', e.target.value)}
+              className="w-10 h-10 border rounded mr-2"
+            />
+            <input
+              type="text"
+              value={rangeStyle.color ?? selectedLayer.color}
+              onChange={(e) => handleStyleChange('color', e.target.value)}
+              className="flex-1 p-2 border rounded"
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-1">Fill</label>
+          <div className="mb-2 flex border rounded overflow-hidden">
+            <button
+              className={`flex-1 py-1 text-sm ${!selectedLayer.gradient ? 'bg-blue-500 text-white' : 'bg-white'}`}
+              onClick={() => toggleGradient(false)}
+            >
+              Solid
+            </button>
+            <button
+              className={`flex-1 py-1 text-sm ${selectedLayer.gradient ? 'bg-blue-500 text-white' : 'bg-white'}`}
+              onClick={() => toggleGradient(true)}
+            >
+              Gradient
+            </button>
+          </div>
+        
+          {selectedLayer.gradient ? (
+            <GradientEditor
+              gradient={selectedLayer.gradient}
+              onChange={(gradient) => handleChange('gradient', gradient)}
+            />
+          ) : (
+            <div className="flex items-center">
+              <input
+                type="color"
+                value={selectedLayer.color}
+                onChange={(e) => handleChange('color', e.target.value)}
+                className="w-10 h-10 border rounded mr-2"
+              />
+              <input
+                type="text"
+                value={selectedLayer.color}
+                onChange={(e) => handleChange('color', e.target.value)}
+                className="flex-1 p-2 border rounded"
+              />
+            </div>
+          )}
+        </div>
+      )}
+      
+      {/* Text Outline */}
       <div className="mb-4">
-        <label className="block text-sm font-medium mb-1">Color</label>
-        <div className="flex items-center">
+        <label className="flex items-center">
           <input
-            type="color"
-            value={selectedLayer.color}
-            onChange={(e) => handleChange('color', e.target.value)}
-            className="w-10 h-10 border rounded mr-2"
+            type="checkbox"
+            checked={!!selectedLayer.stroke}
+            onChange={toggleStroke}
+            className="mr-2"
           />
+          <span>Text Outline</span>
+        </label>
+        
+        {selectedLayer.stroke && (
+          <div className="mt-2 p-3 bg-gray-50 rounded border">
+            {/* Outline Color */}
+            <div className="mb-3">
+              <label className="block text-sm font-medium mb-1">Outline Color</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={selectedLayer.stroke.color.startsWith('#') ? selectedLayer.stroke.color : '#000000'}
+                  onChange={(e) => handleStrokeChange('color', e.target.value)}
+                  className="w-10 h-10 border rounded flex-shrink-0"
+                />
+                <input
+                  type="text"
+                  value={selectedLayer.stroke.color}
+                  onChange={(e) => handleStrokeChange('color', e.target.value)}
+                  className="min-w-0 flex-1 p-2 border rounded text-sm"
+                  placeholder="#000000"
+                />
+              </div>
+            </div>
+            
+            {/* Outline Width */}
+            <div className="mb-3">
+              <label className="block text-sm font-medium mb-1">
+                Width: {selectedLayer.stroke.width}px
+              </label>
+              <input
+                type="range"
+                min="1"
+                max="20"
+                value={selectedLayer.stroke.width}
+                onChange={(e) => handleStrokeChange('width', parseInt(e.target.value))}
+                className="w-full"
+              />
+            </div>
+            
+            {/* Outline Position */}
+            <div>
+              <label className="block text-sm font-medium mb-1">Position</label>
+              <div className="flex border rounded overflow-hidden">
+                {strokePositionOptions.map((option) => (
+                  <button
+                    key={option.value}
+                    className={`flex-1 py-1 text-sm ${
+                      selectedLayer.stroke?.position === option.value
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-white'
+                    }`}
+                    onClick={() => handleStrokeChange('position', option.value)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+      
+      {/* Background Box */}
+      <div className="mb-4">
+        <label className="flex items-center">
           <input
-            type="text"
-            value={selectedLayer.color}
-            onChange={(e) => handleChange('color', e.target.value)}
-            className="flex-1 p-2 border rounded"
+            type="checkbox"
+            checked={!!selectedLayer.background}
+            onChange={toggleBackground}
+            className="mr-2"
           />
-        </div>
+          <span>Background Box</span>
+        </label>
+        
+        {selectedLayer.background && (
+          <div className="mt-2 p-3 bg-gray-50 rounded border">
+            {/* Box Style */}
+            <div className="mb-3 flex border rounded overflow-hidden">
+              {backgroundModeOptions.map((option) => (
+                <button
+                  key={option.value}
+                  className={`flex-1 py-1 text-sm ${
+                    selectedLayer.background?.mode === option.value
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-white'
+                  }`}
+                  onClick={() => handleBackgroundChange('mode', option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            
+            {/* Box Color */}
+            <div className="mb-3">
+              <label className="block text-sm font-medium mb-1">Box Color</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={selectedLayer.background.color.startsWith('#') ? selectedLayer.background.color : '#000000'}
+                  onChange={(e) => handleBackgroundChange('color', e.target.value)}
+                  className="w-10 h-10 border rounded flex-shrink-0"
+                />
+                <input
+                  type="text"
+                  value={selectedLayer.background.color}
+                  onChange={(e) => handleBackgroundChange('color', e.target.value)}
+                  className="min-w-0 flex-1 p-2 border rounded text-sm"
+                  placeholder="#000000"
+                />
+              </div>
+            </div>
+            
+            {/* Box Opacity */}
+            <div className="mb-3">
+              <label className="block text-sm font-medium mb-1">
+                Box Opacity: {Math.round(selectedLayer.background.opacity * 100)}%
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={selectedLayer.background.opacity}
+                onChange={(e) => handleBackgroundChange('opacity', parseFloat(e.target.value))}
+                className="w-full"
+              />
+            </div>
+            
+            {/* Horizontal Padding */}
+            <div className="mb-3">
+              <label className="block text-sm font-medium mb-1">
+                Horizontal Padding: {selectedLayer.background.paddingX}px
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="60"
+                value={selectedLayer.background.paddingX}
+                onChange={(e) => handleBackgroundChange('paddingX', parseInt(e.target.value))}
+                className="w-full"
+              />
+            </div>
+            
+            {/* Vertical Padding */}
+            <div className="mb-3">
+              <label className="block text-sm font-medium mb-1">
+                Vertical Padding: {selectedLayer.background.paddingY}px
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="60"
+                value={selectedLayer.background.paddingY}
+                onChange={(e) => handleBackgroundChange('paddingY', parseInt(e.target.value))}
+                className="w-full"
+              />
+            </div>
+            
+            {/* Corner Radius */}
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Corner Radius: {selectedLayer.background.cornerRadius}px
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="50"
+                value={selectedLayer.background.cornerRadius}
+                onChange={(e) => handleBackgroundChange('cornerRadius', parseInt(e.target.value))}
+                className="w-full"
+              />
+            </div>
+          </div>
+        )}
       </div>
       
       {/* Opacity */}
@@ -191,7 +862,7 @@ const TextProperties: React.FC = () => {
           {alignmentOptions.map((option) => (
             <button
               key={option.value}
-              className={`flex-1 py-2 ${
+              className={`flex-1 py-2 text-sm ${
                 selectedLayer.textAlign === option.value
                   ? 'bg-blue-500 text-white'
                   : 'bg-white'
@@ -202,6 +873,127 @@ const TextProperties: React.FC = () => {
             </button>
           ))}
         </div>
+        
+        {/* Vertical Alignment */}
+        <div className="mt-2 flex border rounded overflow-hidden">
+          {verticalAlignmentOptions.map((option) => (
+            <button
+              key={option.value}
+              className={`flex-1 py-1 text-sm ${
+                fixedHeight && (selectedLayer.verticalAlign || 'top') === option.value
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-white'
+              } disabled:text-gray-400`}
+              onClick={() => handleChange('verticalAlign', option.value)}
+              disabled={!fixedHeight}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        
+        {/* Fixed Box Height */}
+        <label className="flex items-center mt-2">
+          <input
+            type="checkbox"
+            checked={fixedHeight}
+            onChange={(e) => handleFixedHeightChange(e.target.checked)}
+            disabled={fitted || !!selectedLayer.textPath}
+            className="mr-2"
+          />
+          <span className="text-sm">Fixed box height</span>
+        </label>
+        
+        {fixedHeight ? (
+          <div className="mt-2 p-3 bg-gray-50 rounded border">
+            {/* Box Height */}
+            <label className="block text-sm font-medium mb-1">
+              Box Height: {Math.round(selectedLayer.height)}px
+            </label>
+            <input
+              type="range"
+              min="12"
+              max="1000"
+              value={selectedLayer.height}
+              onChange={(e) => handleChange('height', parseInt(e.target.value))}
+              className="w-full"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Drag the box edges on the canvas to resize it; the text stays anchored as it grows.
+            </p>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500 mt-1">
+            Vertical alignment applies to boxes with a fixed height.
+          </p>
+        )}
+      </div>
+      
+      {/* Text Path */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">Text Path</label>
+        <select
+          value={selectedLayer.textPath?.type || 'none'}
+          onChange={(e) => handleTextPathTypeChange(e.target.value as TextPathType | 'none')}
+          className="w-full p-2 border rounded"
+        >
+          <option value="none">None (text box)</option>
+          {(Object.keys(TEXT_PATH_LABELS) as TextPathType[]).map((type) => (
+            <option key={type} value={type}>
+              {TEXT_PATH_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        
+        {selectedLayer.textPath && (
+          <div className="mt-2 p-3 bg-gray-50 rounded border">
+            {selectedLayer.textPath.type === 'bezier' ? (
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">Drag the curve handles on the canvas.</p>
+                <button
+                  onClick={() => applyTextPath(createTextPath('bezier', selectedLayer.width), 'Reset text curve')}
+                  className="text-blue-500 text-sm"
+                >
+                  Reset Curve
+                </button>
+              </div>
+            ) : (
+              <>
+                {/* Radius */}
+                <div className="mb-3">
+                  <label className="block text-sm font-medium mb-1">
+                    Radius: {selectedLayer.textPath.radius}px
+                  </label>
+                  <input
+                    type="range"
+                    min="20"
+                    max="600"
+                    value={selectedLayer.textPath.radius}
+                    onChange={(e) => selectedLayer.textPath && applyTextPath(
+                      { ...selectedLayer.textPath, radius: parseInt(e.target.value) },
+                      'Updated text curve radius'
+                    )}
+                    className="w-full"
+                  />
+                </div>
+                
+                {/* Direction */}
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={selectedLayer.textPath.flip}
+                    onChange={(e) => selectedLayer.textPath && applyTextPath(
+                      { ...selectedLayer.textPath, flip: e.target.checked },
+                      'Flipped text curve'
+                    )}
+                    className="mr-2"
+                  />
+                  <span className="text-sm">Run along the bottom</span>
+                </label>
+              </>
+            )}
+          </div>
+        )}
       </div>
       
       {/* Line Height */}
@@ -327,6 +1119,80 @@ const TextProperties: React.FC = () => {
         )}
       </div>
       
+      {/* Animation */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">Entrance Animation</label>
+        <select
+          value={selectedLayer.animation?.type || 'none'}
+          onChange={(e) => handleAnimationTypeChange(e.target.value as TextAnimationType | 'none')}
+          className="w-full p-2 border rounded"
+        >
+          <option value="none">None</option>
+          {(Object.keys(TEXT_ANIMATION_LABELS) as TextAnimationType[]).map((type) => (
+            <option key={type} value={type}>
+              {TEXT_ANIMATION_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        
+        {selectedLayer.animation && (
+          <div className="mt-2 p-3 bg-gray-50 rounded border">
+            {/* Direction */}
+            {selectedLayer.animation.type === 'slide' && (
+              <div className="mb-3">
+                <label className="block text-sm font-medium mb-1">Direction</label>
+                <select
+                  value={selectedLayer.animation.direction}
+                  onChange={(e) => handleAnimationChange('direction', e.target.value as TextAnimationDirection)}
+                  className="w-full p-1 border rounded"
+                >
+                  {(Object.keys(TEXT_ANIMATION_DIRECTION_LABELS) as TextAnimationDirection[]).map((direction) => (
+                    <option key={direction} value={direction}>
+                      {TEXT_ANIMATION_DIRECTION_LABELS[direction]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            
+            {/* Start */}
+            <div className="mb-3">
+              <label className="block text-sm font-medium mb-1">
+                Start: {selectedLayer.animation.start.toFixed(1)}s
+              </label>
+              <input
+                type="range"
+                min="0"
+                max={MAX_ANIMATION_START}
+                step="0.1"
+                value={selectedLayer.animation.start}
+                onChange={(e) => handleAnimationChange('start', parseFloat(e.target.value))}
+                className="w-full"
+              />
+            </div>
+            
+            {/* Duration */}
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Duration: {selectedLayer.animation.duration.toFixed(1)}s
+              </label>
+              <input
+                type="range"
+                min="0.1"
+                max={MAX_ANIMATION_DURATION}
+                step="0.1"
+                value={selectedLayer.animation.duration}
+                onChange={(e) => handleAnimationChange('duration', parseFloat(e.target.value))}
+                className="w-full"
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Plays in animated GIF and WebM exports; the editor shows the finished layout.
+            </p>
+          </div>
+        )}
+      </div>
+      
       {/* Lock Layer */}
       <div className="mb-4">
         <label className="flex items-center">
@@ -1,51 +1,164 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { CanvasState } from '../types/canvas';
 import { useEditorStore } from '../store/editorSlice';
-import { useLocalStorage } from './useLocalStorage';
+import { AUTOSAVE_DOCUMENT, registerAutosaveFlush, useProjectStore } from '../store/projectSlice';
+import {
+  deleteDocument,
+  getProjectKey,
+  onStorageError,
+  quarantineDocument,
+  readDocument,
+  writeDocument,
+} from '../utils/indexedDbStorage';
+import { loadSavedCanvasState, versionCanvasState } from '../utils/stateSchema';
+import { THUMBNAIL_WIDTH } from '../utils/projects';
+import { useToast } from '../components/Toast/ToastContainer';
+import type { Canvas as FabricCanvas } from 'fabric/fabric-impl';
 
-const AUTOSAVE_KEY = 'image-text-compose-autosave';
 const AUTOSAVE_INTERVAL = 2000; // 2 seconds
 
+// Editor state that is saved; a save is skipped when none of it has changed
+const SAVED_KEYS = [
+  'backgroundImage',
+  'textLayers',
+  'imageLayers',
+  'shapeLayers',
+  'groups',
+  'layerOrder',
+  'canvasDimensions',
+] as const;
+
 /**
- * A hook that automatically saves the editor state to localStorage
- * and provides functions to restore and reset the saved state
+ * A hook that automatically saves a project's editor state to IndexedDB,
+ * with its images stored as blobs, restores it once on load, and keeps
+ * the project's thumbnail in the library current. Saves carry the state
+ * schema version; older ones are migrated when restored, and damaged ones
+ * are quarantined rather than loaded.
+ * @param projectId The open project
+ * @param canvasRef The editor canvas, drawn for the thumbnail
  */
-export function useAutosave() {
+export function useAutosave(projectId: string, canvasRef: React.RefObject<FabricCanvas | null>) {
   const editorState = useEditorStore();
-  const [savedState, setSavedState] = useLocalStorage<CanvasState | null>(
-    AUTOSAVE_KEY,
-    null
-  );
+  const autosaveKey = getProjectKey(AUTOSAVE_DOCUMENT, projectId);
+  // Nothing is saved until the saved state has been read, so an empty editor can't overwrite it
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [hasSavedState, setHasSavedState] = useState(false);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const hasWarnedRef = useRef(false);
+  // What was wrong with the saved state, until the user has been told
+  const [restoreProblems, setRestoreProblems] = useState<{ isRestored: boolean; problems: string[] } | null>(null);
+  const lastSavedRef = useRef<Partial<CanvasState> | null>(null);
+  const { showError, showWarning } = useToast();
+
+  // Function to save the current state
+  const saveState = async () => {
+    const lastSaved = lastSavedRef.current;
+    if (lastSaved && SAVED_KEYS.every(key => lastSaved[key] === editorState[key])) return;
+    lastSavedRef.current = Object.fromEntries(SAVED_KEYS.map(key => [key, editorState[key]]));
 
-  // Function to save the current state to localStorage
-  const saveState = () => {
     const stateToSave: CanvasState = {
-      backgroundImage: editorState.backgroundImage,
+      backgroundImage: editorState.backgroundImage && {
+        ...editorState.backgroundImage,
+        // The image is kept as its data URL
+        file: null,
+      },
       textLayers: editorState.textLayers,
+      imageLayers: editorState.imageLayers,
+      shapeLayers: editorState.shapeLayers,
+      groups: editorState.groups,
+      layerOrder: editorState.layerOrder,
       selectedLayerIds: [], // Don't save selection state
       canvasDimensions: editorState.canvasDimensions,
     };
-    setSavedState(stateToSave);
+    setHasSavedState(true);
+    await writeDocument(autosaveKey, versionCanvasState(stateToSave));
+
+    const canvas = canvasRef.current;
+    const thumbnail = canvas && editorState.backgroundImage
+      ? canvas.toDataURL({ format: 'jpeg', quality: 0.7, multiplier: THUMBNAIL_WIDTH / canvas.getWidth() })
+      : null;
+    useProjectStore.getState().updateProjectPreview(projectId, thumbnail);
   };
 
-  // Function to restore the saved state from localStorage
-  const restoreState = () => {
-    if (savedState) {
-      editorState.importState(savedState);
-      return true;
+  // Project actions such as duplicating save pending changes first; nothing is saved before the restore
+  const saveStateRef = useRef(saveState);
+  useEffect(() => {
+    saveStateRef.current = saveState;
+  });
+  useEffect(() => registerAutosaveFlush(
+    projectId,
+    async () => {
+      if (lastSavedRef.current) {
+        await saveStateRef.current();
+      }
     }
-    return false;
-  };
+  ), [projectId]);
 
   // Function to reset the editor and clear saved state
   const resetEditor = () => {
     editorState.resetEditor();
-    setSavedState(null);
+    setHasSavedState(false);
+    deleteDocument(autosaveKey);
   };
 
+  // Restore the saved state on initial load
+  useEffect(() => {
+    let isCancelled = false;
+    readDocument<unknown>(autosaveKey).then(saved => {
+      if (isCancelled) return;
+      if (saved) {
+        const { state, problems } = loadSavedCanvasState(saved);
+        if (problems.length > 0) {
+          // The original is kept aside before the next autosave replaces it
+          quarantineDocument(autosaveKey, saved, problems);
+        }
+        if (state) {
+          useEditorStore.getState().importState(state);
+          setHasSavedState(true);
+        }
+        if (problems.length > 0) {
+          setRestoreProblems({ isRestored: Boolean(state), problems });
+        }
+      }
+      // Opening a project isn't an edit, so the restored state doesn't count as a change
+      const restoredState = useEditorStore.getState();
+      lastSavedRef.current = Object.fromEntries(SAVED_KEYS.map(key => [key, restoredState[key]]));
+      setIsLoaded(true);
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [autosaveKey]);
+
+  // Tell the user when the saved state was damaged
+  useEffect(() => {
+    if (!restoreProblems) return;
+    const { isRestored, problems } = restoreProblems;
+    if (isRestored) {
+      showWarning(
+        'Saved work repaired',
+        `${problems.length} damaged part${problems.length === 1 ? ' was' : 's were'} left out: ${problems[0]}`
+      );
+    } else {
+      showError('Saved work damaged', `The saved composition could not be restored: ${problems[0]}`);
+    }
+    setRestoreProblems(null);
+  }, [restoreProblems, showError, showWarning]);
+
+  // Tell the user once when saving fails, typically because storage is full
+  useEffect(() => onStorageError(() => {
+    if (hasWarnedRef.current) return;
+    hasWarnedRef.current = true;
+    showWarning(
+      'Changes not saved',
+      'Browser storage is full or unavailable, so recent changes may be lost on reload. Use Save Project to keep a copy.'
+    );
+  }), [showWarning]);
+
   // Set up autosave with debouncing
   useEffect(() => {
+    if (!isLoaded) return;
+
     // Clear any existing timer
     if (timerRef.current) {
       clearTimeout(timerRef.current);
@@ -62,17 +175,21 @@ export function useAutosave() {
         clearTimeout(timerRef.current);
       }
     };
-  }, [editorState.textLayers, editorState.backgroundImage, editorState.canvasDimensions]);
-
-  // Check for saved state on initial load
-  useEffect(() => {
-    // This effect runs when savedState changes
-  }, [savedState]);
+  }, [
+    isLoaded,
+    editorState.textLayers,
+    editorState.imageLayers,
+    editorState.shapeLayers,
+    editorState.groups,
+    editorState.layerOrder,
+    editorState.backgroundImage,
+    editorState.canvasDimensions,
+  ]);
 
   return {
-    hasSavedState: savedState !== null,
+    hasSavedState,
+    isLoaded,
     saveState,
-    restoreState,
     resetEditor,
   };
 }
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { useEditorStore } from '../store/editorSlice';
+import { useHistoryStore } from '../store/historySlice';
+import { useToast } from '../components/Toast/ToastContainer';
+import {
+  getInitialImagePlacement,
+  readImageLayerFile,
+  validateImageLayerFile,
+} from '../utils/imageLayers';
+
+/**
+ * A hook that turns uploaded or dropped image files into image layers
+ * placed above the background
+ */
+export function useImageLayerUpload() {
+  const [isAddingImage, setIsAddingImage] = useState(false);
+  const { addImageLayer } = useEditorStore();
+  const { pushHistory } = useHistoryStore();
+  const { showSuccess, showError } = useToast();
+
+  const addImageFromFile = async (file: File) => {
+    const validation = validateImageLayerFile(file);
+    if (!validation.isValid) {
+      showError('Invalid image file', validation.error);
+      return;
+    }
+
+    try {
+      setIsAddingImage(true);
+
+      const image = await readImageLayerFile(file);
+      const { canvasDimensions } = useEditorStore.getState();
+
+      addImageLayer({
+        ...image,
+        ...getInitialImagePlacement(
+          image.naturalWidth,
+          image.naturalHeight,
+          canvasDimensions.width,
+          canvasDimensions.height
+        ),
+      });
+
+      pushHistory('Added image layer', useEditorStore.getState());
+      showSuccess('Image layer added', `${file.name} (${image.naturalWidth}x${image.naturalHeight})`);
+    } catch (error) {
+      console.error('Error adding image layer:', error);
+      showError(
+        'Failed to add image',
+        error instanceof Error ? error.message : 'The image could not be added.'
+      );
+    } finally {
+      setIsAddingImage(false);
+    }
+  };
+
+  const addImagesFromFiles = async (files: FileList | File[]) => {
+    for (const file of Array.from(files)) {
+      await addImageFromFile(file);
+    }
+  };
+
+  return {
+    isAddingImage,
+    addImageFromFile,
+    addImagesFromFiles,
+  };
+}
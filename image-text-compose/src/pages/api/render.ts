@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { RenderRequest } from '../../types/export';
+import { renderProject, validateRenderRequest } from '../../utils/serverRender';
+
+type ErrorResponse = {
+  error: string;
+};
+
+export const config = {
+  api: {
+    bodyParser: {
+      // Background, image layers and fonts arrive as data URLs
+      sizeLimit: '50mb',
+    },
+  },
+};
+
+/**
+ * Render a serialized project to a PNG or JPEG.
+ * POST a RenderRequest as JSON; the response body is the image.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Buffer | ErrorResponse>,
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const validation = validateRenderRequest(req.body);
+  if (validation.error !== null) {
+    res.status(400).json({ error: validation.error });
+    return;
+  }
+
+  try {
+    const { data, mimeType } = await renderProject(req.body as RenderRequest, validation.state);
+    res.setHeader('Content-Type', mimeType);
+    res.setHeader('Content-Length', data.length);
+    res.status(200).send(data);
+  } catch (error) {
+    console.error('Server render failed:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Render failed' });
+  }
+}
@@ -4,11 +4,20 @@ import Canvas from '../components/Canvas/Canvas';
 import { useEditorStore } from '../store/editorSlice';
 import { useHistoryStore } from '../store/historySlice';
 import TextProperties from '@/components/TextControls/TextProperties';
+import ImageProperties from '@/components/ImageControls/ImageProperties';
+import ShapeProperties from '@/components/ShapeControls/ShapeProperties';
+import GroupProperties from '@/components/GroupControls/GroupProperties';
 import LayerPanel from '@/components/LayerPanel/LayerPanel';
 import ImageUploader from '../components/Editor/ImageUploader';
 import HistoryPanel from '@/components/History/HistoryPanel';
 import { useAutosave } from '../hooks/useAutosave';
+import { useImageLayerUpload } from '../hooks/useImageLayerUpload';
+import { findLayerEntry, getLayerKind } from '../utils/layers';
+import { getSelectedGroup } from '../utils/groups';
 import ExportButton from '@/components/Editor/ExportButton';
+import ProjectFileButtons from '@/components/Editor/ProjectFileButtons';
+import ProjectLibrary from '@/components/Projects/ProjectLibrary';
+import { useProjectStore } from '../store/projectSlice';
 import FontManagementPanel from '@/components/Fonts/FontManagementPanel';
 import type { Canvas as FabricCanvas } from 'fabric/fabric-impl';
 
@@ -22,28 +31,90 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+const pageClassName = `${geistSans.className} ${geistMono.className} font-sans min-h-screen bg-gray-50`;
+
 export default function Home() {
-  const { backgroundImage, selectedLayerIds, updateTextLayer, textLayers } = useEditorStore();
+  const { currentProjectId } = useProjectStore();
+
+  if (currentProjectId) {
+    // Keyed so each project starts with a fresh canvas and autosave
+    return <Editor key={currentProjectId} projectId={currentProjectId} />;
+  }
+
+  return (
+    <div className={pageClassName}>
+      <header className="bg-white shadow-sm p-4">
+        <h1 className="text-xl font-semibold">Image Text Composer</h1>
+      </header>
+      <ProjectLibrary />
+    </div>
+  );
+}
+
+function Editor({ projectId }: { projectId: string }) {
+  const { backgroundImage, groups, selectedLayerIds, updateLayerTransform } = useEditorStore();
   const { canUndo, canRedo, undo, redo, pushHistory } = useHistoryStore();
+  const { projects, closeProject } = useProjectStore();
   const [showHistory, setShowHistory] = useState(false);
-  const { hasSavedState, restoreState, resetEditor } = useAutosave();
+  const [isDraggingImage, setIsDraggingImage] = useState(false);
   const canvasRef = useRef<FabricCanvas | null>(null);
+  const { saveState, resetEditor } = useAutosave(projectId, canvasRef);
+  const { addImagesFromFiles } = useImageLayerUpload();
+  const projectName = projects.find(project => project.id === projectId)?.name;
   
-  // Restore saved state on initial load
-  useEffect(() => {
-    if (hasSavedState) {
-      restoreState();
-    }
-  }, []);
+  // Save right away rather than waiting for the autosave timer
+  const handleBackToProjects = async () => {
+    await saveState();
+    closeProject();
+  };
   
   // Check if we have a selected layer
   const hasSelectedLayer = selectedLayerIds.length > 0;
+  const selectedLayerKind = hasSelectedLayer
+    ? getLayerKind(useEditorStore.getState(), selectedLayerIds[0])
+    : null;
+  const selectedGroup = getSelectedGroup(groups, selectedLayerIds);
+  const propertiesTitle = selectedGroup
+    ? 'Group Properties'
+    : selectedLayerKind === 'image'
+    ? 'Image Properties'
+    : selectedLayerKind === 'shape'
+    ? 'Shape Properties'
+    : 'Text Properties';
+  const propertiesPanel = selectedGroup
+    ? <GroupProperties />
+    : selectedLayerKind === 'image'
+    ? <ImageProperties />
+    : selectedLayerKind === 'shape'
+    ? <ShapeProperties />
+    : <TextProperties />;
+  
+  // Dropping images onto the canvas adds them as image layers
+  const handleCanvasDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!backgroundImage || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingImage(true);
+  };
+  
+  const handleCanvasDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!backgroundImage) return;
+    e.preventDefault();
+    setIsDraggingImage(false);
+    
+    const files = e.dataTransfer.files;
+    if (files && files.length > 0) {
+      addImagesFromFiles(files);
+    }
+  };
   
   // Smart spacing function
   const applySmartSpacing = () => {
     if (selectedLayerIds.length < 2) return;
     
-    const selectedLayers = textLayers.filter(layer => selectedLayerIds.includes(layer.id));
+    const editorState = useEditorStore.getState();
+    const selectedLayers = selectedLayerIds
+      .map(id => findLayerEntry(editorState, id)?.layer)
+      .filter((layer): layer is NonNullable<typeof layer> => !!layer);
     selectedLayers.sort((a, b) => a.left - b.left); // Sort by horizontal position
     
     if (selectedLayers.length < 2) return;
@@ -64,7 +135,7 @@ export default function Home() {
     selectedLayers.forEach((layer, index) => {
       const newLeft = leftmostPos + (spacing * index);
 
-      updateTextLayer(layer.id, { left: newLeft });
+      updateLayerTransform(layer.id, { left: newLeft });
     });
     
     // Add a small delay before pushing history to allow Canvas sync to complete
@@ -79,7 +150,7 @@ export default function Home() {
 
     
     selectedLayerIds.forEach(layerId => {
-      const layer = textLayers.find(l => l.id === layerId);
+      const layer = findLayerEntry(useEditorStore.getState(), layerId)?.layer;
       if (!layer) {
 
         return;
@@ -114,7 +185,7 @@ export default function Home() {
         newTop = layer.top + (direction === 'ArrowUp' ? -distance : direction === 'ArrowDown' ? distance : 0);
       }
       
-      updateTextLayer(layerId, { left: newLeft, top: newTop });
+      updateLayerTransform(layerId, { left: newLeft, top: newTop });
     });
     
     pushHistory(`Nudged ${selectedLayerIds.length} layer(s)`, useEditorStore.getState());
@@ -141,6 +212,20 @@ export default function Home() {
         setShowHistory(prev => !prev);
       }
       
+      // Group: Ctrl+G, Ungroup: Ctrl+Shift+G (read the store directly so the selection is current)
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'g') {
+        e.preventDefault();
+        const editorState = useEditorStore.getState();
+        const group = getSelectedGroup(editorState.groups, editorState.selectedLayerIds);
+
+        if (e.shiftKey && group) {
+          editorState.ungroupLayers(group.id);
+          pushHistory('Ungrouped layers', useEditorStore.getState());
+        } else if (!e.shiftKey && !group && editorState.groupLayers(editorState.selectedLayerIds)) {
+          pushHistory('Grouped layers', useEditorStore.getState());
+        }
+      }
+      
       // Smart spacing: Ctrl+Shift+S or Cmd+Shift+S (S for Spacing)
       if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 's' && selectedLayerIds.length > 1) {
         e.preventDefault();
@@ -168,11 +253,21 @@ export default function Home() {
   }, [canUndo, canRedo, undo, redo]);
   
   return (
-    <div className={`${geistSans.className} ${geistMono.className} font-sans min-h-screen bg-gray-50`}>
+    <div className={pageClassName}>
       {/* Header */}
       <header className="bg-white shadow-sm p-4 flex justify-between items-center">
-        <h1 className="text-xl font-semibold">Image Text Composer</h1>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={handleBackToProjects}
+            className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded"
+            title="Back to all projects"
+          >
+            ← Projects
+          </button>
+          <h1 className="text-xl font-semibold truncate">{projectName || 'Image Text Composer'}</h1>
+        </div>
         <div className="flex space-x-2">
+          <ProjectFileButtons />
           <ExportButton canvas={canvasRef.current} />
           {selectedLayerIds.length > 1 && (
             <button 
@@ -283,7 +378,14 @@ export default function Home() {
         
         {/* Main canvas area */}
         <div className="flex-grow flex flex-col">
-          <div className="flex-grow flex items-center justify-center bg-gray-100 p-4">
+          <div
+            className={`flex-grow flex items-center justify-center p-4 ${
+              isDraggingImage ? 'bg-blue-50 outline-2 outline-dashed outline-blue-400' : 'bg-gray-100'
+            }`}
+            onDragOver={handleCanvasDragOver}
+            onDragLeave={() => setIsDraggingImage(false)}
+            onDrop={handleCanvasDrop}
+          >
             <Canvas canvasRef={canvasRef} />
             {!backgroundImage && (
               <div className="absolute max-w-md w-full">
@@ -295,11 +397,11 @@ export default function Home() {
         
         {/* Right sidebar - Properties and History */}
         <div className="w-full md:w-72 bg-white shadow-sm p-4 overflow-y-auto flex flex-col">
-          {/* Text properties */}
+          {/* Layer properties */}
           {hasSelectedLayer && !showHistory && (
             <div className="mb-6">
-              <h2 className="text-lg font-medium mb-4">Text Properties</h2>
-              <TextProperties />
+              <h2 className="text-lg font-medium mb-4">{propertiesTitle}</h2>
+              {propertiesPanel}
             </div>
           )}
           
@@ -311,12 +413,12 @@ export default function Home() {
             </div>
           )}
           
-          {/* Show both when History is open but also show Text Properties in compact form */}
+          {/* Show both when History is open but also show layer properties in compact form */}
           {showHistory && hasSelectedLayer && (
             <div className="mt-4 border-t pt-4">
-              <h3 className="text-md font-medium mb-2">Text Properties</h3>
+              <h3 className="text-md font-medium mb-2">{propertiesTitle}</h3>
               <div className="max-h-48 overflow-y-auto">
-                <TextProperties />
+                {propertiesPanel}
               </div>
             </div>
           )}
@@ -1,6 +1,15 @@
 import { create } from 'zustand';
-import { BackgroundImage, CanvasState, TextLayerProperties } from '../types/canvas';
+import {
+  BackgroundImage,
+  CanvasState,
+  ImageLayerProperties,
+  LayerGroup,
+  LayerTransform,
+  ShapeLayerProperties,
+  TextLayerProperties,
+} from '../types/canvas';
 import { nanoid } from 'nanoid';
+import { LayerOrderDirection, gatherInLayerOrder, moveInLayerOrder } from '../utils/groups';
 
 interface EditorStore extends CanvasState {
   // Background image actions
@@ -11,14 +20,33 @@ interface EditorStore extends CanvasState {
   addTextLayer: (layer: Partial<TextLayerProperties>) => string;
   updateTextLayer: (id: string, properties: Partial<TextLayerProperties>) => void;
   deleteTextLayer: (id: string) => void;
+  
+  // Image layer actions
+  addImageLayer: (layer: Partial<ImageLayerProperties> & Pick<ImageLayerProperties, 'src'>) => string;
+  updateImageLayer: (id: string, properties: Partial<ImageLayerProperties>) => void;
+  deleteImageLayer: (id: string) => void;
+  
+  // Shape layer actions
+  addShapeLayer: (layer: Partial<ShapeLayerProperties> & Pick<ShapeLayerProperties, 'shapeType'>) => string;
+  updateShapeLayer: (id: string, properties: Partial<ShapeLayerProperties>) => void;
+  deleteShapeLayer: (id: string) => void;
+  
+  // Actions shared by every layer kind
+  updateLayerTransform: (id: string, transform: Partial<LayerTransform>) => void;
   toggleLayerLock: (id: string) => void;
   
+  // Layer groups
+  groupLayers: (layerIds: string[], name?: string) => string | null;
+  ungroupLayers: (groupId: string) => void;
+  updateGroup: (groupId: string, properties: Partial<Omit<LayerGroup, 'id' | 'layerIds'>>) => void;
+  deleteGroup: (groupId: string) => void;
+  
   // Layer selection
   selectLayer: (id: string) => void;
   selectMultipleLayers: (ids: string[]) => void;
   deselectAllLayers: () => void;
   
-  // Layer ordering
+  // Layer ordering (accepts a layer ID or a group ID)
   moveLayerUp: (id: string) => void;
   moveLayerDown: (id: string) => void;
   moveLayerToTop: (id: string) => void;
@@ -37,6 +65,10 @@ interface EditorStore extends CanvasState {
 const initialState: CanvasState = {
   backgroundImage: null,
   textLayers: [],
+  imageLayers: [],
+  shapeLayers: [],
+  groups: [],
+  layerOrder: [],
   selectedLayerIds: [],
   canvasDimensions: {
     width: 800,
@@ -44,7 +76,26 @@ const initialState: CanvasState = {
   },
 };
 
-export const useEditorStore = create<EditorStore>((set) => ({
+/**
+ * State changes shared by every layer delete: drop the ID from the
+ * stacking order, its group and the selection. Emptied groups are removed.
+ */
+const withoutLayerIds = (state: CanvasState, ids: string[]) => ({
+  layerOrder: state.layerOrder.filter((layerId) => !ids.includes(layerId)),
+  groups: state.groups
+    .map((group) => ({
+      ...group,
+      layerIds: group.layerIds.filter((layerId) => !ids.includes(layerId)),
+    }))
+    .filter((group) => group.layerIds.length > 0),
+  selectedLayerIds: state.selectedLayerIds.filter((layerId) => !ids.includes(layerId)),
+});
+
+const moveLayer = (state: CanvasState, id: string, direction: LayerOrderDirection) => ({
+  layerOrder: moveInLayerOrder(state.layerOrder, state.groups, id, direction),
+});
+
+export const useEditorStore = create<EditorStore>((set, get) => ({
   ...initialState,
   
   // Background image actions
@@ -78,6 +129,7 @@ export const useEditorStore = create<EditorStore>((set) => ({
           ...layer,
         },
       ],
+      layerOrder: [...state.layerOrder, id],
       selectedLayerIds: [id],
     }));
     return id;
@@ -91,68 +143,179 @@ export const useEditorStore = create<EditorStore>((set) => ({
   
   deleteTextLayer: (id) => set((state) => ({
     textLayers: state.textLayers.filter((layer) => layer.id !== id),
-    selectedLayerIds: state.selectedLayerIds.filter((layerId) => layerId !== id),
+    ...withoutLayerIds(state, [id]),
+  })),
+  
+  // Image layer actions
+  addImageLayer: (layer) => {
+    const id = nanoid();
+    set((state) => ({
+      imageLayers: [
+        ...state.imageLayers,
+        {
+          id,
+          name: 'Image',
+          naturalWidth: 0,
+          naturalHeight: 0,
+          opacity: 1,
+          top: 100,
+          left: 100,
+          angle: 0,
+          scaleX: 1,
+          scaleY: 1,
+          locked: false,
+          ...layer,
+        },
+      ],
+      layerOrder: [...state.layerOrder, id],
+      selectedLayerIds: [id],
+    }));
+    return id;
+  },
+  
+  updateImageLayer: (id, properties) => set((state) => ({
+    imageLayers: state.imageLayers.map((layer) =>
+      layer.id === id ? { ...layer, ...properties } : layer
+    ),
+  })),
+  
+  deleteImageLayer: (id) => set((state) => ({
+    imageLayers: state.imageLayers.filter((layer) => layer.id !== id),
+    ...withoutLayerIds(state, [id]),
+  })),
+  
+  // Shape layer actions
+  addShapeLayer: (layer) => {
+    const id = nanoid();
+    set((state) => ({
+      shapeLayers: [
+        ...state.shapeLayers,
+        {
+          id,
+          fill: 'rgba(0,0,0,0.5)',
+          stroke: '#000000',
+          strokeWidth: 0,
+          cornerRadius: 0,
+          opacity: 1,
+          top: 100,
+          left: 100,
+          width: 200,
+          height: 100,
+          angle: 0,
+          scaleX: 1,
+          scaleY: 1,
+          locked: false,
+          ...layer,
+        },
+      ],
+      layerOrder: [...state.layerOrder, id],
+      selectedLayerIds: [id],
+    }));
+    return id;
+  },
+  
+  updateShapeLayer: (id, properties) => set((state) => ({
+    shapeLayers: state.shapeLayers.map((layer) =>
+      layer.id === id ? { ...layer, ...properties } : layer
+    ),
+  })),
+  
+  deleteShapeLayer: (id) => set((state) => ({
+    shapeLayers: state.shapeLayers.filter((layer) => layer.id !== id),
+    ...withoutLayerIds(state, [id]),
+  })),
+  
+  // Actions shared by every layer kind
+  updateLayerTransform: (id, transform) => set((state) => ({
+    textLayers: state.textLayers.map((layer) =>
+      layer.id === id ? { ...layer, ...transform } : layer
+    ),
+    imageLayers: state.imageLayers.map((layer) =>
+      layer.id === id ? { ...layer, ...transform } : layer
+    ),
+    shapeLayers: state.shapeLayers.map((layer) =>
+      layer.id === id ? { ...layer, ...transform } : layer
+    ),
   })),
   
   toggleLayerLock: (id) => set((state) => ({
     textLayers: state.textLayers.map((layer) =>
       layer.id === id ? { ...layer, locked: !layer.locked } : layer
     ),
+    imageLayers: state.imageLayers.map((layer) =>
+      layer.id === id ? { ...layer, locked: !layer.locked } : layer
+    ),
+    shapeLayers: state.shapeLayers.map((layer) =>
+      layer.id === id ? { ...layer, locked: !layer.locked } : layer
+    ),
+  })),
+  
+  // Layer groups
+  groupLayers: (layerIds, name) => {
+    const { layerOrder, groups } = get();
+    const memberIds = layerOrder.filter((id) => layerIds.includes(id));
+    if (memberIds.length < 2) return null;
+    
+    const id = nanoid();
+    set({
+      // A layer belongs to one group at a time
+      groups: [
+        ...groups
+          .map((group) => ({
+            ...group,
+            layerIds: group.layerIds.filter((layerId) => !memberIds.includes(layerId)),
+          }))
+          .filter((group) => group.layerIds.length > 0),
+        {
+          id,
+          name: name || `Group ${groups.length + 1}`,
+          layerIds: memberIds,
+          opacity: 1,
+          locked: false,
+          collapsed: false,
+        },
+      ],
+      layerOrder: gatherInLayerOrder(layerOrder, memberIds),
+      selectedLayerIds: memberIds,
+    });
+    return id;
+  },
+  
+  ungroupLayers: (groupId) => set((state) => ({
+    groups: state.groups.filter((group) => group.id !== groupId),
+  })),
+  
+  updateGroup: (groupId, properties) => set((state) => ({
+    groups: state.groups.map((group) =>
+      group.id === groupId ? { ...group, ...properties } : group
+    ),
   })),
   
+  deleteGroup: (groupId) => set((state) => {
+    const group = state.groups.find((g) => g.id === groupId);
+    if (!group) return state;
+    
+    return {
+      textLayers: state.textLayers.filter((layer) => !group.layerIds.includes(layer.id)),
+      imageLayers: state.imageLayers.filter((layer) => !group.layerIds.includes(layer.id)),
+      shapeLayers: state.shapeLayers.filter((layer) => !group.layerIds.includes(layer.id)),
+      ...withoutLayerIds(state, group.layerIds),
+    };
+  }),
+  
   // Layer selection
   selectLayer: (id) => set({ selectedLayerIds: [id] }),
   selectMultipleLayers: (ids) => set({ selectedLayerIds: ids }),
   deselectAllLayers: () => set({ selectedLayerIds: [] }),
   
   // Layer ordering
-  moveLayerUp: (id) => set((state) => {
-    const index = state.textLayers.findIndex((layer) => layer.id === id);
-    if (index === -1 || index === state.textLayers.length - 1) return state;
-    
-    const newLayers = [...state.textLayers];
-    [newLayers[index], newLayers[index + 1]] = [newLayers[index + 1], newLayers[index]];
-    
-    return { textLayers: newLayers };
-  }),
+  moveLayerUp: (id) => set((state) => moveLayer(state, id, 'up')),
   
-  moveLayerDown: (id) => set((state) => {
-    const index = state.textLayers.findIndex((layer) => layer.id === id);
-    if (index <= 0) return state;
-    
-    const newLayers = [...state.textLayers];
-    [newLayers[index], newLayers[index - 1]] = [newLayers[index - 1], newLayers[index]];
-    
-    return { textLayers: newLayers };
-  }),
+  moveLayerDown: (id) => set((state) => moveLayer(state, id, 'down')),
   
-  moveLayerToTop: (id) => set((state) => {
-    const index = state.textLayers.findIndex((layer) => layer.id === id);
-    if (index === -1 || index === state.textLayers.length - 1) return state;
-    
-    const layer = state.textLayers[index];
-    const newLayers = [
-      ...state.textLayers.slice(0, index),
-      ...state.textLayers.slice(index + 1),
-      layer,
-    ];
-    
-    return { textLayers: newLayers };
-  }),
+  moveLayerToTop: (id) => set((state) => moveLayer(state, id, 'top')),
   
-  moveLayerToBottom: (id) => set((state) => {
-    const index = state.textLayers.findIndex((layer) => layer.id === id);
-    if (index <= 0) return state;
-    
-    const layer = state.textLayers[index];
-    const newLayers = [
-      layer,
-      ...state.textLayers.slice(0, index),
-      ...state.textLayers.slice(index + 1),
-    ];
-    
-    return { textLayers: newLayers };
-  }),
+  moveLayerToBottom: (id) => set((state) => moveLayer(state, id, 'bottom')),
   
   // Canvas dimensions
   setCanvasDimensions: (width, height) => set({
@@ -163,5 +326,6 @@ export const useEditorStore = create<EditorStore>((set) => ({
   resetEditor: () => set(initialState),
   
   // Import state
-  importState: (state) => set(state),
+  // Saved state is migrated and validated by loadCanvasState before it gets here
+  importState: (state) => set({ ...state }),
 }));
@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid';
+import { ExportPreset } from '../types/export';
+
+interface ExportPresetState {
+  // Presets the user defined; the built-in ones live in utils/export
+  customPresets: ExportPreset[];
+  // Presets ticked for the next multi-size export
+  selectedPresetIds: string[];
+
+  // Actions
+  addPreset: (preset: Omit<ExportPreset, 'id'>) => string;
+  removePreset: (presetId: string) => void;
+  togglePresetSelected: (presetId: string) => void;
+}
+
+export const useExportPresetStore = create<ExportPresetState>()(
+  persist(
+    (set) => ({
+      customPresets: [],
+      selectedPresetIds: [],
+
+      addPreset: (preset) => {
+        const id = nanoid();
+        set((state) => ({
+          customPresets: [...state.customPresets, { ...preset, id }],
+          selectedPresetIds: [...state.selectedPresetIds, id],
+        }));
+        return id;
+      },
+
+      removePreset: (presetId) => {
+        set((state) => ({
+          customPresets: state.customPresets.filter(preset => preset.id !== presetId),
+          selectedPresetIds: state.selectedPresetIds.filter(id => id !== presetId),
+        }));
+      },
+
+      togglePresetSelected: (presetId) => {
+        set((state) => ({
+          selectedPresetIds: state.selectedPresetIds.includes(presetId)
+            ? state.selectedPresetIds.filter(id => id !== presetId)
+            : [...state.selectedPresetIds, presetId],
+        }));
+      },
+    }),
+    {
+      name: 'export-presets-storage',
+    }
+  )
+);
@@ -1,6 +1,12 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { CustomFont } from '@/types/fonts';
+import { loadCustomFont } from '@/utils/fontUtils';
+import { createIndexedDbStorage, quarantineDocument } from '@/utils/indexedDbStorage';
+
+const FONT_STORAGE_NAME = 'custom-fonts-storage';
+
+const FONT_FORMATS: CustomFont['format'][] = ['truetype', 'opentype', 'woff', 'woff2'];
 
 interface FontState {
   customFonts: CustomFont[];
@@ -16,6 +22,51 @@ interface FontState {
   getFontByFamily: (family: string) => CustomFont | undefined;
 }
 
+/**
+ * Register restored fonts with the browser again. Fonts saved before their
+ * files were stored have no file and stay unloaded until uploaded again.
+ */
+const reloadCustomFonts = async (fonts: CustomFont[]) => {
+  for (const font of fonts) {
+    if (!font.file) continue;
+
+    const restored = { ...font, url: URL.createObjectURL(font.file) };
+    const result = await loadCustomFont(restored);
+    useFontStore.setState((state) => ({
+      customFonts: state.customFonts.map(f =>
+        f.id === font.id ? { ...restored, isLoaded: result.success } : f
+      ),
+    }));
+  }
+};
+
+/**
+ * Keep the restored fonts that can be used, quarantining the rest
+ * @param persisted Fonts as restored
+ * @returns The usable fonts
+ */
+const validateCustomFonts = (persisted: unknown): CustomFont[] => {
+  const fonts = (persisted as { customFonts?: unknown } | undefined)?.customFonts;
+  if (fonts === undefined) return [];
+  if (!Array.isArray(fonts)) {
+    quarantineDocument(FONT_STORAGE_NAME, persisted, ['The font list is not a list']);
+    return [];
+  }
+
+  const isValid = (font: Partial<CustomFont> | null) =>
+    typeof font?.id === 'string' &&
+    typeof font.family === 'string' &&
+    typeof font.name === 'string' &&
+    FONT_FORMATS.includes(font.format as CustomFont['format']);
+  const valid = fonts.filter(isValid);
+  if (valid.length < fonts.length) {
+    quarantineDocument(FONT_STORAGE_NAME, persisted, [
+      `${fonts.length - valid.length} saved font${fonts.length - valid.length === 1 ? ' is' : 's are'} damaged`,
+    ]);
+  }
+  return valid;
+};
+
 export const useFontStore = create<FontState>()(
   persist(
     (set, get) => ({
@@ -111,16 +162,26 @@ export const useFontStore = create<FontState>()(
       },
     }),
     {
-      name: 'custom-fonts-storage',
-      // Don't persist the actual File objects or URLs, only metadata
+      name: FONT_STORAGE_NAME,
+      version: 1,
+      // Version 0 kept fonts in localStorage without their files, which
+      // reloadCustomFonts already skips, so no fields need changing
+      migrate: (persisted) => persisted as FontState,
+      merge: (persisted, current) => ({ ...current, customFonts: validateCustomFonts(persisted) }),
+      // Font files are kept in IndexedDB; object URLs only last for the page
+      storage: createIndexedDbStorage(),
       partialize: (state) => ({
         customFonts: state.customFonts.map(font => ({
           ...font,
-          file: undefined,
           url: '',
           isLoaded: false,
         })),
       }),
+      onRehydrateStorage: () => (state) => {
+        if (state) {
+          reloadCustomFonts(state.customFonts);
+        }
+      },
     }
   )
 );
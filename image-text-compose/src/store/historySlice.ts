@@ -2,6 +2,20 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { CanvasState } from '../types/canvas';
 import { HistoryAction, HistoryState } from '../types/history';
+import {
+  applyHistoryChanges,
+  createHistoryFromSnapshots,
+  diffCanvasState,
+  getHistoryStates,
+  mergeHistoryChanges,
+} from '../utils/historyChanges';
+import {
+  createIndexedDbStorage,
+  getProjectKey,
+  getProjectScope,
+  quarantineDocument,
+} from '../utils/indexedDbStorage';
+import { CANVAS_STATE_VERSION, loadCanvasState } from '../utils/stateSchema';
 import { useEditorStore } from './editorSlice';
 
 interface HistoryStore extends HistoryState {
@@ -14,86 +28,245 @@ interface HistoryStore extends HistoryState {
   clearHistory: () => void;
 }
 
-const MAX_HISTORY_SIZE = 20;
+const MAX_HISTORY_SIZE = 500;
+
+// Pushes with the same description this close together, such as a slider drag, are one step
+const MERGE_WINDOW = 1000;
+
+// 1 and 2 kept a full snapshot per action, in the state schema version of
+// the same number; 3 keeps changes and records the schema version itself
+const HISTORY_VERSION = 3;
+
+// Each project keeps its own history under this name and the project ID
+export const HISTORY_STORAGE_NAME = 'image-text-composer-history';
 
 const initialState: HistoryState = {
   past: [],
   present: null,
   future: [],
   maxHistorySize: MAX_HISTORY_SIZE,
+  state: null,
+};
+
+type PersistedHistory = Pick<HistoryState, 'past' | 'present' | 'future' | 'state'> & {
+  // Schema version of state and the values in changes
+  stateVersion: number;
+};
+
+// History from before version 3, with the state after each action
+type SnapshotAction = Omit<HistoryAction, 'changes'> & { state: unknown };
+
+const getHistoryKey = () => getProjectKey(HISTORY_STORAGE_NAME, getProjectScope() ?? '');
+
+/**
+ * Keep only the parts of the editor state history records. The editor
+ * store replaces what it changes, so they are kept without copying.
+ */
+const pickCanvasState = (state: CanvasState): CanvasState => ({
+  backgroundImage: state.backgroundImage,
+  textLayers: state.textLayers,
+  imageLayers: state.imageLayers,
+  shapeLayers: state.shapeLayers,
+  groups: state.groups,
+  layerOrder: state.layerOrder,
+  selectedLayerIds: [],
+  canvasDimensions: state.canvasDimensions,
+});
+
+/**
+ * Load a state into the editor, keeping the selection of layers it still has
+ */
+const restoreState = (state: CanvasState) => {
+  const editor = useEditorStore.getState();
+  const layerIds = new Set(
+    [...state.textLayers, ...state.imageLayers, ...state.shapeLayers].map(layer => layer.id)
+  );
+  editor.importState({
+    ...state,
+    selectedLayerIds: editor.selectedLayerIds.filter(id => layerIds.has(id)),
+  });
+};
+
+/**
+ * Turn snapshot history into change history
+ * @param persisted History as saved by version 1 or 2
+ * @param version The version, which is also the schema version of its snapshots
+ * @returns The history as changes, or an empty object if a snapshot is damaged
+ */
+const upgradeSnapshotHistory = (persisted: unknown, version: number): Partial<PersistedHistory> => {
+  const history = persisted as {
+    past?: SnapshotAction[];
+    present?: SnapshotAction | null;
+    future?: SnapshotAction[];
+  } | undefined;
+  const snapshots = [
+    ...(Array.isArray(history?.past) ? history.past : []),
+    ...(history?.present ? [history.present] : []),
+    ...(Array.isArray(history?.future) ? history.future : []),
+  ];
+  const states = snapshots.map(snapshot => loadCanvasState(snapshot?.state, version).state);
+  if (states.includes(null)) {
+    quarantineDocument(getHistoryKey(), persisted, ['A snapshot is damaged']);
+    return {};
+  }
+
+  return {
+    ...createHistoryFromSnapshots(
+      snapshots.map((snapshot, i) => ({ ...snapshot, state: states[i] as CanvasState })),
+      history?.present && Array.isArray(history.past) ? history.past.length : 0
+    ),
+    stateVersion: CANVAS_STATE_VERSION,
+  };
+};
+
+/**
+ * Validate restored history by rebuilding the state at every step. Damaged
+ * steps are repaired the way the autosave is; if any can't be, the history
+ * is quarantined and starts over, since undoing into a broken state is worse
+ * than having no undo. History saved in an older schema is migrated step
+ * by step the same way.
+ * @param persisted History as restored
+ * @returns The history to load, or null to start empty
+ */
+const loadHistory = (persisted: unknown): Omit<PersistedHistory, 'stateVersion'> | null => {
+  const history = persisted as Partial<PersistedHistory> | undefined;
+  if (!history?.state && !history?.present) return null;
+
+  if (!Array.isArray(history.past) || !Array.isArray(history.future) || !history.present || !history.state) {
+    quarantineDocument(getHistoryKey(), persisted, ['The history is incomplete']);
+    return null;
+  }
+
+  const { past, present, future, state } = history;
+  const version = history.stateVersion ?? CANVAS_STATE_VERSION;
+  const problems: string[] = [];
+  let snapshots: { timestamp: number; description: string; state: CanvasState | null }[];
+  try {
+    const states = getHistoryStates({ past, present, future, state });
+    const actions = [...past, present, ...future];
+    snapshots = [...states.past, states.present, ...states.future].map((snapshot, i) => {
+      const result = loadCanvasState(snapshot, version);
+      problems.push(...result.problems.map(problem => `${actions[i].description}: ${problem}`));
+      return { timestamp: actions[i].timestamp, description: actions[i].description, state: result.state };
+    });
+  } catch (error) {
+    problems.push(`The recorded changes don't apply: ${error instanceof Error ? error.message : error}`);
+    snapshots = [];
+  }
+
+  if (problems.length > 0) {
+    quarantineDocument(getHistoryKey(), persisted, problems);
+  }
+  if (snapshots.length === 0 || snapshots.some(snapshot => !snapshot.state)) {
+    return null;
+  }
+  if (problems.length === 0 && version === CANVAS_STATE_VERSION) {
+    return { past, present, future, state };
+  }
+  // Record the changes again between the repaired or migrated states
+  return createHistoryFromSnapshots(
+    snapshots as { timestamp: number; description: string; state: CanvasState }[],
+    past.length
+  );
 };
 
 export const useHistoryStore = create<HistoryStore>()(
   persist(
     (set, get) => ({
       ...initialState,
-  
-  pushHistory: (description, state) => set((historyState) => {
-    const newAction: HistoryAction = {
-      timestamp: Date.now(),
-      description,
-      state: JSON.parse(JSON.stringify(state)), // Deep clone to prevent reference issues
-    };
-    
-    // If we have a present state, add it to the past
-    const newPast = historyState.present 
-      ? [...historyState.past, historyState.present].slice(-historyState.maxHistorySize + 1)
-      : historyState.past;
-    
+
+  pushHistory: (description, editorState) => set((historyState) => {
+    const state = pickCanvasState(editorState);
+    const timestamp = Date.now();
+    const { present } = historyState;
+
+    // The first action can't be undone, so it records no changes
+    if (!present || !historyState.state) {
+      return { past: [], present: { timestamp, description, changes: [] }, future: [], state };
+    }
+
+    const changes = diffCanvasState(historyState.state, state);
+    if (changes.length === 0) return {};
+
+    // Keep adjusting the same thing in one step
+    if (
+      historyState.future.length === 0 &&
+      present.description === description &&
+      timestamp - present.timestamp < MERGE_WINDOW
+    ) {
+      const merged = mergeHistoryChanges(present.changes, changes);
+      if (merged) {
+        return { present: { ...present, timestamp, changes: merged }, state };
+      }
+    }
+
     return {
-      past: newPast,
-      present: newAction,
+      past: [...historyState.past, present].slice(-historyState.maxHistorySize + 1),
+      present: { timestamp, description, changes },
       future: [], // Clear future when a new action is pushed
+      state,
     };
   }),
-  
+
   undo: () => {
-    const { past, present, future } = get();
-    
-    if (past.length === 0 || !present) return;
-    
-    // Get the last action from the past
-    const previous = past[past.length - 1];
-    const newPast = past.slice(0, past.length - 1);
-    
-    // Apply the previous state to the editor
-    useEditorStore.getState().importState(previous.state);
-    
+    const { past, present, future, state } = get();
+
+    if (past.length === 0 || !present || !state) return;
+
+    // Reverse the present action to get the state after the one before it
+    const previousState = applyHistoryChanges(state, present.changes, 'undo');
+    restoreState(previousState);
+
     set({
-      past: newPast,
-      present: previous,
+      past: past.slice(0, past.length - 1),
+      present: past[past.length - 1],
       future: [present, ...future],
+      state: previousState,
     });
   },
-  
+
   redo: () => {
-    const { past, present, future } = get();
-    
-    if (future.length === 0) return;
-    
+    const { past, present, future, state } = get();
+
+    if (future.length === 0 || !state) return;
+
     // Get the first action from the future
     const next = future[0];
-    const newFuture = future.slice(1);
-    
-    // Apply the next state to the editor
-    useEditorStore.getState().importState(next.state);
-    
+    const nextState = applyHistoryChanges(state, next.changes, 'redo');
+    restoreState(nextState);
+
     set({
       past: present ? [...past, present] : past,
       present: next,
-      future: newFuture,
+      future: future.slice(1),
+      state: nextState,
     });
   },
-  
+
   canUndo: () => get().past.length > 0,
-  
+
   canRedo: () => get().future.length > 0,
-  
+
   clearHistory: () => set(initialState),
     }),
     {
-      name: 'image-text-composer-history',
-      version: 1,
+      name: HISTORY_STORAGE_NAME,
+      version: HISTORY_VERSION,
+      migrate: (persisted, version) =>
+        (version < HISTORY_VERSION ? upgradeSnapshotHistory(persisted, version) : persisted) as HistoryStore,
+      merge: (persisted, current) => ({ ...current, ...loadHistory(persisted) }),
+      // The size limit comes from the code, not the save
+      partialize: ({ past, present, future, state }): PersistedHistory => ({
+        past,
+        present,
+        future,
+        state,
+        stateVersion: CANVAS_STATE_VERSION,
+      }),
+      // The state is saved once, with only changes per action
+      storage: createIndexedDbStorage(true),
+      // Loaded when a project opens
+      skipHydration: true,
     }
   )
 );
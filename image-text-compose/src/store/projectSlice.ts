@@ -0,0 +1,184 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid';
+import { ProjectSummary } from '../types/project';
+import {
+  copyProjectDocuments,
+  createIndexedDbStorage,
+  deleteProjectDocuments,
+  getProjectKey,
+  moveDocument,
+  setProjectScope,
+} from '../utils/indexedDbStorage';
+import { getUniqueProjectName } from '../utils/projects';
+import { useEditorStore } from './editorSlice';
+import { HISTORY_STORAGE_NAME, useHistoryStore } from './historySlice';
+
+// Each project keeps its autosave under this name and the project ID
+export const AUTOSAVE_DOCUMENT = 'image-text-compose-autosave';
+
+// Every document saved per project, which duplicating and deleting a project cover
+const PROJECT_DOCUMENTS = [AUTOSAVE_DOCUMENT, HISTORY_STORAGE_NAME];
+
+// Saves changes the open editor's autosave timer hasn't saved yet, by project
+const autosaveFlushes = new Map<string, () => Promise<void>>();
+
+/**
+ * Let project actions save the open editor's pending changes before reading its documents
+ * @param projectId The project the editor has open
+ * @param flush Saves any changes still waiting on the autosave timer
+ * @returns A function that removes it
+ */
+export const registerAutosaveFlush = (projectId: string, flush: () => Promise<void>): (() => void) => {
+  autosaveFlushes.set(projectId, flush);
+  return () => {
+    if (autosaveFlushes.get(projectId) === flush) {
+      autosaveFlushes.delete(projectId);
+    }
+  };
+};
+
+interface ProjectState {
+  projects: ProjectSummary[];
+  // The project open in the editor; the library shows while this is null
+  currentProjectId: string | null;
+
+  // Actions
+  createProject: (name?: string) => string;
+  renameProject: (projectId: string, name: string) => void;
+  duplicateProject: (projectId: string) => Promise<string>;
+  deleteProject: (projectId: string) => Promise<void>;
+  updateProjectPreview: (projectId: string, thumbnail: string | null) => void;
+  openProject: (projectId: string) => Promise<void>;
+  closeProject: () => void;
+}
+
+/**
+ * Empty the editor and its history without saving over any project
+ */
+const clearWorkspace = () => {
+  setProjectScope(null);
+  useEditorStore.getState().resetEditor();
+  useHistoryStore.getState().clearHistory();
+};
+
+export const useProjectStore = create<ProjectState>()(
+  persist(
+    (set, get) => ({
+      projects: [],
+      currentProjectId: null,
+
+      createProject: (name) => {
+        const id = nanoid();
+        const now = Date.now();
+        set((state) => ({
+          projects: [
+            ...state.projects,
+            {
+              id,
+              name: name?.trim() || getUniqueProjectName('Untitled project', state.projects),
+              thumbnail: null,
+              createdAt: now,
+              updatedAt: now,
+            },
+          ],
+        }));
+        return id;
+      },
+
+      renameProject: (projectId, name) => {
+        if (!name.trim()) return;
+        set((state) => ({
+          projects: state.projects.map(project =>
+            project.id === projectId ? { ...project, name: name.trim() } : project
+          ),
+        }));
+      },
+
+      duplicateProject: async (projectId) => {
+        const source = get().projects.find(project => project.id === projectId);
+        if (!source) {
+          throw new Error('Project not found');
+        }
+
+        const id = nanoid();
+        await autosaveFlushes.get(projectId)?.();
+        await copyProjectDocuments(PROJECT_DOCUMENTS, projectId, id);
+        const now = Date.now();
+        set((state) => ({
+          projects: [
+            ...state.projects,
+            {
+              ...source,
+              id,
+              name: getUniqueProjectName(`${source.name} copy`, state.projects),
+              createdAt: now,
+              updatedAt: now,
+            },
+          ],
+        }));
+        return id;
+      },
+
+      deleteProject: async (projectId) => {
+        if (get().currentProjectId === projectId) {
+          get().closeProject();
+        }
+        set((state) => ({
+          projects: state.projects.filter(project => project.id !== projectId),
+        }));
+        await deleteProjectDocuments(PROJECT_DOCUMENTS, projectId);
+      },
+
+      updateProjectPreview: (projectId, thumbnail) => {
+        set((state) => ({
+          projects: state.projects.map(project =>
+            project.id === projectId ? { ...project, thumbnail, updatedAt: Date.now() } : project
+          ),
+        }));
+      },
+
+      openProject: async (projectId) => {
+        clearWorkspace();
+        // History is loaded here; the editor restores the autosave when it mounts
+        setProjectScope(projectId);
+        await useHistoryStore.persist.rehydrate();
+        set({ currentProjectId: projectId });
+      },
+
+      closeProject: () => {
+        clearWorkspace();
+        set({ currentProjectId: null });
+      },
+    }),
+    {
+      name: 'image-text-compose-projects',
+      storage: createIndexedDbStorage(),
+      // Every visit starts in the library
+      partialize: (state) => ({ projects: state.projects }),
+      onRehydrateStorage: () => (state) => {
+        if (state && state.projects.length === 0) {
+          adoptSingleComposition();
+        }
+      },
+    }
+  )
+);
+
+/**
+ * Turn the one composition saved before the library existed into its first project
+ */
+const adoptSingleComposition = async () => {
+  const id = nanoid();
+  const hasAutosave = await moveDocument(AUTOSAVE_DOCUMENT, getProjectKey(AUTOSAVE_DOCUMENT, id));
+  if (!hasAutosave) return;
+
+  await moveDocument(HISTORY_STORAGE_NAME, getProjectKey(HISTORY_STORAGE_NAME, id));
+  const now = Date.now();
+  useProjectStore.setState((state) => ({
+    projects: [
+      ...state.projects,
+      { id, name: 'My composition', thumbnail: null, createdAt: now, updatedAt: now },
+    ],
+  }));
+};
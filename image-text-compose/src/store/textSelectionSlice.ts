@@ -0,0 +1,14 @@
+import { create } from 'zustand';
+import { TextRange } from '../types/canvas';
+
+interface TextSelectionStore {
+  // Characters picked in the text field or on the canvas. Kept out of the
+  // editor store so it never lands in history or autosave.
+  range: TextRange | null;
+  setRange: (range: TextRange | null) => void;
+}
+
+export const useTextSelectionStore = create<TextSelectionStore>((set) => ({
+  range: null,
+  setRange: (range) => set({ range }),
+}));
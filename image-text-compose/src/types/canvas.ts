@@ -16,9 +16,16 @@ export interface TextLayerProperties {
   fontFamily: string;
   fontSize: number;
   fontWeight: string | number;
+  fontStyle?: TextFontStyle;
   color: string;
   opacity: number;
-  textAlign: 'left' | 'center' | 'right';
+  textAlign: TextAlign;
+  underline?: boolean;
+  overline?: boolean;
+  linethrough?: boolean;
+  // Changes how the text is displayed; the stored text keeps its own case
+  textTransform?: TextTransform;
+  fontFeatures?: TextFontFeatures;
   top: number;
   left: number;
   width: number;
@@ -29,9 +36,86 @@ export interface TextLayerProperties {
   lineHeight?: number;
   charSpacing?: number;
   shadow?: TextShadow | null;
+  stroke?: TextStroke | null;
+  // Replaces the solid color when set
+  gradient?: TextGradient | null;
+  background?: TextBackground | null;
+  // Lays the text out along a curve instead of in a box
+  textPath?: TextPath | null;
+  // Character ranges styled differently from the rest of the layer
+  spans?: TextSpan[];
+  // Keeps the box at the layer's height instead of growing with the text
+  fixedHeight?: boolean;
+  // Where the text sits in a fixed-height box
+  verticalAlign?: TextVerticalAlign;
+  // Sizes the text to the layer's width and height instead of using fontSize as is;
+  // the box has a fixed height while fitting
+  fitMode?: TextFitMode;
+  // Entrance in animated exports; the editor and still exports show the finished layer
+  animation?: TextAnimation | null;
   locked?: boolean;
 }
 
+export interface ImageLayerProperties {
+  id: string;
+  name: string;
+  src: string;
+  naturalWidth: number;
+  naturalHeight: number;
+  opacity: number;
+  top: number;
+  left: number;
+  angle: number;
+  scaleX: number;
+  scaleY: number;
+  locked?: boolean;
+}
+
+export type ShapeType = 'rect' | 'ellipse' | 'line' | 'arrow';
+
+export interface ShapeLayerProperties {
+  id: string;
+  shapeType: ShapeType;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  cornerRadius: number;
+  opacity: number;
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+  angle: number;
+  scaleX: number;
+  scaleY: number;
+  locked?: boolean;
+}
+
+export type LayerKind = 'text' | 'image' | 'shape';
+
+export interface LayerGroup {
+  id: string;
+  name: string;
+  // Member layer IDs; members are kept next to each other in layerOrder
+  layerIds: string[];
+  opacity: number;
+  locked?: boolean;
+  collapsed?: boolean;
+}
+
+export type LayerEntry =
+  | { kind: 'text'; layer: TextLayerProperties }
+  | { kind: 'image'; layer: ImageLayerProperties }
+  | { kind: 'shape'; layer: ShapeLayerProperties };
+
+export interface LayerTransform {
+  left: number;
+  top: number;
+  angle: number;
+  scaleX: number;
+  scaleY: number;
+}
+
 export interface TextShadow {
   color: string;
   blur: number;
@@ -39,12 +123,146 @@ export interface TextShadow {
   offsetY: number;
 }
 
+// Justify leaves the last line of each paragraph aligned left; justify-all stretches it too
+export type TextAlign = 'left' | 'center' | 'right' | 'justify' | 'justify-all';
+
+export type TextVerticalAlign = 'top' | 'middle' | 'bottom';
+
+export type TextFontStyle = 'normal' | 'italic' | 'oblique';
+
+export type TextTransform = 'none' | 'uppercase' | 'lowercase' | 'title';
+
+// Typography toggles that work with any font. Canvas text can't set OpenType
+// features directly, so each is applied by the layer itself and stylistic
+// sets, which need the font's own feature tables, aren't offered.
+export interface TextFontFeatures {
+  // Off draws each character separately, so none can join
+  ligatures: boolean;
+  // Fonts without small caps get synthesized ones
+  smallCaps: boolean;
+  // Every digit takes the same width, so numbers line up in columns
+  tabularFigures: boolean;
+}
+
+// Style overrides for part of a text layer; unset values follow the layer
+export interface TextSpanStyle {
+  fontFamily?: string;
+  fontSize?: number;
+  fontWeight?: string | number;
+  color?: string;
+  underline?: boolean;
+  linethrough?: boolean;
+}
+
+export interface TextSpan {
+  // Character offsets, counting graphemes and skipping line breaks; end is exclusive
+  start: number;
+  end: number;
+  style: TextSpanStyle;
+}
+
+// Characters selected for span styling in one text layer, in span offsets
+export interface TextRange {
+  layerId: string;
+  start: number;
+  end: number;
+}
+
+// Shrink: fontSize is the largest size used, reduced until the text fits the box.
+// Fill: the text takes the largest size that fits the box.
+export type TextFitMode = 'none' | 'shrink' | 'fill';
+
+// Where the outline sits relative to the glyph edge
+export type TextStrokePosition = 'outside' | 'center' | 'inside';
+
+export interface TextStroke {
+  color: string;
+  width: number;
+  position: TextStrokePosition;
+}
+
+// One box around the whole block, or one per line like a highlighter
+export type TextBackgroundMode = 'block' | 'line';
+
+export interface TextBackground {
+  color: string;
+  opacity: number;
+  paddingX: number;
+  paddingY: number;
+  cornerRadius: number;
+  mode: TextBackgroundMode;
+}
+
+export type TextPathType = 'arc' | 'circle' | 'bezier';
+
+export interface TextPathPoint {
+  x: number;
+  y: number;
+}
+
+export interface TextPath {
+  type: TextPathType;
+  // Arc and circle radius, measured to the text baseline
+  radius: number;
+  // Arc and circle: run the text along the bottom, reading left to right
+  flip: boolean;
+  // Bezier: start, two control points and end, relative to the curve origin
+  points: TextPathPoint[];
+}
+
+export type GradientType = 'linear' | 'radial';
+
+export interface GradientStop {
+  // 0 to 1 along the gradient
+  offset: number;
+  color: string;
+}
+
+export interface TextGradient {
+  type: GradientType;
+  // Direction of a linear gradient in degrees, as in CSS: 90 runs left to right
+  angle: number;
+  stops: GradientStop[];
+}
+
+export type TextAnimationType = 'fade' | 'slide' | 'typewriter' | 'scale';
+
+// Side a sliding layer comes in from
+export type TextAnimationDirection = 'left' | 'right' | 'top' | 'bottom';
+
+// The layer is hidden until start, then animates in over duration; both in seconds
+export interface TextAnimation {
+  type: TextAnimationType;
+  direction: TextAnimationDirection;
+  start: number;
+  duration: number;
+}
+
 export interface CanvasState {
   backgroundImage: BackgroundImage | null;
   textLayers: TextLayerProperties[];
+  imageLayers: ImageLayerProperties[];
+  shapeLayers: ShapeLayerProperties[];
+  groups: LayerGroup[];
+  // Stacking order of every layer id, bottom to top
+  layerOrder: string[];
   selectedLayerIds: string[];
   canvasDimensions: {
     width: number;
     height: number;
   };
 }
+
+// Editor state as saved, tagged with the schema version it was written in
+export interface VersionedCanvasState {
+  version: number;
+  state: CanvasState;
+}
+
+// Result of checking saved state before it is loaded
+export interface CanvasStateValidation {
+  // The usable state, or null if nothing could be recovered
+  state: CanvasState | null;
+  // What was wrong; damaged layers and groups are dropped rather than loaded
+  problems: string[];
+}
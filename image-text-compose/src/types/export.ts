@@ -0,0 +1,136 @@
+import { CanvasState } from './canvas';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'svg' | 'pdf';
+
+// 'image' sizes the page from the image's pixels and the DPI
+export type PdfPageSize = 'image' | 'a4' | 'a3' | 'letter';
+
+// Color profile tagged on PNG and JPEG exports; 'source' keeps the background image's own
+export type ExportColorProfile = 'none' | 'srgb' | 'display-p3' | 'source';
+
+// What part of the composition raster formats export
+export type ExportArea = 'canvas' | 'region' | 'layers';
+
+// A rectangle in canvas coordinates
+export interface ExportRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  area: ExportArea;
+  // Used when area is 'region'
+  region: ExportRegion | null;
+  // 0 to 1, for JPEG and WebP; PNG is lossless and SVG is vector
+  quality: number;
+  // JPEG has no transparency, so transparent areas are flattened onto this color
+  matteColor: string;
+  // PNG only: save the project inside the file so it can be reopened for editing
+  embedProject: boolean;
+  // PNG and JPEG
+  colorProfile: ExportColorProfile;
+  // Sizes the PDF page, and is recorded in PNG and JPEG files for print
+  dpi: number;
+  // PDF only
+  pageSize: PdfPageSize;
+  // In millimetres, on each side of the trimmed page
+  bleed: number;
+  cropMarks: boolean;
+}
+
+// How the composition fills a preset whose shape differs from it
+export type ExportFitMode = 'crop' | 'letterbox' | 'stretch';
+
+export interface ExportPreset {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  format: Exclude<ExportFormat, 'svg' | 'pdf'>;
+  fit: ExportFitMode;
+}
+
+// A project saved inside an exported PNG, so the image can be edited again
+export interface EmbeddedProject {
+  version: number;
+  // Schema version of state; missing in projects embedded before state was versioned
+  stateVersion?: number;
+  state: CanvasState;
+  // Uploaded font families the layers use; they are not embedded themselves
+  customFonts: string[];
+}
+
+export type AnimationFormat = 'gif' | 'webm';
+
+export interface AnimationExportOptions {
+  format: AnimationFormat;
+  // Frames per second
+  fps: number;
+  // Output width in pixels; the height follows the composition
+  width: number;
+  // Seconds the finished composition stays on screen after the last animation
+  hold: number;
+}
+
+export interface ExportProgress {
+  stage: 'rendering' | 'encoding';
+  // Tiles or frames rendered so far, out of the total
+  done: number;
+  total: number;
+}
+
+// Messages to the export worker: one start, a tile at a time, then finish
+export type ExportWorkerRequest =
+  | {
+      type: 'start';
+      width: number;
+      height: number;
+      mimeType: string;
+      quality?: number;
+      matteColor?: string;
+      colorSpace: PredefinedColorSpace;
+    }
+  | { type: 'tile'; bitmap: ImageBitmap; x: number; y: number }
+  | { type: 'finish' };
+
+export type ExportWorkerResponse =
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string };
+
+// A font file sent with a server render, as a data URL
+export interface RenderFont {
+  family: string;
+  data: string;
+}
+
+// What the server render worker needs; fonts are files already written to disk
+export interface RenderWorkerData {
+  state: CanvasState;
+  fonts: { family: string; path: string }[];
+  format: 'png' | 'jpeg';
+  quality?: number;
+  matteColor?: string;
+}
+
+export type RenderWorkerResponse =
+  | { type: 'done'; data: Uint8Array; mimeType: string }
+  | { type: 'error'; message: string };
+
+// A render request as checked by the server, with the state to render
+export type RenderRequestValidation =
+  | { state: CanvasState; error: null }
+  | { state: null; error: string };
+
+// Body of a POST to /api/render
+export interface RenderRequest {
+  project: EmbeddedProject;
+  // Files for the families in project.customFonts; other families fall back to system fonts
+  fonts?: RenderFont[];
+  format?: 'png' | 'jpeg';
+  // 0 to 1, for JPEG
+  quality?: number;
+  matteColor?: string;
+}
@@ -1,9 +1,34 @@
-import { CanvasState } from './canvas';
+import {
+  CanvasState,
+  ImageLayerProperties,
+  ShapeLayerProperties,
+  TextLayerProperties,
+} from './canvas';
+
+export type LayerCollection = 'textLayers' | 'imageLayers' | 'shapeLayers';
+
+export type HistoryLayer = TextLayerProperties | ImageLayerProperties | ShapeLayerProperties;
+
+// One reversible edit, holding only what changed with its values before and after
+export type HistoryChange =
+  // A part of the state replaced whole
+  | { type: 'replace'; key: Exclude<keyof CanvasState, 'selectedLayerIds'>; before: unknown; after: unknown }
+  // A layer added or removed at its place in its list
+  | { type: 'add' | 'remove'; collection: LayerCollection; index: number; layer: HistoryLayer }
+  // Properties of one layer changed; a property missing from a side was unset
+  | {
+      type: 'update';
+      collection: LayerCollection;
+      id: string;
+      before: Record<string, unknown>;
+      after: Record<string, unknown>;
+    };
 
 export type HistoryAction = {
   timestamp: number;
   description: string;
-  state: CanvasState;
+  // What the action changed from the state of the action before it
+  changes: HistoryChange[];
 };
 
 export interface HistoryState {
@@ -11,4 +36,6 @@ export interface HistoryState {
   present: HistoryAction | null;
   future: HistoryAction[];
   maxHistorySize: number;
+  // Editor state as of present; undo and redo apply changes to it
+  state: CanvasState | null;
 }
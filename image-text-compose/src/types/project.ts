@@ -0,0 +1,48 @@
+import { CanvasState } from './canvas';
+import { CustomFont } from './fonts';
+
+// A file stored in a project bundle, referenced from the manifest by its path
+export interface ProjectBundleAsset {
+  path: string;
+  mimeType: string;
+}
+
+export interface ProjectBundleFont {
+  family: string;
+  format: CustomFont['format'];
+  // Missing when the font's file wasn't available to the editor that saved it
+  path: string | null;
+}
+
+// manifest.json at the root of a .itc bundle
+export interface ProjectManifest {
+  format: 'image-text-compose';
+  version: number;
+  savedAt: string;
+  // Schema version of state; missing in bundles saved before state was versioned
+  stateVersion?: number;
+  // Image URLs in the state are bundle paths, listed in assets
+  state: CanvasState;
+  assets: ProjectBundleAsset[];
+  fonts: ProjectBundleFont[];
+}
+
+// A bundle read back, with its assets turned into URLs the editor can load
+export interface OpenedProject {
+  state: CanvasState;
+  fonts: { family: string; file: File }[];
+  // Families the layers use that the bundle has no file for
+  missingFonts: string[];
+  // Damage found in the state; the affected layers were left out
+  problems: string[];
+}
+
+// A composition in the project library; its state and history are saved separately under its ID
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  // Small JPEG data URL of the canvas, null until something has been drawn
+  thumbnail: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -0,0 +1,172 @@
+import { AnimationExportOptions, AnimationFormat, ExportProgress } from '../types/export';
+import { CompositionState, createCompositionCanvas } from './composition';
+import { createGifEncoder, createGifPalette } from './gifEncoder';
+import { createAnimationTimeline, getAnimationsEnd } from './textAnimations';
+
+export const ANIMATION_FORMATS: Record<AnimationFormat, { label: string; mimeType: string; extension: string }> = {
+  gif: { label: 'GIF', mimeType: 'image/gif', extension: 'gif' },
+  webm: { label: 'WebM', mimeType: 'video/webm', extension: 'webm' },
+};
+
+export const ANIMATION_FRAME_RATES = [10, 15, 24, 30];
+
+export const ANIMATION_WIDTHS = [480, 720, 1080];
+
+export const DEFAULT_ANIMATION_EXPORT_OPTIONS: AnimationExportOptions = {
+  format: 'gif',
+  fps: 15,
+  width: 720,
+  hold: 2,
+};
+
+// Codecs to record WebM with, best first
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+interface AnimationExportCallbacks {
+  signal: AbortSignal;
+  onProgress: (progress: ExportProgress) => void;
+}
+
+/**
+ * Get the length of an animated export
+ * @param state Composition with its text layers
+ * @param hold Seconds the finished composition stays on screen
+ * @returns Length in seconds
+ */
+export const getAnimationLength = (state: CompositionState, hold: number): number =>
+  getAnimationsEnd(state.textLayers) + hold;
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) {
+    throw new DOMException('Export cancelled', 'AbortError');
+  }
+};
+
+// Give the page a turn between frames, so it stays responsive and can cancel
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, Math.max(ms, 0)));
+
+/**
+ * Export the composition with its text animations as a looping GIF or a
+ * WebM video. Frames are drawn from a copy of the layers, so the editor is
+ * untouched. WebM is recorded as it plays, so it takes as long as the
+ * animation runs.
+ * @param state Background, layers and canvas size
+ * @param options Format, frame rate, width and hold time
+ * @param callbacks Abort signal to cancel with, and a progress listener
+ * @returns A Promise that resolves with the encoded animation
+ */
+export const exportAnimation = async (
+  state: CompositionState,
+  options: AnimationExportOptions,
+  { signal, onProgress }: AnimationExportCallbacks
+): Promise<Blob> => {
+  const canvas = await createCompositionCanvas(state, '#ffffff');
+  try {
+    const poseAt = createAnimationTimeline(canvas, state.textLayers);
+    const multiplier = options.width / canvas.getWidth();
+    const width = Math.round(canvas.getWidth() * multiplier);
+    // Video encoders need even dimensions
+    const height = Math.round(canvas.getHeight() * multiplier / 2) * 2;
+    const total = Math.max(1, Math.round(getAnimationLength(state, options.hold) * options.fps));
+
+    const renderFrame = (frame: number) => {
+      poseAt(frame / options.fps);
+      const rendered = canvas.toCanvasElement(multiplier);
+      const output = document.createElement('canvas');
+      output.width = width;
+      output.height = height;
+      const ctx = output.getContext('2d');
+      if (!ctx) {
+        throw new Error('Failed to prepare the export canvas');
+      }
+      ctx.drawImage(rendered, 0, 0, width, height);
+      return { output, ctx };
+    };
+
+    return options.format === 'gif'
+      ? await encodeGif(renderFrame, total, options, { signal, onProgress })
+      : await recordWebm(renderFrame, total, options, { signal, onProgress });
+  } finally {
+    canvas.dispose();
+  }
+};
+
+type FrameRenderer = (frame: number) => { output: HTMLCanvasElement; ctx: CanvasRenderingContext2D };
+
+const encodeGif = async (
+  renderFrame: FrameRenderer,
+  total: number,
+  options: AnimationExportOptions,
+  { signal, onProgress }: AnimationExportCallbacks
+): Promise<Blob> => {
+  // Every layer shows in the last frame, so its colors make the palette
+  const last = renderFrame(total - 1);
+  const { width, height } = last.output;
+  const encoder = createGifEncoder(width, height, createGifPalette(last.ctx.getImageData(0, 0, width, height).data));
+
+  for (let frame = 0; frame < total; frame++) {
+    throwIfAborted(signal);
+    onProgress({ stage: 'rendering', done: frame, total });
+    await nextTask();
+
+    const { ctx } = renderFrame(frame);
+    // Delays are whole hundredths of a second; rounding the running time keeps the rate exact
+    const delay = Math.round(((frame + 1) * 100) / options.fps) - Math.round((frame * 100) / options.fps);
+    encoder.addFrame(ctx.getImageData(0, 0, width, height).data, delay);
+  }
+
+  onProgress({ stage: 'encoding', done: total, total });
+  return encoder.finish();
+};
+
+const recordWebm = async (
+  renderFrame: FrameRenderer,
+  total: number,
+  options: AnimationExportOptions,
+  { signal, onProgress }: AnimationExportCallbacks
+): Promise<Blob> => {
+  const mimeType = typeof MediaRecorder !== 'undefined'
+    ? WEBM_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+    : undefined;
+  if (!mimeType) {
+    throw new Error('This browser cannot record WebM video; try GIF instead');
+  }
+
+  const first = renderFrame(0);
+  const video = first.output;
+  const videoCtx = first.ctx;
+  // Frames are pushed by hand rather than sampled on a timer
+  const stream = video.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  const stopped = new Promise(resolve => {
+    recorder.onstop = resolve;
+  });
+
+  recorder.start();
+  const startedAt = performance.now();
+  try {
+    for (let frame = 0; frame < total; frame++) {
+      throwIfAborted(signal);
+      onProgress({ stage: 'rendering', done: frame, total });
+
+      if (frame > 0) {
+        videoCtx.drawImage(renderFrame(frame).output, 0, 0);
+      }
+      track.requestFrame();
+      // The recorder timestamps frames as they arrive, so they are paced in real time
+      await wait(startedAt + ((frame + 1) * 1000) / options.fps - performance.now());
+    }
+  } finally {
+    recorder.stop();
+    track.stop();
+    await stopped;
+  }
+
+  onProgress({ stage: 'encoding', done: total, total });
+  return new Blob(chunks, { type: ANIMATION_FORMATS.webm.mimeType });
+};
@@ -0,0 +1,301 @@
+import { ExportColorProfile, ExportFormat } from '../types/export';
+import { addJpegColorMetadata, readJpegIccProfile } from './jpegMetadata';
+import { addPngColorMetadata, readPngIccProfile } from './pngMetadata';
+
+type Colorants = [number, number, number][];
+
+// Formats that can record a DPI and color profile
+export const COLOR_METADATA_FORMATS: ExportFormat[] = ['png', 'jpeg'];
+
+export const EXPORT_COLOR_PROFILES: Record<ExportColorProfile, string> = {
+  srgb: 'sRGB',
+  'display-p3': 'Display P3',
+  source: 'Match Source Image',
+  none: 'None',
+};
+
+// A color profile to tag an export with, and the color space its pixels must be in
+export interface ResolvedColorProfile {
+  colorSpace: PredefinedColorSpace;
+  profile: Uint8Array<ArrayBuffer> | null;
+  // Set when the source image's profile could not be kept
+  notice?: string;
+}
+
+// Red, green and blue primaries adapted to the D50 white of the profile connection space
+const COLORANTS: Record<PredefinedColorSpace, Colorants> = {
+  srgb: [
+    [0.436066, 0.222488, 0.013916],
+    [0.385147, 0.716873, 0.097076],
+    [0.143066, 0.060608, 0.714096],
+  ],
+  'display-p3': [
+    [0.515121, 0.241196, -0.001053],
+    [0.291977, 0.692245, 0.041885],
+    [0.157104, 0.066574, 0.784073],
+  ],
+};
+
+const PROFILE_DESCRIPTIONS: Record<PredefinedColorSpace, string> = {
+  srgb: 'sRGB',
+  'display-p3': 'Display P3',
+};
+
+const D50_WHITE = [0.9642, 1, 0.8249];
+
+// Bradford adaptation from the D65 white both spaces use to D50
+const D65_TO_D50 = [
+  1.047882, 0.022919, -0.050201,
+  0.029587, 0.990479, -0.017059,
+  -0.009232, 0.015076, 0.751678,
+];
+
+// Parameters of the sRGB transfer curve, which Display P3 shares
+const SRGB_CURVE = [2.4, 1 / 1.055, 0.055 / 1.055, 1 / 12.92, 0.04045];
+
+// Primaries of another profile this close to ours describe the same color space
+const COLORANT_TOLERANCE = 0.01;
+
+const profileCache = new Map<PredefinedColorSpace, Uint8Array<ArrayBuffer>>();
+const colorSpaceSupport = new Map<PredefinedColorSpace, boolean>();
+
+const ascii = (text: string): number[] => Array.from(text, char => char.charCodeAt(0));
+
+const fixed16 = (value: number): number[] => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, Math.round(value * 65536));
+  return Array.from(bytes);
+};
+
+const uint32 = (value: number): number[] => [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+
+const xyzTag = (values: number[]): number[] => [...ascii('XYZ '), 0, 0, 0, 0, ...values.flatMap(fixed16)];
+
+// Localized text with a single US English entry
+const textTag = (text: string): number[] => {
+  const utf16 = Array.from(text).flatMap(char => [0, char.charCodeAt(0)]);
+  return [...ascii('mluc'), 0, 0, 0, 0, ...uint32(1), ...uint32(12), ...ascii('enUS'), ...uint32(utf16.length), ...uint32(28), ...utf16];
+};
+
+/**
+ * Build a compact ICC v4 display profile for a color space, the same
+ * matrix-and-curve form browsers and operating systems ship
+ * @param colorSpace sRGB or Display P3
+ * @returns The profile bytes
+ */
+export const getIccProfile = (colorSpace: PredefinedColorSpace): Uint8Array<ArrayBuffer> => {
+  const cached = profileCache.get(colorSpace);
+  if (cached) return cached;
+
+  const [red, green, blue] = COLORANTS[colorSpace];
+  const curve = [...ascii('para'), 0, 0, 0, 0, 0, 3, 0, 0, ...SRGB_CURVE.flatMap(fixed16)];
+  const tags: [string, number[]][] = [
+    ['desc', textTag(PROFILE_DESCRIPTIONS[colorSpace])],
+    ['cprt', textTag('No copyright, use freely')],
+    ['wtpt', xyzTag(D50_WHITE)],
+    ['chad', [...ascii('sf32'), 0, 0, 0, 0, ...D65_TO_D50.flatMap(fixed16)]],
+    ['rXYZ', xyzTag(red)],
+    ['gXYZ', xyzTag(green)],
+    ['bXYZ', xyzTag(blue)],
+    ['rTRC', curve],
+    ['gTRC', curve],
+    ['bTRC', curve],
+  ];
+
+  // Tag data follows the 128-byte header and the tag table, each entry 4-byte aligned
+  let offset = 128 + 4 + tags.length * 12;
+  const table: number[] = [...uint32(tags.length)];
+  const data: number[] = [];
+  tags.forEach(([signature, bytes]) => {
+    table.push(...ascii(signature), ...uint32(offset), ...uint32(bytes.length));
+    const padded = [...bytes, ...new Array((4 - (bytes.length % 4)) % 4).fill(0)];
+    data.push(...padded);
+    offset += padded.length;
+  });
+
+  const header = new Array(128).fill(0);
+  const set = (position: number, bytes: number[]) => header.splice(position, bytes.length, ...bytes);
+  set(0, uint32(offset));
+  set(8, [4, 0x30, 0, 0]);
+  set(12, ascii('mntrRGB XYZ '));
+  set(24, [0x07, 0xe8, 0, 1, 0, 1, 0, 0, 0, 0, 0, 0]);
+  set(36, ascii('acsp'));
+  set(68, D50_WHITE.flatMap(fixed16));
+
+  const profile = new Uint8Array([...header, ...table, ...data]);
+  profileCache.set(colorSpace, profile);
+  return profile;
+};
+
+/**
+ * Read the primaries of a matrix-based RGB profile
+ * @param profile ICC profile bytes
+ * @returns Red, green and blue colorants, or null for other kinds of profile
+ */
+const readColorants = (profile: Uint8Array): Colorants | null => {
+  if (profile.length < 132) return null;
+
+  const view = new DataView(profile.buffer, profile.byteOffset, profile.byteLength);
+  const signature = (position: number) => String.fromCharCode(...profile.subarray(position, position + 4));
+  if (signature(36) !== 'acsp' || signature(16) !== 'RGB ') return null;
+
+  const tagCount = view.getUint32(128);
+  const colorants: Partial<Record<string, [number, number, number]>> = {};
+  for (let i = 0; i < tagCount && 132 + i * 12 + 12 <= profile.length; i++) {
+    const entry = 132 + i * 12;
+    const tagOffset = view.getUint32(entry + 4);
+    if (tagOffset + 20 > profile.length || signature(tagOffset) !== 'XYZ ') continue;
+
+    colorants[signature(entry)] = [0, 1, 2].map(j => view.getInt32(tagOffset + 8 + j * 4) / 65536) as [number, number, number];
+  }
+
+  const { rXYZ, gXYZ, bXYZ } = colorants;
+  return rXYZ && gXYZ && bXYZ ? [rXYZ, gXYZ, bXYZ] : null;
+};
+
+/**
+ * Work out which of the color spaces a canvas can draw in a profile describes
+ * @param profile ICC profile bytes
+ * @returns sRGB or Display P3, or null for any other profile
+ */
+export const getProfileColorSpace = (profile: Uint8Array): PredefinedColorSpace | null => {
+  const colorants = readColorants(profile);
+  if (!colorants) return null;
+
+  const matches = (colorSpace: PredefinedColorSpace) => COLORANTS[colorSpace].every((expected, i) =>
+    expected.every((value, j) => Math.abs(value - colorants[i][j]) <= COLORANT_TOLERANCE)
+  );
+  if (matches('srgb')) return 'srgb';
+  if (matches('display-p3')) return 'display-p3';
+  return null;
+};
+
+/**
+ * Read the ICC profile embedded in a PNG, JPEG or WebP image
+ * @param image The image file
+ * @returns The profile, or null if the image has none
+ */
+export const readIccProfile = async (image: Blob): Promise<Uint8Array<ArrayBuffer> | null> => {
+  const bytes = new Uint8Array(await image.arrayBuffer());
+
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) {
+    return readPngIccProfile(bytes);
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return readJpegIccProfile(bytes);
+  }
+  if (String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF' && String.fromCharCode(...bytes.subarray(8, 12)) === 'WEBP') {
+    // WebP keeps the profile whole in an ICCP chunk
+    const view = new DataView(bytes.buffer);
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+      const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+      const size = view.getUint32(offset + 4, true);
+      if (type === 'ICCP') {
+        return bytes.slice(offset + 8, offset + 8 + size);
+      }
+      offset += 8 + size + (size % 2);
+    }
+  }
+  return null;
+};
+
+/**
+ * Check whether this browser can draw a canvas in a color space
+ * @param colorSpace The color space to test
+ * @returns True if canvases honor it
+ */
+export const canRenderInColorSpace = (colorSpace: PredefinedColorSpace): boolean => {
+  if (colorSpace === 'srgb') return true;
+
+  let isSupported = colorSpaceSupport.get(colorSpace);
+  if (isSupported === undefined) {
+    const ctx = document.createElement('canvas').getContext('2d', { colorSpace });
+    isSupported = ctx?.getContextAttributes().colorSpace === colorSpace;
+    colorSpaceSupport.set(colorSpace, isSupported);
+  }
+  return isSupported;
+};
+
+/**
+ * Decide which profile an export carries. The source image's profile is
+ * kept when its pixels can be reproduced, meaning it describes sRGB or
+ * Display P3; other profiles fall back to sRGB.
+ * @param option The chosen profile option
+ * @param sourceProfile The profile embedded in the background image, if any
+ * @returns The profile to embed and the color space to encode in
+ */
+export const resolveColorProfile = (
+  option: ExportColorProfile,
+  sourceProfile: Uint8Array<ArrayBuffer> | null
+): ResolvedColorProfile => {
+  if (option === 'none') {
+    return { colorSpace: 'srgb', profile: null };
+  }
+  if (option === 'srgb' || option === 'display-p3') {
+    if (!canRenderInColorSpace(option)) {
+      throw new Error(`This browser cannot export ${EXPORT_COLOR_PROFILES[option]} images`);
+    }
+    return { colorSpace: option, profile: getIccProfile(option) };
+  }
+
+  if (!sourceProfile) {
+    return {
+      colorSpace: 'srgb',
+      profile: getIccProfile('srgb'),
+      notice: 'The background image has no color profile, so sRGB is used.',
+    };
+  }
+  const colorSpace = getProfileColorSpace(sourceProfile);
+  if (!colorSpace || !canRenderInColorSpace(colorSpace)) {
+    return {
+      colorSpace: 'srgb',
+      profile: getIccProfile('srgb'),
+      notice: "The background image's color profile cannot be reproduced here, so colors are converted to sRGB.",
+    };
+  }
+  return { colorSpace, profile: sourceProfile };
+};
+
+/**
+ * Redraw a render in another color space; the browser converts the colors
+ * @param element A render in sRGB
+ * @param colorSpace The color space to convert to
+ * @returns A canvas in that color space, or the original for sRGB
+ */
+export const convertToColorSpace = (element: HTMLCanvasElement, colorSpace: PredefinedColorSpace): HTMLCanvasElement => {
+  if (colorSpace === 'srgb') return element;
+
+  const output = document.createElement('canvas');
+  output.width = element.width;
+  output.height = element.height;
+  const ctx = output.getContext('2d', { colorSpace });
+  if (!ctx) {
+    throw new Error('Failed to prepare the export canvas');
+  }
+  ctx.drawImage(element, 0, 0);
+  return output;
+};
+
+/**
+ * Record the DPI and color profile in an encoded PNG or JPEG. Other
+ * formats are returned unchanged.
+ * @param blob The encoded image
+ * @param format Its format
+ * @param dpi Resolution for print
+ * @param profile ICC profile to embed, or null to leave the image untagged
+ * @returns The image with its metadata set
+ */
+export const addColorMetadata = (
+  blob: Blob,
+  format: ExportFormat,
+  dpi: number,
+  profile: Uint8Array<ArrayBuffer> | null
+): Promise<Blob> => {
+  if (format === 'png') {
+    return addPngColorMetadata(blob, dpi, profile);
+  }
+  if (format === 'jpeg') {
+    return addJpegColorMetadata(blob, dpi, profile);
+  }
+  return Promise.resolve(blob);
+};
@@ -0,0 +1,64 @@
+import * as fabric from 'fabric';
+import { CanvasState } from '../types/canvas';
+import { resolveLayerForRender } from './groups';
+import { createImageObjectFromLayer } from './imageLayers';
+import { getOrderedLayers } from './layers';
+import { createShapeObjectFromLayer } from './shapeLayers';
+import { createTextObjectFromLayer } from './textLayers';
+
+export type CompositionState = Pick<
+  CanvasState,
+  'backgroundImage' | 'textLayers' | 'imageLayers' | 'shapeLayers' | 'groups' | 'layerOrder' | 'canvasDimensions'
+>;
+
+/**
+ * Build a canvas holding the composition, away from the editor, for
+ * rendering on the server or frame by frame. Layers are created by the
+ * same code the editor uses, so they lay out identically.
+ * @param state Background, layers and canvas size
+ * @param backgroundColor Color behind the background image, for formats without transparency
+ * @returns A static canvas at the editor's canvas size; dispose it when done
+ */
+export const createCompositionCanvas = async (
+  state: CompositionState,
+  backgroundColor?: string
+): Promise<fabric.StaticCanvas> => {
+  const { backgroundImage } = state;
+  if (!backgroundImage) {
+    throw new Error('Background image with dimensions is required for export');
+  }
+
+  const { width, height } = state.canvasDimensions;
+  const canvas = new fabric.StaticCanvas(undefined, {
+    width,
+    height,
+    backgroundColor,
+    renderOnAddRemove: false,
+  });
+
+  try {
+    const background = await fabric.FabricImage.fromURL(backgroundImage.url, { crossOrigin: 'anonymous' });
+    background.set({
+      scaleX: width / (background.width || 1),
+      scaleY: height / (background.height || 1),
+      left: 0,
+      top: 0,
+    });
+    canvas.add(background);
+
+    // Adding in stacking order means no restacking afterwards
+    for (const entry of getOrderedLayers(state)) {
+      if (entry.kind === 'text') {
+        canvas.add(createTextObjectFromLayer(resolveLayerForRender(entry.layer, state.groups)));
+      } else if (entry.kind === 'image') {
+        canvas.add(await createImageObjectFromLayer(resolveLayerForRender(entry.layer, state.groups)));
+      } else {
+        canvas.add(createShapeObjectFromLayer(resolveLayerForRender(entry.layer, state.groups)));
+      }
+    }
+  } catch (error) {
+    canvas.dispose();
+    throw error;
+  }
+  return canvas;
+};
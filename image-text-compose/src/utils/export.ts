@@ -1,90 +1,101 @@
 import type { Canvas as FabricCanvas } from 'fabric/fabric-impl';
 import { BackgroundImage } from '../types/canvas';
+import * as fabric from 'fabric';
+import {
+  ExportFitMode,
+  ExportFormat,
+  ExportOptions,
+  ExportPreset,
+  ExportRegion,
+} from '../types/export';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mimeType: string; extension: string }> = {
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png' },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg' },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp' },
+  svg: { label: 'SVG', mimeType: 'image/svg+xml', extension: 'svg' },
+  pdf: { label: 'PDF', mimeType: 'application/pdf', extension: 'pdf' },
+};
+
+// Above this many output pixels, raster exports render in tiles off the main thread
+export const LARGE_EXPORT_PIXELS = 16_000_000;
+
+// Formats that can export part of the composition
+export const RASTER_EXPORT_FORMATS: ExportFormat[] = ['png', 'jpeg', 'webp'];
+
+// Room around layers for shadows, outlines and background boxes before trimming
+const LAYER_EXPORT_PADDING = 20;
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  area: 'canvas',
+  region: null,
+  quality: 0.9,
+  matteColor: '#ffffff',
+  // Off by default, since the embedded project holds another copy of the background
+  embedProject: false,
+  colorProfile: 'srgb',
+  dpi: 300,
+  pageSize: 'image',
+  bleed: 0,
+  cropMarks: false,
+};
+
+export const EXPORT_FIT_MODES: Record<ExportFitMode, string> = {
+  crop: 'Crop',
+  letterbox: 'Letterbox',
+  stretch: 'Stretch',
+};
+
+export const BUILT_IN_EXPORT_PRESETS: ExportPreset[] = [
+  { id: 'instagram-square', name: 'Instagram Square', width: 1080, height: 1080, format: 'jpeg', fit: 'crop' },
+  { id: 'instagram-portrait', name: 'Instagram Portrait', width: 1080, height: 1350, format: 'jpeg', fit: 'crop' },
+  { id: 'instagram-story', name: 'Instagram Story', width: 1080, height: 1920, format: 'jpeg', fit: 'crop' },
+  { id: 'twitter-card', name: 'Twitter Card', width: 1200, height: 628, format: 'jpeg', fit: 'crop' },
+  { id: 'opengraph', name: 'OpenGraph', width: 1200, height: 630, format: 'jpeg', fit: 'crop' },
+  { id: 'facebook-cover', name: 'Facebook Cover', width: 1640, height: 624, format: 'jpeg', fit: 'crop' },
+];
 
 /**
- * Export the canvas to a PNG with the original image dimensions
+ * Work out the scale that exports the canvas at the original image dimensions
  * @param canvas The Fabric.js canvas instance
  * @param backgroundImage The background image information
- * @returns A Promise that resolves with the data URL of the exported PNG
+ * @returns Multiplier from canvas pixels to export pixels
  */
-export const exportToPng = (
-  canvas: FabricCanvas,
-  backgroundImage: BackgroundImage
-): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    try {
-      // Validate inputs
-      if (!canvas) {
-        throw new Error('Canvas is required for export');
-      }
-      
-      if (!backgroundImage || !backgroundImage.dimensions) {
-        throw new Error('Background image with dimensions is required for export');
-      }
+export const getExportMultiplier = (canvas: FabricCanvas, backgroundImage: BackgroundImage): number => {
+  // Validate inputs
+  if (!canvas) {
+    throw new Error('Canvas is required for export');
+  }
+  
+  if (!backgroundImage || !backgroundImage.dimensions) {
+    throw new Error('Background image with dimensions is required for export');
+  }
 
-      // Get the original image dimensions for scaling
-      const imgWidth = backgroundImage.dimensions.width;
-      const imgHeight = backgroundImage.dimensions.height;
-      const canvasWidth = canvas.getWidth();
-      const canvasHeight = canvas.getHeight();
-      
-      // Validate dimensions
-      if (!imgWidth || !imgHeight || imgWidth <= 0 || imgHeight <= 0) {
-        throw new Error('Invalid background image dimensions');
-      }
-      
-      if (!canvasWidth || !canvasHeight || canvasWidth <= 0 || canvasHeight <= 0) {
-        throw new Error('Invalid canvas dimensions');
-      }
-      
-      // Calculate multiplier to export at original image resolution
-      const multiplier = Math.max(imgWidth / canvasWidth, imgHeight / canvasHeight);
-      
-      // Validate multiplier
-      if (!isFinite(multiplier) || multiplier <= 0) {
-        throw new Error('Invalid export multiplier calculated');
-      }
-      
-      // Warn about very large exports
-      const exportWidth = canvasWidth * multiplier;
-      const exportHeight = canvasHeight * multiplier;
-      const maxDimension = 8000; // Reasonable limit
-      
-      if (exportWidth > maxDimension || exportHeight > maxDimension) {
-        console.warn(`Large export detected: ${exportWidth}x${exportHeight}. This may take a while or fail.`);
-      }
-      
-      // Export the canvas directly at higher resolution
-      const dataUrl = canvas.toDataURL({
-        format: 'png',
-        quality: 1,
-        multiplier: multiplier,
-        left: 0,
-        top: 0,
-        width: canvasWidth,
-        height: canvasHeight,
-      });
-      
-      // Validate the export result
-      if (!dataUrl || !dataUrl.startsWith('data:image/png;base64,')) {
-        throw new Error('Failed to generate valid PNG data URL');
-      }
-      
-
-      
-      resolve(dataUrl);
-    } catch (error) {
-      console.error('Export failed:', error);
-      
-      // Create a more descriptive error message
-      let errorMessage = 'Failed to export image';
-      if (error instanceof Error) {
-        errorMessage = error.message;
-      }
-      
-      reject(new Error(errorMessage));
-    }
-  });
+  // Get the original image dimensions for scaling
+  const imgWidth = backgroundImage.dimensions.width;
+  const imgHeight = backgroundImage.dimensions.height;
+  const canvasWidth = canvas.getWidth();
+  const canvasHeight = canvas.getHeight();
+  
+  // Validate dimensions
+  if (!imgWidth || !imgHeight || imgWidth <= 0 || imgHeight <= 0) {
+    throw new Error('Invalid background image dimensions');
+  }
+  
+  if (!canvasWidth || !canvasHeight || canvasWidth <= 0 || canvasHeight <= 0) {
+    throw new Error('Invalid canvas dimensions');
+  }
+  
+  // Calculate multiplier to export at original image resolution
+  const multiplier = Math.max(imgWidth / canvasWidth, imgHeight / canvasHeight);
+  
+  // Validate multiplier
+  if (!isFinite(multiplier) || multiplier <= 0) {
+    throw new Error('Invalid export multiplier calculated');
+  }
+
+  return multiplier;
 };
 
 /**
@@ -100,3 +111,283 @@ export const downloadPng = (dataUrl: string, filename: string = 'image-text-comp
   link.click();
   document.body.removeChild(link);
 };
+
+/**
+ * Render the canvas at the original image resolution, ready for encoding
+ * @param canvas The Fabric.js canvas instance
+ * @param backgroundImage The background image information
+ * @returns A canvas element holding the full-resolution render
+ */
+export const renderExportCanvas = (
+  canvas: FabricCanvas,
+  backgroundImage: BackgroundImage
+): HTMLCanvasElement => {
+  const multiplier = getExportMultiplier(canvas, backgroundImage);
+  return canvas.toCanvasElement(multiplier, {
+    left: 0,
+    top: 0,
+    width: canvas.getWidth(),
+    height: canvas.getHeight(),
+  });
+};
+
+/**
+ * Render one rectangle of the canvas, background included, at the original
+ * image resolution
+ * @param canvas The Fabric.js canvas instance
+ * @param backgroundImage The background image information
+ * @param region The rectangle to export, in canvas coordinates
+ * @returns A canvas element holding the region
+ */
+export const renderRegionCanvas = (
+  canvas: FabricCanvas,
+  backgroundImage: BackgroundImage,
+  region: ExportRegion
+): HTMLCanvasElement => {
+  if (region.width < 1 || region.height < 1) {
+    throw new Error('Draw a region to export');
+  }
+
+  const multiplier = getExportMultiplier(canvas, backgroundImage);
+  return canvas.toCanvasElement(multiplier, region);
+};
+
+/**
+ * Crop away fully transparent rows and columns around an image
+ * @param element The image to trim
+ * @returns A new canvas element, or the original if nothing can be trimmed
+ */
+export const trimTransparentEdges = (element: HTMLCanvasElement): HTMLCanvasElement => {
+  const ctx = element.getContext('2d');
+  if (!ctx) return element;
+
+  const { width, height } = element;
+  const { data } = ctx.getImageData(0, 0, width, height);
+  let top = height;
+  let bottom = -1;
+  let left = width;
+  let right = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] !== 0) {
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y);
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+      }
+    }
+  }
+
+  if (bottom < 0) {
+    throw new Error('The selected layers have nothing visible to export');
+  }
+  if (left === 0 && top === 0 && right === width - 1 && bottom === height - 1) {
+    return element;
+  }
+
+  const trimmed = document.createElement('canvas');
+  trimmed.width = right - left + 1;
+  trimmed.height = bottom - top + 1;
+  trimmed.getContext('2d')?.drawImage(element, -left, -top);
+  return trimmed;
+};
+
+/**
+ * Render only some layers, on a transparent background and trimmed to what
+ * they draw, at the original image resolution
+ * @param canvas The Fabric.js canvas instance
+ * @param backgroundImage The background image information
+ * @param layerIds Layers to include
+ * @returns A canvas element holding the layers
+ */
+export const renderLayersCanvas = (
+  canvas: FabricCanvas,
+  backgroundImage: BackgroundImage,
+  layerIds: string[]
+): HTMLCanvasElement => {
+  const multiplier = getExportMultiplier(canvas, backgroundImage);
+  const objects = (canvas as unknown as fabric.Canvas).getObjects();
+  // The background image has no layer ID, so it is hidden with the other layers
+  // TODO: Use module augmentation to extend fabric.Object with layerId property
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const included = objects.filter(obj => layerIds.includes((obj as any).layerId) && obj.visible);
+  if (included.length === 0) {
+    throw new Error('Select the layers to export');
+  }
+
+  const bounds = included.reduce((union, obj) => {
+    const rect = obj.getBoundingRect();
+    const shadow = obj.shadow;
+    const reach = shadow
+      ? (shadow.blur + Math.max(Math.abs(shadow.offsetX), Math.abs(shadow.offsetY))) * Math.max(obj.scaleX, obj.scaleY)
+      : 0;
+    return {
+      left: Math.min(union.left, rect.left - reach),
+      top: Math.min(union.top, rect.top - reach),
+      right: Math.max(union.right, rect.left + rect.width + reach),
+      bottom: Math.max(union.bottom, rect.top + rect.height + reach),
+    };
+  }, { left: Infinity, top: Infinity, right: -Infinity, bottom: -Infinity });
+
+  // Hide everything else just for this render; Fabric.js draws synchronously
+  const hidden = objects.filter(obj => obj.visible && !included.includes(obj));
+  hidden.forEach(obj => { obj.visible = false; });
+  try {
+    const rendered = canvas.toCanvasElement(multiplier, {
+      left: bounds.left - LAYER_EXPORT_PADDING,
+      top: bounds.top - LAYER_EXPORT_PADDING,
+      width: bounds.right - bounds.left + LAYER_EXPORT_PADDING * 2,
+      height: bounds.bottom - bounds.top + LAYER_EXPORT_PADDING * 2,
+    });
+    return trimTransparentEdges(rendered);
+  } finally {
+    hidden.forEach(obj => { obj.visible = true; });
+  }
+};
+
+/**
+ * Render the canvas at a preset's size. Crop fills the preset and trims
+ * the overflow evenly, letterbox fits the whole composition and fills the
+ * bars with the matte color, and stretch distorts it to fill.
+ * @param canvas The Fabric.js canvas instance
+ * @param preset Output size and fit mode
+ * @param matteColor Color of letterbox bars
+ * @returns A canvas element of exactly the preset's size
+ */
+export const renderPresetCanvas = (
+  canvas: FabricCanvas,
+  preset: ExportPreset,
+  matteColor: string
+): HTMLCanvasElement => {
+  const canvasWidth = canvas.getWidth();
+  const canvasHeight = canvas.getHeight();
+  if (!canvasWidth || !canvasHeight || preset.width <= 0 || preset.height <= 0) {
+    throw new Error('Invalid export dimensions');
+  }
+
+  // Render from the layers at the output size, so text stays sharp
+  const scaleX = preset.width / canvasWidth;
+  const scaleY = preset.height / canvasHeight;
+  const multiplier = preset.fit === 'letterbox' ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+
+  const source = { left: 0, top: 0, width: canvasWidth, height: canvasHeight };
+  if (preset.fit === 'crop') {
+    source.width = preset.width / multiplier;
+    source.height = preset.height / multiplier;
+    source.left = (canvasWidth - source.width) / 2;
+    source.top = (canvasHeight - source.height) / 2;
+  }
+  const rendered = canvas.toCanvasElement(multiplier, source);
+
+  const output = document.createElement('canvas');
+  output.width = preset.width;
+  output.height = preset.height;
+  const ctx = output.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to prepare export canvas');
+  }
+
+  if (preset.fit === 'letterbox') {
+    const width = canvasWidth * multiplier;
+    const height = canvasHeight * multiplier;
+    ctx.fillStyle = matteColor;
+    ctx.fillRect(0, 0, output.width, output.height);
+    ctx.drawImage(rendered, (output.width - width) / 2, (output.height - height) / 2, width, height);
+  } else {
+    ctx.drawImage(rendered, 0, 0, output.width, output.height);
+  }
+  return output;
+};
+
+/**
+ * Encode a rendered export in the chosen format. JPEG is flattened onto
+ * the matte color first, since it cannot store transparency.
+ * @param element The full-resolution render
+ * @param options Format, quality and matte color
+ * @returns A Promise that resolves with the encoded image
+ */
+export const encodeExportCanvas = (
+  element: HTMLCanvasElement,
+  options: ExportOptions
+): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    let source = element;
+    
+    if (options.format === 'jpeg') {
+      source = document.createElement('canvas');
+      source.width = element.width;
+      source.height = element.height;
+      // Keep the render's color space, so converted colors survive flattening
+      const colorSpace = element.getContext('2d')?.getContextAttributes().colorSpace;
+      const ctx = source.getContext('2d', { colorSpace });
+      if (!ctx) {
+        reject(new Error('Failed to prepare JPEG export'));
+        return;
+      }
+      ctx.fillStyle = options.matteColor;
+      ctx.fillRect(0, 0, source.width, source.height);
+      ctx.drawImage(element, 0, 0);
+    }
+    
+    const { mimeType, label } = EXPORT_FORMATS[options.format];
+    source.toBlob(
+      (blob) => {
+        // Browsers fall back to PNG for formats they cannot encode
+        if (!blob || blob.type !== mimeType) {
+          reject(new Error(`This browser cannot export ${label} images`));
+          return;
+        }
+        resolve(blob);
+      },
+      mimeType,
+      options.format === 'png' ? undefined : options.quality
+    );
+  });
+};
+
+/**
+ * Trigger a download of an exported image
+ * @param blob The encoded image
+ * @param filename The filename to use for the download
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  downloadPng(url, filename);
+  // Give the download a moment to start before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Build a file name for an export from a preset
+ * @param preset The preset exported
+ * @returns A name such as "instagram-square-1080x1080.jpg"
+ */
+export const getPresetFileName = (preset: ExportPreset): string => {
+  const slug = preset.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
+  return `${slug}-${preset.width}x${preset.height}.${EXPORT_FORMATS[preset.format].extension}`;
+};
+
+/**
+ * Read a blob as a data URL
+ * @param blob The data to read
+ * @returns A Promise that resolves with the data URL
+ */
+export const readBlobAsDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read data'));
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Format a byte count for display
+ * @param bytes Size in bytes
+ * @returns A short human-readable size such as "1.4 MB"
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -1,3 +1,4 @@
+import { TextLayerProperties } from '@/types/canvas';
 import { CustomFont, FontLoadResult } from '@/types/fonts';
 
 /**
@@ -87,6 +88,16 @@ export const extractFontFamilyName = (fileName: string): string => {
     .join(' ');
 };
 
+/**
+ * Collect the font families text layers use, including styled ranges
+ */
+export const getUsedFontFamilies = (textLayers: TextLayerProperties[]): Set<string> => {
+  return new Set(textLayers.flatMap(layer => [
+    layer.fontFamily,
+    ...(layer.spans || []).map(span => span.style.fontFamily),
+  ]).filter((family): family is string => !!family));
+};
+
 /**
  * Load a custom font into the browser
  */
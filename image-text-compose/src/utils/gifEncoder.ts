@@ -0,0 +1,263 @@
+// GIF codes are at most 12 bits
+const MAX_CODE = 4096;
+const PALETTE_SIZE = 256;
+// Colors sampled when choosing the palette
+const MAX_PALETTE_SAMPLES = 65536;
+
+interface ColorBox {
+  // Indices into the sample arrays
+  members: number[];
+}
+
+export interface GifEncoder {
+  /**
+   * Add a frame
+   * @param pixels RGBA pixels of the whole frame
+   * @param delay How long the frame shows, in hundredths of a second
+   */
+  addFrame: (pixels: Uint8ClampedArray, delay: number) => void;
+  finish: () => Blob;
+}
+
+/**
+ * Choose up to 256 colors for a GIF by median cut: the sampled colors are
+ * split along their widest channel until there are enough groups, and each
+ * group is averaged
+ * @param pixels RGBA pixels to sample, typically the finished composition
+ * @returns The palette as 256 RGB triples
+ */
+export const createGifPalette = (pixels: Uint8ClampedArray): Uint8Array<ArrayBuffer> => {
+  const pixelCount = pixels.length / 4;
+  const step = Math.max(1, Math.floor(pixelCount / MAX_PALETTE_SAMPLES));
+  const samples: number[][] = [[], [], []];
+  for (let i = 0; i < pixelCount; i += step) {
+    samples[0].push(pixels[i * 4]);
+    samples[1].push(pixels[i * 4 + 1]);
+    samples[2].push(pixels[i * 4 + 2]);
+  }
+
+  const range = (box: ColorBox, channel: number) => {
+    let min = 255;
+    let max = 0;
+    box.members.forEach(index => {
+      min = Math.min(min, samples[channel][index]);
+      max = Math.max(max, samples[channel][index]);
+    });
+    return max - min;
+  };
+
+  const boxes: ColorBox[] = [{ members: samples[0].map((_, i) => i) }];
+  while (boxes.length < PALETTE_SIZE) {
+    let widest = -1;
+    let widestChannel = 0;
+    let widestRange = 0;
+    boxes.forEach((box, i) => {
+      if (box.members.length < 2) return;
+      [0, 1, 2].forEach(channel => {
+        const boxRange = range(box, channel);
+        if (boxRange > widestRange) {
+          widest = i;
+          widestChannel = channel;
+          widestRange = boxRange;
+        }
+      });
+    });
+    if (widest < 0) break;
+
+    const members = boxes[widest].members.sort((a, b) => samples[widestChannel][a] - samples[widestChannel][b]);
+    const middle = Math.floor(members.length / 2);
+    boxes.splice(widest, 1, { members: members.slice(0, middle) }, { members: members.slice(middle) });
+  }
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  boxes.forEach((box, i) => {
+    [0, 1, 2].forEach(channel => {
+      const total = box.members.reduce((sum, index) => sum + samples[channel][index], 0);
+      palette[i * 3 + channel] = Math.round(total / Math.max(box.members.length, 1));
+    });
+  });
+  return palette;
+};
+
+/**
+ * Compress palette indices with GIF's variable-width LZW
+ * @param indices One palette index per pixel
+ * @returns The compressed data, split into the sub-blocks GIF stores it in
+ */
+const encodeLzw = (indices: Uint8Array): number[] => {
+  const minCodeSize = 8;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let codes = new Map<number, number>();
+  let buffer = 0;
+  let bufferBits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = prefix * PALETTE_SIZE + indices[i];
+    const code = codes.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      codes = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      // The decoder widens its codes one entry later than the table grows
+      if (nextCode >= 1 << codeSize) codeSize++;
+      codes.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) {
+    bytes.push(buffer & 0xff);
+  }
+
+  const blocks: number[] = [minCodeSize];
+  for (let i = 0; i < bytes.length; i += 255) {
+    const block = bytes.slice(i, i + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return blocks;
+};
+
+const uint16 = (value: number): number[] => [value & 0xff, (value >> 8) & 0xff];
+
+/**
+ * Write a looping animated GIF frame by frame. Each frame stores only the
+ * rectangle that changed since the one before, and identical frames are
+ * merged into a longer one.
+ * @param width Frame width in pixels
+ * @param height Frame height in pixels
+ * @param palette Colors every frame is drawn with, from createGifPalette
+ * @returns The encoder
+ */
+export const createGifEncoder = (
+  width: number,
+  height: number,
+  palette: Uint8Array<ArrayBuffer>
+): GifEncoder => {
+  const parts: Uint8Array<ArrayBuffer>[] = [
+    new Uint8Array([
+      ...Array.from('GIF89a', char => char.charCodeAt(0)),
+      ...uint16(width),
+      ...uint16(height),
+      // Global palette of 256 colors
+      0xf7, 0, 0,
+    ]),
+    palette,
+    // Loop forever
+    new Uint8Array([
+      0x21, 0xff, 0x0b,
+      ...Array.from('NETSCAPE2.0', char => char.charCodeAt(0)),
+      0x03, 0x01, 0, 0, 0,
+    ]),
+  ];
+
+  // Nearest palette color, cached by color at 5 bits per channel
+  const nearest = new Int16Array(32768).fill(-1);
+  const toIndex = (r: number, g: number, b: number): number => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    if (nearest[key] < 0) {
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let i = 0; i < PALETTE_SIZE; i++) {
+        const dr = palette[i * 3] - r;
+        const dg = palette[i * 3 + 1] - g;
+        const db = palette[i * 3 + 2] - b;
+        const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+        if (distance < bestDistance) {
+          best = i;
+          bestDistance = distance;
+        }
+      }
+      nearest[key] = best;
+    }
+    return nearest[key];
+  };
+
+  let previous: Uint8Array | null = null;
+  // The last frame is held back in case the next one repeats it
+  let pending: { indices: Uint8Array; left: number; top: number; width: number; height: number; delay: number } | null = null;
+
+  const writePending = () => {
+    if (!pending) return;
+    parts.push(new Uint8Array([
+      // Graphic control: keep the previous frame underneath, then the delay
+      0x21, 0xf9, 0x04, 0x04, ...uint16(pending.delay), 0, 0,
+      0x2c, ...uint16(pending.left), ...uint16(pending.top), ...uint16(pending.width), ...uint16(pending.height), 0,
+      ...encodeLzw(pending.indices),
+    ]));
+    pending = null;
+  };
+
+  return {
+    addFrame: (pixels, delay) => {
+      const indices = new Uint8Array(width * height);
+      for (let i = 0; i < indices.length; i++) {
+        indices[i] = toIndex(pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]);
+      }
+
+      // Bounds of what changed; the first frame is drawn whole
+      let left = previous ? width : 0;
+      let top = previous ? height : 0;
+      let right = previous ? -1 : width - 1;
+      let bottom = previous ? -1 : height - 1;
+      if (previous) {
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            if (indices[i] !== previous[i]) {
+              left = Math.min(left, x);
+              top = Math.min(top, y);
+              right = Math.max(right, x);
+              bottom = Math.max(bottom, y);
+            }
+          }
+        }
+      }
+
+      if (right < 0 && pending) {
+        pending.delay += delay;
+        return;
+      }
+      writePending();
+
+      const frameWidth = right - left + 1;
+      const frameHeight = bottom - top + 1;
+      const frameIndices = new Uint8Array(frameWidth * frameHeight);
+      for (let y = 0; y < frameHeight; y++) {
+        frameIndices.set(indices.subarray((top + y) * width + left, (top + y) * width + left + frameWidth), y * frameWidth);
+      }
+      pending = { indices: frameIndices, left, top, width: frameWidth, height: frameHeight, delay };
+      previous = indices;
+    },
+    finish: () => {
+      writePending();
+      parts.push(new Uint8Array([0x3b]));
+      return new Blob(parts, { type: 'image/gif' });
+    },
+  };
+};
@@ -0,0 +1,96 @@
+import { GradientStop, TextGradient } from '@/types/canvas';
+import * as fabric from 'fabric';
+
+// Starting point when a layer switches from a solid color to a gradient
+export const DEFAULT_GRADIENT: TextGradient = {
+  type: 'linear',
+  angle: 90,
+  stops: [
+    { offset: 0, color: '#ffd200' },
+    { offset: 1, color: '#ff5e00' },
+  ],
+};
+
+/**
+ * Sort gradient stops by offset, as canvas gradients expect
+ * @param stops - Gradient stops in any order
+ * @returns A sorted copy of the stops
+ */
+export const sortGradientStops = (stops: GradientStop[]): GradientStop[] =>
+  [...stops].sort((a, b) => a.offset - b.offset);
+
+/**
+ * Calculate gradient coordinates for a box, in pixels from its top-left corner.
+ * Linear gradients run through the center at the given angle and reach the
+ * far corners; radial gradients spread from the center to the corners.
+ * @param gradient - Gradient definition
+ * @param width - Box width
+ * @param height - Box height
+ * @returns Coordinates for a linear or radial canvas gradient
+ */
+export const getGradientCoords = (
+  gradient: TextGradient,
+  width: number,
+  height: number
+): { x1: number; y1: number; x2: number; y2: number; r1?: number; r2?: number } => {
+  const centerX = width / 2;
+  const centerY = height / 2;
+
+  if (gradient.type === 'radial') {
+    return {
+      x1: centerX,
+      y1: centerY,
+      x2: centerX,
+      y2: centerY,
+      r1: 0,
+      r2: Math.hypot(width, height) / 2,
+    };
+  }
+
+  const radians = fabric.util.degreesToRadians(gradient.angle - 90);
+  const dx = Math.cos(radians);
+  const dy = Math.sin(radians);
+  const halfLength = Math.abs(centerX * dx) + Math.abs(centerY * dy);
+
+  return {
+    x1: centerX - dx * halfLength,
+    y1: centerY - dy * halfLength,
+    x2: centerX + dx * halfLength,
+    y2: centerY + dy * halfLength,
+  };
+};
+
+/**
+ * Create a Fabric.js gradient sized to an object's box
+ * @param gradient - Gradient definition
+ * @param width - Object width
+ * @param height - Object height
+ * @returns Fabric.js gradient usable as a fill
+ */
+export const createFabricGradient = (
+  gradient: TextGradient,
+  width: number,
+  height: number
+): fabric.Gradient<'linear' | 'radial'> => {
+  return new fabric.Gradient({
+    type: gradient.type,
+    gradientUnits: 'pixels',
+    coords: getGradientCoords(gradient, width, height),
+    colorStops: sortGradientStops(gradient.stops),
+  });
+};
+
+/**
+ * Build a CSS gradient for previews in the properties panel
+ * @param gradient - Gradient definition
+ * @returns CSS background-image value
+ */
+export const gradientToCss = (gradient: TextGradient): string => {
+  const stops = sortGradientStops(gradient.stops)
+    .map(stop => `${stop.color} ${Math.round(stop.offset * 100)}%`)
+    .join(', ');
+
+  return gradient.type === 'radial'
+    ? `radial-gradient(circle, ${stops})`
+    : `linear-gradient(${gradient.angle}deg, ${stops})`;
+};
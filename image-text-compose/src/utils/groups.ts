@@ -0,0 +1,180 @@
+import { LayerGroup } from '@/types/canvas';
+
+export type LayerOrderDirection = 'up' | 'down' | 'top' | 'bottom';
+
+/**
+ * A run of the layer order that moves as one: either a whole group
+ * or a single ungrouped layer
+ */
+export interface LayerOrderUnit {
+  groupId: string | null;
+  ids: string[];
+}
+
+/**
+ * Find the group a layer belongs to
+ * @param groups - All layer groups
+ * @param layerId - Layer ID
+ * @returns The containing group, or null for ungrouped layers
+ */
+export const findGroupForLayer = (groups: LayerGroup[], layerId: string): LayerGroup | null => {
+  return groups.find(group => group.layerIds.includes(layerId)) || null;
+};
+
+/**
+ * Find the group whose members are exactly the selected layers
+ * @param groups - All layer groups
+ * @param selectedLayerIds - Currently selected layer IDs
+ * @returns The selected group, or null if the selection is not a whole group
+ */
+export const getSelectedGroup = (groups: LayerGroup[], selectedLayerIds: string[]): LayerGroup | null => {
+  if (selectedLayerIds.length === 0) return null;
+
+  return groups.find(group =>
+    group.layerIds.length === selectedLayerIds.length &&
+    group.layerIds.every(id => selectedLayerIds.includes(id))
+  ) || null;
+};
+
+/**
+ * Grow a selection so it contains every member of any group it touches
+ * @param groups - All layer groups
+ * @param layerIds - Selected layer IDs
+ * @returns Layer IDs including all members of touched groups
+ */
+export const expandToGroupMembers = (groups: LayerGroup[], layerIds: string[]): string[] => {
+  const expanded = new Set<string>();
+
+  layerIds.forEach(id => {
+    const group = findGroupForLayer(groups, id);
+    if (group) {
+      group.layerIds.forEach(memberId => expanded.add(memberId));
+    } else {
+      expanded.add(id);
+    }
+  });
+
+  return [...expanded];
+};
+
+/**
+ * Apply group opacity and lock on top of a layer's own values,
+ * giving the properties the layer should be drawn with
+ * @param layer - Layer properties
+ * @param groups - All layer groups
+ * @returns Layer properties with the group's opacity and lock applied
+ */
+export const resolveLayerForRender = <T extends { id: string; opacity: number; locked?: boolean }>(
+  layer: T,
+  groups: LayerGroup[]
+): T => {
+  const group = findGroupForLayer(groups, layer.id);
+  if (!group) return layer;
+
+  return {
+    ...layer,
+    opacity: layer.opacity * group.opacity,
+    locked: layer.locked || group.locked,
+  };
+};
+
+/**
+ * Split the layer order into units that move together. Group members
+ * are kept contiguous, so each group forms exactly one unit.
+ * @param layerOrder - Layer IDs, bottom to top
+ * @param groups - All layer groups
+ * @returns Units, bottom to top
+ */
+export const getLayerOrderUnits = (layerOrder: string[], groups: LayerGroup[]): LayerOrderUnit[] => {
+  const units: LayerOrderUnit[] = [];
+
+  layerOrder.forEach(id => {
+    const groupId = findGroupForLayer(groups, id)?.id || null;
+    const lastUnit = units[units.length - 1];
+
+    if (groupId && lastUnit && lastUnit.groupId === groupId) {
+      lastUnit.ids.push(id);
+    } else {
+      units.push({ groupId, ids: [id] });
+    }
+  });
+
+  return units;
+};
+
+/**
+ * Move an item one step or all the way within a list
+ */
+const moveItem = <T>(items: T[], index: number, direction: LayerOrderDirection): T[] => {
+  if (index === -1) return items;
+
+  const result = [...items];
+  const [item] = result.splice(index, 1);
+
+  switch (direction) {
+    case 'up':
+      result.splice(Math.min(index + 1, items.length - 1), 0, item);
+      break;
+    case 'down':
+      result.splice(Math.max(index - 1, 0), 0, item);
+      break;
+    case 'top':
+      result.push(item);
+      break;
+    case 'bottom':
+      result.unshift(item);
+      break;
+  }
+
+  return result;
+};
+
+/**
+ * Reorder a layer or a group. Groups and ungrouped layers step over whole
+ * groups; a grouped layer only moves among its own group's members.
+ * @param layerOrder - Layer IDs, bottom to top
+ * @param groups - All layer groups
+ * @param id - Layer ID or group ID to move
+ * @param direction - Where to move it
+ * @returns The new layer order
+ */
+export const moveInLayerOrder = (
+  layerOrder: string[],
+  groups: LayerGroup[],
+  id: string,
+  direction: LayerOrderDirection
+): string[] => {
+  const units = getLayerOrderUnits(layerOrder, groups);
+  const containingGroup = findGroupForLayer(groups, id);
+
+  if (containingGroup) {
+    const unitIndex = units.findIndex(unit => unit.groupId === containingGroup.id);
+    const unit = units[unitIndex];
+    const newUnits = [...units];
+    newUnits[unitIndex] = { ...unit, ids: moveItem(unit.ids, unit.ids.indexOf(id), direction) };
+    return newUnits.flatMap(u => u.ids);
+  }
+
+  const unitIndex = units.findIndex(unit =>
+    unit.groupId === id || (unit.groupId === null && unit.ids[0] === id)
+  );
+  return moveItem(units, unitIndex, direction).flatMap(unit => unit.ids);
+};
+
+/**
+ * Pull layers together in the layer order so they can form a group.
+ * The block takes the place of the topmost member.
+ * @param layerOrder - Layer IDs, bottom to top
+ * @param memberIds - Layer IDs to gather
+ * @returns The new layer order
+ */
+export const gatherInLayerOrder = (layerOrder: string[], memberIds: string[]): string[] => {
+  const members = layerOrder.filter(id => memberIds.includes(id));
+  if (members.length === 0) return layerOrder;
+
+  const topmostIndex = layerOrder.indexOf(members[members.length - 1]);
+  const below = layerOrder.slice(0, topmostIndex).filter(id => !memberIds.includes(id));
+  const above = layerOrder.slice(topmostIndex + 1);
+
+  return [...below, ...members, ...above];
+};
@@ -0,0 +1,246 @@
+import { isEqual } from 'lodash';
+import { CanvasState } from '../types/canvas';
+import { HistoryAction, HistoryChange, HistoryLayer, LayerCollection } from '../types/history';
+
+type ReplacedKey = Extract<HistoryChange, { type: 'replace' }>['key'];
+
+type UpdateChange = Extract<HistoryChange, { type: 'update' }>;
+
+type ListChange = Extract<HistoryChange, { type: 'add' | 'remove' }>;
+
+// Small parts of the state that are recorded whole when they change
+const REPLACED_KEYS: ReplacedKey[] = ['backgroundImage', 'canvasDimensions', 'groups', 'layerOrder'];
+
+const LAYER_COLLECTIONS: LayerCollection[] = ['textLayers', 'imageLayers', 'shapeLayers'];
+
+export type HistoryDirection = 'undo' | 'redo';
+
+const getKeys = (...values: object[]) => [...new Set(values.flatMap(value => Object.keys(value)))];
+
+/**
+ * Record the properties that differ between two versions of a layer
+ */
+const diffLayer = (previous: HistoryLayer, layer: HistoryLayer) => {
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+  for (const key of getKeys(previous, layer)) {
+    const from = (previous as unknown as Record<string, unknown>)[key];
+    const to = (layer as unknown as Record<string, unknown>)[key];
+    if (!isEqual(from, to)) {
+      before[key] = from;
+      after[key] = to;
+    }
+  }
+  return Object.keys(before).length > 0 ? { before, after } : null;
+};
+
+/**
+ * Compare one layer list by ID. Layers that stay are expected to keep
+ * their order, since stacking lives in layerOrder; if they don't, the
+ * list is recorded whole.
+ */
+const diffLayers = (
+  collection: LayerCollection,
+  before: HistoryLayer[],
+  after: HistoryLayer[]
+): HistoryChange[] => {
+  if (before === after) return [];
+
+  const beforeById = new Map(before.map(layer => [layer.id, layer]));
+  const afterById = new Map(after.map(layer => [layer.id, layer]));
+  const keptBefore = before.filter(layer => afterById.has(layer.id)).map(layer => layer.id);
+  const keptAfter = after.filter(layer => beforeById.has(layer.id)).map(layer => layer.id);
+  if (!isEqual(keptBefore, keptAfter)) {
+    return [{ type: 'replace', key: collection, before, after }];
+  }
+
+  const changes: HistoryChange[] = [];
+  before.forEach((layer, index) => {
+    if (!afterById.has(layer.id)) {
+      changes.push({ type: 'remove', collection, index, layer });
+    }
+  });
+  after.forEach((layer, index) => {
+    const previous = beforeById.get(layer.id);
+    if (!previous) {
+      changes.push({ type: 'add', collection, index, layer });
+    } else if (previous !== layer) {
+      const diff = diffLayer(previous, layer);
+      if (diff) {
+        changes.push({ type: 'update', collection, id: layer.id, ...diff });
+      }
+    }
+  });
+  return changes;
+};
+
+/**
+ * Work out what changed between two editor states. Layers are compared
+ * property by property, so moving one layer records its position only.
+ * Selection isn't recorded.
+ * @param before The earlier state
+ * @param after The later state
+ * @returns The changes, empty if nothing recorded differs
+ */
+export const diffCanvasState = (before: CanvasState, after: CanvasState): HistoryChange[] => [
+  ...REPLACED_KEYS
+    .filter(key => !isEqual(before[key], after[key]))
+    .map((key): HistoryChange => ({ type: 'replace', key, before: before[key], after: after[key] })),
+  ...LAYER_COLLECTIONS.flatMap(collection => diffLayers(collection, before[collection], after[collection])),
+];
+
+/**
+ * Set layer properties, unsetting those the values leave out
+ */
+const setLayerProperties = (layer: HistoryLayer, change: UpdateChange, values: Record<string, unknown>) => {
+  const updated: Record<string, unknown> = { ...layer };
+  for (const key of getKeys(change.before, change.after)) {
+    if (values[key] === undefined) {
+      delete updated[key];
+    } else {
+      updated[key] = values[key];
+    }
+  }
+  return updated as unknown as HistoryLayer;
+};
+
+/**
+ * Apply changes to a state, forwards to redo them or backwards to undo them
+ * @param state The state before the changes (to redo) or after them (to undo)
+ * @param changes Changes from diffCanvasState
+ * @param direction Which way to apply them
+ * @returns The new state; parts the changes don't touch are shared with the old one
+ */
+export const applyHistoryChanges = (
+  state: CanvasState,
+  changes: HistoryChange[],
+  direction: HistoryDirection
+): CanvasState => {
+  const isUndo = direction === 'undo';
+  const next: CanvasState = { ...state };
+
+  for (const change of changes) {
+    if (change.type === 'replace') {
+      (next as unknown as Record<string, unknown>)[change.key] = isUndo ? change.before : change.after;
+    }
+  }
+
+  for (const collection of LAYER_COLLECTIONS) {
+    const layerChanges = changes.filter(
+      (change): change is Exclude<HistoryChange, { type: 'replace' }> =>
+        change.type !== 'replace' && change.collection === collection
+    );
+    if (layerChanges.length === 0) continue;
+
+    // Undoing takes out the layers that were added and puts back the ones that were removed
+    const removed = isUndo ? 'add' : 'remove';
+    const added = isUndo ? 'remove' : 'add';
+    const layers: HistoryLayer[] = [...next[collection]];
+    layerChanges
+      .filter((change): change is ListChange => change.type === removed)
+      .sort((a, b) => b.index - a.index)
+      .forEach(change => layers.splice(change.index, 1));
+    layerChanges
+      .filter((change): change is ListChange => change.type === added)
+      .sort((a, b) => a.index - b.index)
+      .forEach(change => layers.splice(change.index, 0, change.layer));
+
+    const updates = new Map(
+      layerChanges
+        .filter((change): change is UpdateChange => change.type === 'update')
+        .map(change => [change.id, change])
+    );
+    (next as unknown as Record<string, unknown>)[collection] = layers.map(layer => {
+      const update = updates.get(layer.id);
+      return update ? setLayerProperties(layer, update, isUndo ? update.before : update.after) : layer;
+    });
+  }
+
+  return next;
+};
+
+const getTarget = (change: HistoryChange): string | null =>
+  change.type === 'replace' ? change.key : change.type === 'update' ? `${change.collection}:${change.id}` : null;
+
+/**
+ * Combine a change into the one before it, so one slider drag is one step.
+ * Only edits to things the earlier changes already edited can combine;
+ * adding or removing layers always starts a new step.
+ * @param earlier Changes of the earlier action
+ * @param later Changes made since
+ * @returns The combined changes, or null if they can't be combined
+ */
+export const mergeHistoryChanges = (earlier: HistoryChange[], later: HistoryChange[]): HistoryChange[] | null => {
+  const merged = new Map(earlier.map(change => [getTarget(change), change]));
+  if (merged.has(null) || later.some(change => getTarget(change) === null || !merged.has(getTarget(change)))) {
+    return null;
+  }
+
+  for (const change of later) {
+    const target = getTarget(change);
+    const first = merged.get(target)!;
+    if (change.type === 'update' && first.type === 'update') {
+      merged.set(target, {
+        ...first,
+        before: { ...change.before, ...first.before },
+        after: { ...first.after, ...change.after },
+      });
+    } else if (change.type === 'replace' && first.type === 'replace') {
+      merged.set(target, { ...first, after: change.after });
+    }
+  }
+  return [...merged.values()];
+};
+
+/**
+ * Rebuild the editor state at every step of a history
+ * @param history Actions and the state as of present
+ * @returns The state after each action
+ */
+export const getHistoryStates = (history: {
+  past: HistoryAction[];
+  present: HistoryAction | null;
+  future: HistoryAction[];
+  state: CanvasState;
+}) => {
+  // Undoing the action after a past one gives the state after it
+  const later = [...history.past.slice(1), ...(history.present ? [history.present] : [])];
+  const past: CanvasState[] = [];
+  let state = history.state;
+  for (let i = history.past.length - 1; i >= 0; i--) {
+    state = applyHistoryChanges(state, later[i].changes, 'undo');
+    past.unshift(state);
+  }
+
+  const future: CanvasState[] = [];
+  state = history.state;
+  for (const action of history.future) {
+    state = applyHistoryChanges(state, action.changes, 'redo');
+    future.push(state);
+  }
+  return { past, present: history.state, future };
+};
+
+/**
+ * Build a history from the state after each action, as kept by full-snapshot history
+ * @param snapshots Each action with the state after it, oldest first
+ * @param presentIndex Which snapshot the editor is at
+ * @returns The actions, recording changes, and the state as of present
+ */
+export const createHistoryFromSnapshots = (
+  snapshots: { timestamp: number; description: string; state: CanvasState }[],
+  presentIndex: number
+) => {
+  const actions: HistoryAction[] = snapshots.map((snapshot, i) => ({
+    timestamp: snapshot.timestamp,
+    description: snapshot.description,
+    // The oldest action can't be undone, so nothing before it is needed
+    changes: i === 0 ? [] : diffCanvasState(snapshots[i - 1].state, snapshot.state),
+  }));
+  return {
+    past: actions.slice(0, presentIndex),
+    present: actions[presentIndex] ?? null,
+    future: actions.slice(presentIndex + 1),
+    state: snapshots[presentIndex]?.state ?? null,
+  };
+};
@@ -0,0 +1,482 @@
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+
+const DATABASE_NAME = 'image-text-compose';
+const DATABASE_VERSION = 1;
+// Saved state by key, with images and files swapped for references to BLOB_STORE
+const DOCUMENT_STORE = 'documents';
+// Image and font binaries, keyed by the SHA-256 of their contents
+const BLOB_STORE = 'blobs';
+
+// References left in saved state where a data URL or a file was
+const BLOB_REF = 'idb-blob:';
+const FILE_REF = 'idb-file:';
+const REF_PATTERN = /idb-(?:blob|file):([0-9a-f]{64})/g;
+
+// Content hashes remembered per image, so autosaves don't hash the same image again
+const MAX_CACHED_HASHES = 50;
+
+type StorageErrorListener = (error: Error) => void;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+// The open project; per-project documents are saved under their name and this ID
+let projectScope: string | null = null;
+// Blobs known to be in the database; writes skip them
+const storedHashes = new Set<string>();
+const hashCache = new Map<string | Blob, string>();
+const errorListeners = new Set<StorageErrorListener>();
+// Writes and clean-ups run one at a time, so a clean-up never removes a blob a write relies on
+let queue: Promise<unknown> = Promise.resolve();
+
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    // Quota errors abort the transaction rather than failing a request
+    transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+const isAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+// Hashes of the blobs saved data refers to
+const getReferencedHashes = (saved: unknown): Set<string> =>
+  new Set([...(JSON.stringify(saved) ?? '').matchAll(REF_PATTERN)].map(match => match[1]));
+
+/**
+ * Remove blobs no saved document refers to any more, such as replaced
+ * backgrounds and deleted fonts. Runs in the write queue.
+ * @param database The open database
+ */
+const collectGarbage = async (database: IDBDatabase): Promise<void> => {
+  const transaction = database.transaction([DOCUMENT_STORE, BLOB_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const [documents, hashes] = await Promise.all([
+    requestResult(transaction.objectStore(DOCUMENT_STORE).getAll()),
+    requestResult(transaction.objectStore(BLOB_STORE).getAllKeys()),
+  ]);
+
+  const referenced = getReferencedHashes(documents);
+  hashes.forEach(hash => {
+    if (referenced.has(hash as string)) {
+      storedHashes.add(hash as string);
+    } else {
+      transaction.objectStore(BLOB_STORE).delete(hash);
+      storedHashes.delete(hash as string);
+    }
+  });
+  await done;
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DOCUMENT_STORE);
+        request.result.createObjectStore(BLOB_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(database => {
+      // Ask the browser not to evict saved work when space runs low
+      navigator.storage?.persist?.().catch(() => undefined);
+      // Tidy up once per session, before anything is written
+      enqueue(() => collectGarbage(database)).catch(error => console.warn('Error cleaning up storage:', error));
+      return database;
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const rememberHash = (source: string | Blob, hash: string) => {
+  hashCache.set(source, hash);
+  if (hashCache.size > MAX_CACHED_HASHES) {
+    hashCache.delete(hashCache.keys().next().value as string | Blob);
+  }
+};
+
+/**
+ * Swap data URLs and files in a value for references to content-addressed blobs
+ * @param value State to save
+ * @param pending Blobs the database doesn't have yet, filled in by hash
+ * @returns A copy of the value holding references instead
+ */
+const dehydrate = async (value: unknown, pending: Map<string, Blob>): Promise<unknown> => {
+  const isDataUrl = typeof value === 'string' && value.startsWith('data:');
+  if (isDataUrl || value instanceof Blob) {
+    const source = value as string | Blob;
+    const toBlob = async () => typeof source === 'string' ? (await fetch(source)).blob() : source;
+    let blob: Blob | null = null;
+
+    let hash = hashCache.get(source);
+    if (!hash) {
+      blob = await toBlob();
+      hash = await hashBlob(blob);
+      rememberHash(source, hash);
+    }
+    if (!storedHashes.has(hash) && !pending.has(hash)) {
+      pending.set(hash, blob || await toBlob());
+    }
+
+    return value instanceof File
+      ? `${FILE_REF}${hash}/${encodeURIComponent(value.name)}`
+      : value instanceof Blob ? `${FILE_REF}${hash}/` : `${BLOB_REF}${hash}`;
+  }
+
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => dehydrate(item, pending)));
+  }
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [key, await dehydrate(item, pending)])
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+const toDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Read back the blob a reference points to
+const restoreBlob = async (ref: string, database: IDBDatabase): Promise<unknown> => {
+  const isFile = ref.startsWith(FILE_REF);
+  const [hash, name] = ref.slice(isFile ? FILE_REF.length : BLOB_REF.length).split('/');
+  const blob = await requestResult(
+    database.transaction(BLOB_STORE).objectStore(BLOB_STORE).get(hash)
+  ) as Blob | undefined;
+  if (!blob) {
+    console.warn(`Saved file ${hash} is missing`);
+    return isFile ? null : '';
+  }
+
+  storedHashes.add(hash);
+  const restored = isFile
+    ? name ? new File([blob], decodeURIComponent(name), { type: blob.type }) : blob
+    : await toDataUrl(blob);
+  rememberHash(restored, hash);
+  return restored;
+};
+
+/**
+ * Put saved blobs back where dehydrate left references: images as data
+ * URLs, which the editor and autosave work with, and files as Files
+ * @param value Saved state
+ * @param database The open database
+ * @param restored Blobs restored so far by reference, so history snapshots share one copy
+ * @returns The state as it was saved
+ */
+const hydrate = async (
+  value: unknown,
+  database: IDBDatabase,
+  restored = new Map<string, Promise<unknown>>()
+): Promise<unknown> => {
+  if (typeof value === 'string' && (value.startsWith(BLOB_REF) || value.startsWith(FILE_REF))) {
+    if (!restored.has(value)) {
+      restored.set(value, restoreBlob(value, database));
+    }
+    return restored.get(value);
+  }
+
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => hydrate(item, database, restored)));
+  }
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [key, await hydrate(item, database, restored)])
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+const notifyError = (error: unknown) => {
+  const reported = error instanceof Error ? error : new Error(String(error));
+  errorListeners.forEach(listener => listener(reported));
+};
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+/**
+ * Listen for saves that fail, such as when the browser's storage is full
+ * @param listener Called with the error
+ * @returns A function that stops listening
+ */
+export const onStorageError = (listener: StorageErrorListener): (() => void) => {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+};
+
+/**
+ * Read a saved value. Values saved to localStorage by earlier versions are
+ * moved into IndexedDB the first time they are read.
+ * @param key The key it was saved under
+ * @returns The value, or null if nothing is saved or storage is unavailable
+ */
+export const readDocument = async <T>(key: string): Promise<T | null> => {
+  if (!isAvailable()) return null;
+
+  try {
+    const database = await openDatabase();
+    const saved = await requestResult(
+      database.transaction(DOCUMENT_STORE).objectStore(DOCUMENT_STORE).get(key)
+    );
+    if (saved !== undefined) {
+      return await hydrate(saved, database) as T;
+    }
+
+    const legacy = window.localStorage.getItem(key);
+    if (legacy === null) return null;
+    const value = JSON.parse(legacy) as T;
+    await writeDocument(key, value);
+    window.localStorage.removeItem(key);
+    return value;
+  } catch (error) {
+    console.warn(`Error reading saved "${key}":`, error);
+    return null;
+  }
+};
+
+/**
+ * Save a value, storing its images and files once each however many
+ * times they appear. When the save replaces blobs the previous one used,
+ * such as a project thumbnail, unused blobs are cleared so repeated saves
+ * don't pile them up. Failures are reported to onStorageError listeners
+ * rather than thrown; when storage is full, unused blobs are cleared and
+ * the save is tried again.
+ * @param key The key to save under
+ * @param value A value of plain data, data URLs and Files
+ */
+export const writeDocument = async <T>(key: string, value: T): Promise<void> => {
+  if (!isAvailable()) return;
+
+  try {
+    const database = await openDatabase();
+    const save = () => enqueue(async () => {
+      const pending = new Map<string, Blob>();
+      const saved = await dehydrate(value, pending);
+
+      const transaction = database.transaction([DOCUMENT_STORE, BLOB_STORE], 'readwrite');
+      const done = transactionDone(transaction);
+      const previous = await requestResult(transaction.objectStore(DOCUMENT_STORE).get(key));
+      pending.forEach((blob, hash) => transaction.objectStore(BLOB_STORE).put(blob, hash));
+      transaction.objectStore(DOCUMENT_STORE).put(saved, key);
+      await done;
+      pending.forEach((_, hash) => storedHashes.add(hash));
+
+      const referenced = getReferencedHashes(saved);
+      if ([...getReferencedHashes(previous)].some(hash => !referenced.has(hash))) {
+        await collectGarbage(database);
+      }
+    });
+
+    try {
+      await save();
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      await enqueue(() => collectGarbage(database));
+      await save();
+    }
+  } catch (error) {
+    console.warn(`Error saving "${key}":`, error);
+    notifyError(error);
+  }
+};
+
+/**
+ * Delete a saved value; its blobs are cleared in the next clean-up
+ * @param key The key it was saved under
+ */
+export const deleteDocument = async (key: string): Promise<void> => {
+  if (!isAvailable()) return;
+
+  try {
+    const database = await openDatabase();
+    await enqueue(async () => {
+      const transaction = database.transaction(DOCUMENT_STORE, 'readwrite');
+      const done = transactionDone(transaction);
+      transaction.objectStore(DOCUMENT_STORE).delete(key);
+      await done;
+    });
+  } catch (error) {
+    console.warn(`Error deleting "${key}":`, error);
+  }
+};
+
+/**
+ * Keep a copy of saved data that failed validation, so the editor can
+ * carry on without it but nothing is lost. Copies are saved under
+ * "quarantine:<time>:<key>" and stay when their project is duplicated or deleted.
+ * @param key The key the data was read from
+ * @param value The data as read
+ * @param problems What was wrong with it
+ */
+export const quarantineDocument = (key: string, value: unknown, problems: string[]): Promise<void> => {
+  console.warn(`Saved "${key}" failed validation and was quarantined:`, problems);
+  return writeDocument(`quarantine:${Date.now()}:${key}`, {
+    key,
+    quarantinedAt: new Date().toISOString(),
+    problems,
+    value,
+  });
+};
+
+/**
+ * Set the project whose documents per-project storage reads and writes
+ * @param projectId The open project, or null while none is, when per-project storage does nothing
+ */
+export const setProjectScope = (projectId: string | null): void => {
+  projectScope = projectId;
+};
+
+/**
+ * Get the project per-project storage is reading and writing
+ * @returns The project ID, or null while none is open
+ */
+export const getProjectScope = (): string | null => projectScope;
+
+/**
+ * Get the key a project's copy of a document is saved under
+ * @param name Document name
+ * @param projectId The project
+ * @returns The key
+ */
+export const getProjectKey = (name: string, projectId: string): string => `${name}:${projectId}`;
+
+/**
+ * Move a document to a new key without reading its blobs, such as a save
+ * from before projects existed into the first project
+ * @param from Key it is saved under, in IndexedDB or in localStorage
+ * @param to Key to save it under
+ * @returns Whether there was a document to move
+ */
+export const moveDocument = async (from: string, to: string): Promise<boolean> => {
+  if (!isAvailable()) return false;
+
+  try {
+    const database = await openDatabase();
+    const moved = await enqueue(async () => {
+      const transaction = database.transaction(DOCUMENT_STORE, 'readwrite');
+      const done = transactionDone(transaction);
+      const store = transaction.objectStore(DOCUMENT_STORE);
+      const saved = await requestResult(store.get(from));
+      if (saved !== undefined) {
+        store.put(saved, to);
+        store.delete(from);
+      }
+      await done;
+      return saved !== undefined;
+    });
+    if (moved) return true;
+
+    const legacy = window.localStorage.getItem(from);
+    if (legacy === null) return false;
+    await writeDocument(to, JSON.parse(legacy));
+    window.localStorage.removeItem(from);
+    return true;
+  } catch (error) {
+    console.warn(`Error moving "${from}":`, error);
+    return false;
+  }
+};
+
+/**
+ * Run a change over the documents a project has saved
+ * @param names Names of the project's documents
+ * @param projectId The project
+ * @param change Called with the store, each saved document's key and the document
+ */
+const updateProjectDocuments = async (
+  names: string[],
+  projectId: string,
+  change: (store: IDBObjectStore, key: string, saved: unknown) => void
+): Promise<void> => {
+  if (!isAvailable()) return;
+
+  const database = await openDatabase();
+  await enqueue(async () => {
+    const transaction = database.transaction(DOCUMENT_STORE, 'readwrite');
+    const done = transactionDone(transaction);
+    const store = transaction.objectStore(DOCUMENT_STORE);
+    const keys = names.map(name => getProjectKey(name, projectId));
+    const documents = await Promise.all(keys.map(key => requestResult(store.get(key))));
+    keys.forEach((key, i) => {
+      if (documents[i] !== undefined) {
+        change(store, key, documents[i]);
+      }
+    });
+    await done;
+  });
+};
+
+/**
+ * Copy a project's documents, such as its autosave and history, to another
+ * project. The copies refer to the same blobs, so images aren't stored twice.
+ * @param names Names of the documents to copy
+ * @param fromId Project to copy
+ * @param toId The new project
+ */
+export const copyProjectDocuments = (names: string[], fromId: string, toId: string): Promise<void> =>
+  updateProjectDocuments(names, fromId, (store, key, saved) => {
+    store.put(saved, `${key.slice(0, -fromId.length)}${toId}`);
+  });
+
+/**
+ * Delete a project's documents; blobs only they used are cleared in the next clean-up
+ * @param names Names of the documents to delete
+ * @param projectId The project
+ */
+export const deleteProjectDocuments = (names: string[], projectId: string): Promise<void> =>
+  updateProjectDocuments(names, projectId, (store, key) => {
+    store.delete(key);
+  });
+
+/**
+ * Storage for zustand's persist middleware that keeps the store in IndexedDB
+ * @param perProject Keep a copy per project, switched with setProjectScope
+ * @returns The storage, to pass as the persist `storage` option
+ */
+export const createIndexedDbStorage = <S>(perProject = false): PersistStorage<S> => {
+  const getKey = (name: string) => perProject ? projectScope && getProjectKey(name, projectScope) : name;
+  return {
+    getItem: (name) => {
+      const key = getKey(name);
+      return key ? readDocument<StorageValue<S>>(key) : null;
+    },
+    setItem: (name, value) => {
+      const key = getKey(name);
+      return key ? writeDocument(key, value) : undefined;
+    },
+    removeItem: (name) => {
+      const key = getKey(name);
+      return key ? deleteDocument(key) : undefined;
+    },
+  };
+};
@@ -0,0 +1,151 @@
+// Markers of the segments JPEG metadata lives in
+const APP0 = 0xe0;
+const APP2 = 0xe2;
+const START_OF_SCAN = 0xda;
+
+// Start of frame markers, which hold the image size; the others in their range are not frames
+const START_OF_FRAME = [0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf];
+
+const ICC_IDENTIFIER = 'ICC_PROFILE\0';
+
+// Largest piece of a profile one APP2 segment holds, after its length, identifier and sequence bytes
+const MAX_ICC_SEGMENT_DATA = 65535 - 2 - ICC_IDENTIFIER.length - 2;
+
+interface JpegSegment {
+  marker: number;
+  // Offset of the marker in the file, and of the first byte after the segment
+  start: number;
+  end: number;
+}
+
+/**
+ * List the segments before the image data, which is where metadata lives
+ * @param bytes Contents of the file
+ * @returns The segments in file order and the offset of the scan, or null if the bytes are not a JPEG
+ */
+const readSegments = (bytes: Uint8Array): { segments: JpegSegment[]; scanStart: number } | null => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === START_OF_SCAN) {
+      return { segments, scanStart: offset };
+    }
+    const end = offset + 2 + view.getUint16(offset + 2);
+    segments.push({ marker, start: offset, end });
+    offset = end;
+  }
+  return null;
+};
+
+const isIccSegment = (bytes: Uint8Array, segment: JpegSegment): boolean =>
+  segment.marker === APP2 &&
+  String.fromCharCode(...bytes.subarray(segment.start + 4, segment.start + 4 + ICC_IDENTIFIER.length)) === ICC_IDENTIFIER;
+
+const isJfifSegment = (bytes: Uint8Array, segment: JpegSegment): boolean =>
+  segment.marker === APP0 && String.fromCharCode(...bytes.subarray(segment.start + 4, segment.start + 9)) === 'JFIF\0';
+
+/**
+ * Read a JPEG's size from its frame header, without decoding the image
+ * @param bytes Contents of the file
+ * @returns The size in pixels, or null if the bytes are not a JPEG
+ */
+export const readJpegSize = (bytes: Uint8Array): { width: number; height: number } | null => {
+  const frame = readSegments(bytes)?.segments.find(segment => START_OF_FRAME.includes(segment.marker));
+  // Marker, length and precision come before the height and width
+  if (!frame || frame.start + 9 > bytes.length) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { width: view.getUint16(frame.start + 7), height: view.getUint16(frame.start + 5) };
+};
+
+/**
+ * Read the ICC profile from a JPEG, which splits it across APP2 segments
+ * @param bytes Contents of the file
+ * @returns The profile, or null if the JPEG has none
+ */
+export const readJpegIccProfile = (bytes: Uint8Array): Uint8Array<ArrayBuffer> | null => {
+  const parsed = readSegments(bytes);
+  if (!parsed) return null;
+
+  const dataStart = 4 + ICC_IDENTIFIER.length + 2;
+  const pieces = parsed.segments
+    .filter(segment => isIccSegment(bytes, segment))
+    .map(segment => ({
+      sequence: bytes[segment.start + 4 + ICC_IDENTIFIER.length],
+      data: bytes.subarray(segment.start + dataStart, segment.end),
+    }))
+    .sort((a, b) => a.sequence - b.sequence);
+  if (pieces.length === 0) return null;
+
+  const profile = new Uint8Array(pieces.reduce((size, piece) => size + piece.data.length, 0));
+  let offset = 0;
+  pieces.forEach(({ data }) => {
+    profile.set(data, offset);
+    offset += data.length;
+  });
+  return profile;
+};
+
+const createSegment = (marker: number, data: Uint8Array): Uint8Array<ArrayBuffer> => {
+  const segment = new Uint8Array(4 + data.length);
+  segment[0] = 0xff;
+  segment[1] = marker;
+  new DataView(segment.buffer).setUint16(2, 2 + data.length);
+  segment.set(data, 4);
+  return segment;
+};
+
+/**
+ * Record the print resolution in the JFIF header and, optionally, a color
+ * profile in APP2 segments. Both replace any the JPEG already has.
+ * @param jpeg The encoded JPEG
+ * @param dpi Dots per inch
+ * @param profile ICC profile to embed, or null to leave the color space unstated
+ * @returns The JPEG with its metadata set
+ */
+export const addJpegColorMetadata = async (
+  jpeg: Blob,
+  dpi: number,
+  profile: Uint8Array<ArrayBuffer> | null
+): Promise<Blob> => {
+  const bytes = new Uint8Array(await jpeg.arrayBuffer());
+  const parsed = readSegments(bytes);
+  if (!parsed) {
+    throw new Error('Failed to add color information to the JPEG');
+  }
+
+  // JFIF 1.01 with density in dots per inch and no thumbnail
+  const density = Math.min(Math.round(dpi), 0xffff);
+  const jfif = new Uint8Array([
+    0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 1,
+    density >> 8, density & 0xff, density >> 8, density & 0xff,
+    0, 0,
+  ]);
+  const added = [createSegment(APP0, jfif)];
+
+  if (profile) {
+    const identifier = new TextEncoder().encode(ICC_IDENTIFIER);
+    const count = Math.ceil(profile.length / MAX_ICC_SEGMENT_DATA);
+    for (let i = 0; i < count; i++) {
+      const piece = profile.subarray(i * MAX_ICC_SEGMENT_DATA, (i + 1) * MAX_ICC_SEGMENT_DATA);
+      const data = new Uint8Array(identifier.length + 2 + piece.length);
+      data.set(identifier, 0);
+      data.set([i + 1, count], identifier.length);
+      data.set(piece, identifier.length + 2);
+      added.push(createSegment(APP2, data));
+    }
+  }
+
+  // JFIF must be the first segment
+  const kept = parsed.segments
+    .filter(segment => !isJfifSegment(bytes, segment) && !(profile && isIccSegment(bytes, segment)))
+    .map(segment => bytes.slice(segment.start, segment.end));
+  return new Blob(
+    [bytes.slice(0, 2), ...added, ...kept, bytes.slice(parsed.scanStart)],
+    { type: 'image/jpeg' }
+  );
+};
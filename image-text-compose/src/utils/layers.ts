@@ -0,0 +1,46 @@
+import { CanvasState, LayerEntry, LayerKind } from '@/types/canvas';
+
+type LayerCollections = Pick<CanvasState, 'textLayers' | 'imageLayers' | 'shapeLayers' | 'layerOrder'>;
+
+/**
+ * Determine which kind of layer an id belongs to
+ * @param state - Editor state holding the layer collections
+ * @param id - Layer ID
+ * @returns The layer kind, or null if no layer has this ID
+ */
+export const getLayerKind = (state: LayerCollections, id: string): LayerKind | null => {
+  if (state.textLayers.some(layer => layer.id === id)) return 'text';
+  if (state.imageLayers.some(layer => layer.id === id)) return 'image';
+  if (state.shapeLayers.some(layer => layer.id === id)) return 'shape';
+  return null;
+};
+
+/**
+ * Find a layer of any kind by ID
+ * @param state - Editor state holding the layer collections
+ * @param id - Layer ID
+ * @returns The layer with its kind, or null if not found
+ */
+export const findLayerEntry = (state: LayerCollections, id: string): LayerEntry | null => {
+  const textLayer = state.textLayers.find(layer => layer.id === id);
+  if (textLayer) return { kind: 'text', layer: textLayer };
+
+  const imageLayer = state.imageLayers.find(layer => layer.id === id);
+  if (imageLayer) return { kind: 'image', layer: imageLayer };
+
+  const shapeLayer = state.shapeLayers.find(layer => layer.id === id);
+  if (shapeLayer) return { kind: 'shape', layer: shapeLayer };
+
+  return null;
+};
+
+/**
+ * Resolve all layers in stacking order, bottom to top
+ * @param state - Editor state holding the layer collections
+ * @returns Layers with their kind, ordered by layerOrder
+ */
+export const getOrderedLayers = (state: LayerCollections): LayerEntry[] => {
+  return state.layerOrder
+    .map(id => findLayerEntry(state, id))
+    .filter((entry): entry is LayerEntry => entry !== null);
+};
@@ -0,0 +1,339 @@
+import * as fabric from 'fabric';
+import type { Canvas as FabricCanvas } from 'fabric/fabric-impl';
+import { ExportOptions, PdfPageSize } from '../types/export';
+import { getTextObjectLines } from './textLayers';
+
+const POINTS_PER_INCH = 72;
+const POINTS_PER_MM = POINTS_PER_INCH / 25.4;
+
+// Portrait sizes in millimetres; null sizes the page from the image
+export const PDF_PAGE_SIZES: Record<PdfPageSize, { label: string; size: [number, number] | null }> = {
+  image: { label: 'Image Size', size: null },
+  a4: { label: 'A4', size: [210, 297] },
+  a3: { label: 'A3', size: [297, 420] },
+  letter: { label: 'US Letter', size: [215.9, 279.4] },
+};
+
+export const PDF_DPI_OPTIONS = [72, 150, 300, 600];
+
+export const MAX_PDF_BLEED = 10;
+
+// Crop marks sit outside the bleed, with a gap so they never touch the artwork
+const CROP_MARK_OFFSET = 6;
+const CROP_MARK_LENGTH = 18;
+
+const JPEG_QUALITY = 0.92;
+
+// Characters Windows-1252 adds where Latin-1 has control codes
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// Same layout as Fabric.js transform matrices and the PDF cm and Tm operators
+type TransformMatrix = [number, number, number, number, number, number];
+
+interface PdfBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfPageLayout {
+  // Page size in points, including the margin for crop marks
+  width: number;
+  height: number;
+  bleedBox: PdfBox;
+  trimBox: PdfBox;
+  // Part of the rendered image that fills the bleed box, in image pixels
+  crop: PdfBox;
+  // Pixel size of the image placed on the page
+  rasterWidth: number;
+  rasterHeight: number;
+}
+
+/**
+ * Work out the page for a PDF export. Named page sizes turn to match the
+ * image, which fills the page and its bleed; with the image size, the
+ * bleed comes off the image's own edges.
+ * @param imageWidth Width of the full-resolution render
+ * @param imageHeight Height of the full-resolution render
+ * @param options Page size, DPI, bleed and crop marks
+ * @returns Page boxes in points, and how the image maps onto them
+ */
+export const getPdfPageLayout = (
+  imageWidth: number,
+  imageHeight: number,
+  options: ExportOptions
+): PdfPageLayout => {
+  const bleed = options.bleed * POINTS_PER_MM;
+  const margin = options.cropMarks ? CROP_MARK_OFFSET + CROP_MARK_LENGTH : 0;
+  const pageSize = PDF_PAGE_SIZES[options.pageSize].size;
+
+  let bleedWidth = (imageWidth / options.dpi) * POINTS_PER_INCH;
+  let bleedHeight = (imageHeight / options.dpi) * POINTS_PER_INCH;
+  if (pageSize) {
+    const [short, long] = pageSize.map(mm => mm * POINTS_PER_MM);
+    const isLandscape = imageWidth > imageHeight;
+    bleedWidth = (isLandscape ? long : short) + bleed * 2;
+    bleedHeight = (isLandscape ? short : long) + bleed * 2;
+  }
+
+  // Cover the bleed box, cropping whichever sides overflow
+  const scale = Math.max(bleedWidth / imageWidth, bleedHeight / imageHeight);
+  const cropWidth = bleedWidth / scale;
+  const cropHeight = bleedHeight / scale;
+
+  // Resample to the chosen DPI, but never above the image's own resolution
+  const rasterScale = Math.min(1, (bleedWidth / POINTS_PER_INCH) * options.dpi / cropWidth);
+
+  return {
+    width: bleedWidth + margin * 2,
+    height: bleedHeight + margin * 2,
+    bleedBox: { x: margin, y: margin, width: bleedWidth, height: bleedHeight },
+    trimBox: {
+      x: margin + bleed,
+      y: margin + bleed,
+      width: Math.max(bleedWidth - bleed * 2, 0),
+      height: Math.max(bleedHeight - bleed * 2, 0),
+    },
+    crop: {
+      x: (imageWidth - cropWidth) / 2,
+      y: (imageHeight - cropHeight) / 2,
+      width: cropWidth,
+      height: cropHeight,
+    },
+    rasterWidth: Math.max(1, Math.round(cropWidth * rasterScale)),
+    rasterHeight: Math.max(1, Math.round(cropHeight * rasterScale)),
+  };
+};
+
+const pdfNumber = (value: number): string => String(Math.round(value * 1000) / 1000);
+
+const pdfRect = ({ x, y, width, height }: PdfBox): string =>
+  `[${[x, y, x + width, y + height].map(pdfNumber).join(' ')}]`;
+
+// PDF syntax here only holds single-byte characters
+const toBytes = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(text, char => char.charCodeAt(0));
+
+/**
+ * Encode text as a PDF string for the built-in Helvetica font. Characters
+ * its encoding lacks become question marks.
+ */
+const toPdfString = (text: string): string => {
+  const encoded = Array.from(text).map(char => {
+    const code = char.codePointAt(0) ?? 0;
+    const isLatin1 = (code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff);
+    const byte = String.fromCharCode(WIN_ANSI_EXTRAS[char] ?? (isLatin1 ? code : 0x3f));
+    return byte === '(' || byte === ')' || byte === '\\' ? `\\${byte}` : byte;
+  });
+  return `(${encoded.join('')})`;
+};
+
+let measuringContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Measure text in Helvetica, or Arial where it is missing, since they share metrics
+ */
+const measureHelvetica = (text: string, fontSize: number): number => {
+  measuringContext = measuringContext || document.createElement('canvas').getContext('2d');
+  if (!measuringContext) return 0;
+  measuringContext.font = '100px Helvetica, Arial, sans-serif';
+  return (measuringContext.measureText(text).width * fontSize) / 100;
+};
+
+/**
+ * Write every text layer as invisible text over the image, so the PDF's
+ * text can be selected and searched. Each line is stretched to the width
+ * it has in the image.
+ * @param canvas The Fabric.js canvas instance
+ * @param toPage Transform from canvas coordinates to page points
+ * @returns Content stream operators
+ */
+const createTextOperators = (canvas: fabric.Canvas, toPage: TransformMatrix): string[] => {
+  const operators = ['BT', '/F1 1 Tf', '3 Tr'];
+
+  canvas.getObjects().forEach(obj => {
+    // TODO: Use module augmentation to extend fabric.Object with layerId property
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    if (!(obj instanceof fabric.Textbox) || !(obj as any).layerId) return;
+
+    const matrix = fabric.util.multiplyTransformMatrices(toPage, obj.calcTransformMatrix());
+    getTextObjectLines(obj).forEach(line => {
+      if (!line.text.trim()) return;
+
+      // Text space runs upwards from the baseline
+      const lineMatrix = fabric.util.multiplyTransformMatrices(matrix, [1, 0, 0, -1, line.x, line.y]);
+      const naturalWidth = measureHelvetica(line.text, obj.fontSize);
+      const scaling = naturalWidth > 0 ? (100 * line.width) / naturalWidth : 100;
+      operators.push(
+        `/F1 ${pdfNumber(obj.fontSize)} Tf ${pdfNumber(scaling)} Tz ` +
+          `${lineMatrix.map(pdfNumber).join(' ')} Tm ${toPdfString(line.text)} Tj`
+      );
+    });
+  });
+
+  operators.push('ET');
+  return operators;
+};
+
+/**
+ * Draw crop marks at the corners of the trimmed page, outside the bleed
+ */
+const createCropMarkOperators = ({ bleedBox, trimBox }: PdfPageLayout): string[] => {
+  const operators = ['0.25 w 0 G'];
+  const corners = [
+    { x: trimBox.x, outX: bleedBox.x - CROP_MARK_OFFSET, directionX: -1 },
+    { x: trimBox.x + trimBox.width, outX: bleedBox.x + bleedBox.width + CROP_MARK_OFFSET, directionX: 1 },
+  ];
+  const edges = [
+    { y: trimBox.y, outY: bleedBox.y - CROP_MARK_OFFSET, directionY: -1 },
+    { y: trimBox.y + trimBox.height, outY: bleedBox.y + bleedBox.height + CROP_MARK_OFFSET, directionY: 1 },
+  ];
+
+  corners.forEach(({ x, outX, directionX }) => {
+    edges.forEach(({ y, outY, directionY }) => {
+      const endX = outX + directionX * CROP_MARK_LENGTH;
+      const endY = outY + directionY * CROP_MARK_LENGTH;
+      operators.push(
+        `${pdfNumber(outX)} ${pdfNumber(y)} m ${pdfNumber(endX)} ${pdfNumber(y)} l S`,
+        `${pdfNumber(x)} ${pdfNumber(outY)} m ${pdfNumber(x)} ${pdfNumber(endY)} l S`
+      );
+    });
+  });
+  return operators;
+};
+
+/**
+ * Crop and resample the render for the page and encode it as JPEG, which
+ * PDF can hold as it is
+ */
+const encodePageImage = (rendered: HTMLCanvasElement, layout: PdfPageLayout): Promise<Uint8Array<ArrayBuffer>> => {
+  return new Promise((resolve, reject) => {
+    const raster = document.createElement('canvas');
+    raster.width = layout.rasterWidth;
+    raster.height = layout.rasterHeight;
+    const ctx = raster.getContext('2d');
+    if (!ctx) {
+      reject(new Error('Failed to prepare PDF image'));
+      return;
+    }
+
+    // Print has no transparency
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, raster.width, raster.height);
+    ctx.imageSmoothingQuality = 'high';
+    const { crop } = layout;
+    ctx.drawImage(rendered, crop.x, crop.y, crop.width, crop.height, 0, 0, raster.width, raster.height);
+
+    raster.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error('Failed to encode PDF image'));
+          return;
+        }
+        blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+      },
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+};
+
+const createStream = (dictionary: string, data: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer>[] => [
+  toBytes(`<< ${dictionary} /Length ${data.length} >>\nstream\n`),
+  data,
+  toBytes('\nendstream'),
+];
+
+/**
+ * Write numbered objects out as a PDF file with its cross-reference table.
+ * The first object is the catalog and the last the document info.
+ */
+const assemblePdf = (objects: Uint8Array<ArrayBuffer>[][]): Blob => {
+  const parts: Uint8Array<ArrayBuffer>[] = [toBytes('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+  let offset = parts[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((body, i) => {
+    offsets.push(offset);
+    [toBytes(`${i + 1} 0 obj\n`), ...body, toBytes('\nendobj\n')].forEach(part => {
+      parts.push(part);
+      offset += part.length;
+    });
+  });
+
+  // Each cross-reference entry is exactly 20 bytes
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(objectOffset => `${String(objectOffset).padStart(10, '0')} 00000 n `),
+  ].join('\n');
+  parts.push(toBytes(
+    `${xref}\ntrailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n` +
+      `startxref\n${offset}\n%%EOF\n`
+  ));
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
+
+/**
+ * Export a single-page PDF for print. The composition is placed as an
+ * image at full resolution, with the text layers over it as invisible,
+ * selectable text.
+ * @param canvas The Fabric.js canvas instance
+ * @param rendered The full-resolution render of the canvas
+ * @param options Page size, DPI, bleed and crop marks
+ * @returns A Promise that resolves with the PDF file
+ */
+export const exportToPdf = async (
+  canvas: FabricCanvas,
+  rendered: HTMLCanvasElement,
+  options: ExportOptions
+): Promise<Blob> => {
+  const layout = getPdfPageLayout(rendered.width, rendered.height, options);
+  const { bleedBox, crop } = layout;
+
+  // Canvas coordinates to page points, which run upwards from the bottom left
+  const pointsPerPixel = bleedBox.width / crop.width;
+  const scale = (rendered.width / canvas.getWidth()) * pointsPerPixel;
+  const toPage: TransformMatrix = [
+    scale, 0, 0, -scale,
+    bleedBox.x - crop.x * pointsPerPixel,
+    bleedBox.y + bleedBox.height + crop.y * pointsPerPixel,
+  ];
+
+  const content = [
+    'q',
+    `${pdfNumber(bleedBox.width)} 0 0 ${pdfNumber(bleedBox.height)} ${pdfNumber(bleedBox.x)} ${pdfNumber(bleedBox.y)} cm`,
+    '/Im1 Do',
+    'Q',
+    ...createTextOperators(canvas as unknown as fabric.Canvas, toPage),
+    ...(options.cropMarks ? createCropMarkOperators(layout) : []),
+  ].join('\n');
+
+  const image = await encodePageImage(rendered, layout);
+  const pageBox = { x: 0, y: 0, width: layout.width, height: layout.height };
+  const created = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+
+  return assemblePdf([
+    [toBytes('<< /Type /Catalog /Pages 2 0 R >>')],
+    [toBytes('<< /Type /Pages /Kids [3 0 R] /Count 1 >>')],
+    [toBytes(
+      `<< /Type /Page /Parent 2 0 R /MediaBox ${pdfRect(pageBox)} /BleedBox ${pdfRect(bleedBox)} ` +
+        `/TrimBox ${pdfRect(layout.trimBox)} /Resources << /XObject << /Im1 5 0 R >> /Font << /F1 6 0 R >> >> ` +
+        '/Contents 4 0 R >>'
+    )],
+    createStream('', toBytes(content)),
+    createStream(
+      `/Type /XObject /Subtype /Image /Width ${layout.rasterWidth} /Height ${layout.rasterHeight} ` +
+        '/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode',
+      image
+    ),
+    [toBytes('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')],
+    [toBytes(`<< /Producer (Image Text Compose) /CreationDate (D:${created}Z) >>`)],
+  ]);
+};
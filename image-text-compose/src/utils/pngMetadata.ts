@@ -0,0 +1,255 @@
+import { CanvasState } from '../types/canvas';
+import { CustomFont } from '../types/fonts';
+import { EmbeddedProject } from '../types/export';
+import { getUsedFontFamilies } from './fontUtils';
+import { CANVAS_STATE_VERSION, loadCanvasState, UNVERSIONED_STATE_VERSION } from './stateSchema';
+import { crc32 } from './zip';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Keyword of the iTXt chunk holding the project
+const PROJECT_KEYWORD = 'image-text-compose:project';
+
+export const EMBEDDED_PROJECT_VERSION = 1;
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+  // Offset of the chunk's length field in the file
+  offset: number;
+}
+
+/**
+ * Run bytes through a compression or decompression stream
+ */
+const transformBytes = async (
+  data: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> => {
+  const response = new Response(new Blob([data]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/**
+ * Split a PNG file into its chunks
+ * @param bytes Contents of the file
+ * @returns The chunks in file order, or null if the bytes are not a PNG
+ */
+const readChunks = (bytes: Uint8Array): PngChunk[] | null => {
+  if (bytes.length < PNG_SIGNATURE.length || PNG_SIGNATURE.some((byte, i) => bytes[i] !== byte)) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length), offset });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+const createChunk = (type: string, data: Uint8Array): Uint8Array<ArrayBuffer> => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  // The checksum covers the type and data
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+/**
+ * Package the editor state for embedding. Selection is dropped and the
+ * background keeps its data URL, which is all reopening needs.
+ * @param state Current editor state
+ * @param customFonts Uploaded fonts, to note which ones the layers use
+ * @returns The project to embed
+ */
+export const createEmbeddedProject = (state: CanvasState, customFonts: CustomFont[]): EmbeddedProject => {
+  const usedFamilies = getUsedFontFamilies(state.textLayers);
+
+  return {
+    version: EMBEDDED_PROJECT_VERSION,
+    stateVersion: CANVAS_STATE_VERSION,
+    state: {
+      backgroundImage: state.backgroundImage && { ...state.backgroundImage, file: null },
+      textLayers: state.textLayers,
+      imageLayers: state.imageLayers,
+      shapeLayers: state.shapeLayers,
+      groups: state.groups,
+      layerOrder: state.layerOrder,
+      selectedLayerIds: [],
+      canvasDimensions: state.canvasDimensions,
+    },
+    customFonts: customFonts.map(font => font.family).filter(family => usedFamilies.has(family)),
+  };
+};
+
+/**
+ * Add a project to a PNG as a compressed iTXt chunk, so the image can be
+ * reopened for editing. Image viewers ignore the chunk.
+ * @param png The encoded PNG
+ * @param project The project to embed
+ * @returns The PNG with the project added
+ */
+export const embedProjectInPng = async (png: Blob, project: EmbeddedProject): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const end = readChunks(bytes)?.find(chunk => chunk.type === 'IEND');
+  if (!end) {
+    throw new Error('Failed to add the project to the PNG');
+  }
+
+  const encoder = new TextEncoder();
+  const text = await transformBytes(encoder.encode(JSON.stringify(project)), new CompressionStream('deflate'));
+  const keyword = encoder.encode(PROJECT_KEYWORD);
+  // Keyword, then the compression flag and method, then empty language and translated keyword
+  const data = new Uint8Array(keyword.length + 5 + text.length);
+  data.set(keyword, 0);
+  data.set([0, 1, 0, 0, 0], keyword.length);
+  data.set(text, keyword.length + 5);
+
+  return new Blob(
+    [bytes.subarray(0, end.offset), createChunk('iTXt', data), bytes.subarray(end.offset)],
+    { type: 'image/png' }
+  );
+};
+
+/**
+ * Read a project embedded by embedProjectInPng
+ * @param file A PNG file
+ * @returns The project with its state migrated, or null if the file holds none that this version can open
+ */
+export const readProjectFromPng = async (file: Blob): Promise<EmbeddedProject | null> => {
+  const chunks = readChunks(new Uint8Array(await file.arrayBuffer()));
+  const keyword = new TextEncoder().encode(PROJECT_KEYWORD);
+  const chunk = chunks?.find(({ type, data }) =>
+    type === 'iTXt' && data[keyword.length] === 0 && keyword.every((byte, i) => data[i] === byte)
+  );
+  if (!chunk) return null;
+
+  try {
+    const isCompressed = chunk.data[keyword.length + 1] === 1;
+    // Skip the empty language tag and translated keyword
+    let textStart = keyword.length + 3;
+    for (let nulls = 0; nulls < 2 && textStart < chunk.data.length; textStart++) {
+      if (chunk.data[textStart] === 0) nulls++;
+    }
+
+    let text: Uint8Array<ArrayBuffer> = chunk.data.slice(textStart);
+    if (isCompressed) {
+      text = await transformBytes(text, new DecompressionStream('deflate'));
+    }
+
+    const project = JSON.parse(new TextDecoder().decode(text)) as EmbeddedProject;
+    if (project.version !== EMBEDDED_PROJECT_VERSION) return null;
+
+    const { state, problems } = loadCanvasState(
+      project.state,
+      project.stateVersion ?? UNVERSIONED_STATE_VERSION
+    );
+    if (problems.length > 0) {
+      console.warn('The project embedded in the PNG is damaged:', problems);
+    }
+    if (!state?.backgroundImage) return null;
+    return {
+      ...project,
+      stateVersion: CANVAS_STATE_VERSION,
+      state,
+      customFonts: Array.isArray(project.customFonts) ? project.customFonts : [],
+    };
+  } catch (error) {
+    console.warn('Could not read the project embedded in the PNG:', error);
+    return null;
+  }
+};
+
+/**
+ * Read a PNG's size from its header, without decoding the image
+ * @param bytes Contents of the file
+ * @returns The size in pixels, or null if the bytes are not a PNG
+ */
+export const readPngSize = (bytes: Uint8Array): { width: number; height: number } | null => {
+  const header = readChunks(bytes)?.[0];
+  if (header?.type !== 'IHDR' || header.data.length < 8) return null;
+
+  const view = new DataView(header.data.buffer, header.data.byteOffset, header.data.byteLength);
+  return { width: view.getUint32(0), height: view.getUint32(4) };
+};
+
+/**
+ * Read the ICC profile from a PNG's iCCP chunk
+ * @param bytes Contents of the file
+ * @returns The profile, or null if the PNG has none
+ */
+export const readPngIccProfile = async (bytes: Uint8Array): Promise<Uint8Array<ArrayBuffer> | null> => {
+  const chunk = readChunks(bytes)?.find(({ type }) => type === 'iCCP');
+  if (!chunk) return null;
+
+  // Profile name, then a null and the compression method
+  const nameEnd = chunk.data.indexOf(0);
+  if (nameEnd < 0) return null;
+  try {
+    return await transformBytes(chunk.data.slice(nameEnd + 2), new DecompressionStream('deflate'));
+  } catch (error) {
+    console.warn('Could not read the color profile in the PNG:', error);
+    return null;
+  }
+};
+
+/**
+ * Record the print resolution in a pHYs chunk and, optionally, a color
+ * profile in an iCCP chunk. Both replace any the PNG already has.
+ * @param png The encoded PNG
+ * @param dpi Dots per inch
+ * @param profile ICC profile to embed, or null to leave the color space unstated
+ * @returns The PNG with its metadata set
+ */
+export const addPngColorMetadata = async (
+  png: Blob,
+  dpi: number,
+  profile: Uint8Array<ArrayBuffer> | null
+): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const chunks = readChunks(bytes);
+  const header = chunks?.find(chunk => chunk.type === 'IHDR');
+  if (!chunks || !header) {
+    throw new Error('Failed to add color information to the PNG');
+  }
+
+  // pHYs counts pixels per metre
+  const physical = new Uint8Array(9);
+  const physicalView = new DataView(physical.buffer);
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  physicalView.setUint32(0, pixelsPerMetre);
+  physicalView.setUint32(4, pixelsPerMetre);
+  physical[8] = 1;
+  const added = [createChunk('pHYs', physical)];
+
+  // A profile supersedes the sRGB and gamma chunks browsers may write
+  const replaced = profile ? ['pHYs', 'iCCP', 'sRGB', 'gAMA', 'cHRM'] : ['pHYs'];
+  if (profile) {
+    const name = new TextEncoder().encode('ICC Profile');
+    const compressed = await transformBytes(profile, new CompressionStream('deflate'));
+    const data = new Uint8Array(name.length + 2 + compressed.length);
+    data.set(name, 0);
+    data.set(compressed, name.length + 2);
+    added.unshift(createChunk('iCCP', data));
+  }
+
+  // Color chunks must come before the image data, so they go straight after the header
+  const parts: Uint8Array<ArrayBuffer>[] = [bytes.slice(0, PNG_SIGNATURE.length)];
+  chunks.forEach((chunk) => {
+    if (replaced.includes(chunk.type)) return;
+    parts.push(bytes.slice(chunk.offset, chunk.offset + 12 + chunk.data.length));
+    if (chunk === header) parts.push(...added);
+  });
+  return new Blob(parts, { type: 'image/png' });
+};
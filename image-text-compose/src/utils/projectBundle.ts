@@ -0,0 +1,215 @@
+import { CanvasState } from '../types/canvas';
+import { CustomFont } from '../types/fonts';
+import { OpenedProject, ProjectBundleAsset, ProjectBundleFont, ProjectManifest } from '../types/project';
+import { getUsedFontFamilies } from './fontUtils';
+import { CANVAS_STATE_VERSION, loadCanvasState, UNVERSIONED_STATE_VERSION } from './stateSchema';
+import { createZip, readZip, ZipEntry } from './zip';
+
+export const PROJECT_BUNDLE_VERSION = 1;
+
+export const PROJECT_FILE_EXTENSION = 'itc';
+
+const MANIFEST_PATH = 'manifest.json';
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+const FONT_EXTENSIONS: Record<CustomFont['format'], string> = {
+  truetype: 'ttf',
+  opentype: 'otf',
+  woff: 'woff',
+  woff2: 'woff2',
+};
+
+const isBundleAsset = (asset: unknown): asset is ProjectBundleAsset =>
+  typeof asset === 'object' && asset !== null &&
+  typeof (asset as ProjectBundleAsset).path === 'string' &&
+  typeof (asset as ProjectBundleAsset).mimeType === 'string';
+
+const isBundleFont = (font: unknown): font is ProjectBundleFont =>
+  typeof font === 'object' && font !== null &&
+  typeof (font as ProjectBundleFont).family === 'string' &&
+  ((font as ProjectBundleFont).path === null || typeof (font as ProjectBundleFont).path === 'string') &&
+  Object.keys(FONT_EXTENSIONS).includes((font as ProjectBundleFont).format);
+
+/**
+ * Read the bytes behind an image URL, whether a data URL, an object URL or a web address
+ * @param url The image URL
+ * @returns The bytes and their MIME type
+ */
+const fetchAsset = async (url: string): Promise<{ data: Uint8Array<ArrayBuffer>; mimeType: string }> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Couldn't read ${url.startsWith('data:') ? 'an embedded image' : url}`);
+  }
+  const blob = await response.blob();
+  return { data: new Uint8Array(await blob.arrayBuffer()), mimeType: blob.type || 'application/octet-stream' };
+};
+
+/**
+ * Turn bundled bytes back into a data URL, which autosave can store
+ * @param data File contents
+ * @param mimeType Type to label the URL with
+ * @returns The data URL
+ */
+const toDataUrl = (data: Uint8Array<ArrayBuffer>, mimeType: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(new Blob([data], { type: mimeType }));
+  });
+
+/**
+ * Save a composition as a .itc bundle: a ZIP holding manifest.json, the
+ * background and image layer files, and the uploaded fonts the text uses
+ * @param state The editor state
+ * @param customFonts Uploaded fonts; only those the layers use are bundled
+ * @returns The bundle
+ */
+export const createProjectBundle = async (state: CanvasState, customFonts: CustomFont[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const assets: ProjectBundleAsset[] = [];
+  // Layers sharing an image share its file
+  const pathsByUrl = new Map<string, string>();
+
+  const addAsset = async (url: string, name: string): Promise<string> => {
+    const existing = pathsByUrl.get(url);
+    if (existing) return existing;
+
+    const { data, mimeType } = await fetchAsset(url);
+    const path = `${name}.${FILE_EXTENSIONS[mimeType] || 'bin'}`;
+    entries.push({ name: path, data });
+    assets.push({ path, mimeType });
+    pathsByUrl.set(url, path);
+    return path;
+  };
+
+  const backgroundImage = state.backgroundImage && {
+    ...state.backgroundImage,
+    url: await addAsset(state.backgroundImage.url, 'background'),
+    file: null,
+  };
+
+  const imageLayers = [];
+  for (const layer of state.imageLayers) {
+    imageLayers.push({ ...layer, src: await addAsset(layer.src, `images/${layer.id}`) });
+  }
+
+  const fonts = [];
+  for (const family of getUsedFontFamilies(state.textLayers)) {
+    const font = customFonts.find(font => font.family === family);
+    if (!font) continue;
+
+    // Fonts saved before their files were stored have only their details
+    let path: string | null = null;
+    if (font.file) {
+      path = `fonts/${entries.length}.${FONT_EXTENSIONS[font.format]}`;
+      entries.push({ name: path, data: new Uint8Array(await font.file.arrayBuffer()) });
+    }
+    fonts.push({ family, format: font.format, path });
+  }
+
+  const manifest: ProjectManifest = {
+    format: 'image-text-compose',
+    version: PROJECT_BUNDLE_VERSION,
+    savedAt: new Date().toISOString(),
+    stateVersion: CANVAS_STATE_VERSION,
+    state: { ...state, backgroundImage, imageLayers, selectedLayerIds: [] },
+    assets,
+    fonts,
+  };
+
+  // The manifest goes first so tools listing the archive find it quickly
+  return createZip([
+    { name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+    ...entries,
+  ]);
+};
+
+/**
+ * Open a .itc bundle written by createProjectBundle
+ * @param file The bundle
+ * @returns The editor state, migrated and with its images as data URLs, and the bundled fonts
+ */
+export const readProjectBundle = async (file: Blob): Promise<OpenedProject> => {
+  let entries: ZipEntry[];
+  try {
+    entries = await readZip(file);
+  } catch (error) {
+    throw new Error(`This isn't a project file: ${error instanceof Error ? error.message : 'unreadable'}`);
+  }
+
+  const files = new Map(entries.map(entry => [entry.name, entry.data]));
+  const manifestData = files.get(MANIFEST_PATH);
+  if (!manifestData) {
+    throw new Error("This isn't a project file: it has no manifest");
+  }
+
+  let manifest: ProjectManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestData)) as ProjectManifest;
+  } catch {
+    throw new Error('The project manifest is damaged');
+  }
+  if (manifest?.format !== 'image-text-compose' || !manifest.state) {
+    throw new Error("This isn't an Image Text Composer project");
+  }
+  if (manifest.version > PROJECT_BUNDLE_VERSION) {
+    throw new Error('This project was saved by a newer version of the editor');
+  }
+  if (!Array.isArray(manifest.assets) || !manifest.assets.every(isBundleAsset) ||
+    !Array.isArray(manifest.fonts) || !manifest.fonts.every(isBundleFont)) {
+    throw new Error('The project manifest is damaged');
+  }
+
+  const urlsByPath = new Map<string, string>();
+  for (const asset of manifest.assets) {
+    const data = files.get(asset.path);
+    if (!data) {
+      throw new Error(`The project is missing ${asset.path}`);
+    }
+    urlsByPath.set(asset.path, await toDataUrl(data, asset.mimeType));
+  }
+  // Paths not in the bundle are left as they were, which keeps web addresses working
+  const resolve = (url: string) => urlsByPath.get(url) ?? url;
+
+  const { state, problems } = loadCanvasState(
+    manifest.state,
+    manifest.stateVersion ?? UNVERSIONED_STATE_VERSION
+  );
+  if (!state) {
+    throw new Error(`The project is damaged: ${problems[0]}`);
+  }
+  const backgroundImage = state.backgroundImage && {
+    ...state.backgroundImage,
+    url: resolve(state.backgroundImage.url),
+  };
+
+  const fonts: OpenedProject['fonts'] = [];
+  const missingFonts: string[] = [];
+  manifest.fonts.forEach(({ family, path }) => {
+    const data = path && files.get(path);
+    if (data) {
+      fonts.push({ family, file: new File([data], path.slice(path.lastIndexOf('/') + 1)) });
+    } else {
+      missingFonts.push(family);
+    }
+  });
+
+  return {
+    state: {
+      ...state,
+      backgroundImage,
+      imageLayers: state.imageLayers.map(layer => ({ ...layer, src: resolve(layer.src) })),
+    },
+    fonts,
+    missingFonts,
+    problems,
+  };
+};
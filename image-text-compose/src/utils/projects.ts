@@ -0,0 +1,53 @@
+import { ProjectSummary } from '../types/project';
+
+// Width of project thumbnails in the library, in pixels
+export const THUMBNAIL_WIDTH = 320;
+
+/**
+ * Make a project name unique by numbering it, as "Untitled project 2"
+ * @param name The name wanted
+ * @param projects Projects already in the library
+ * @returns The name, numbered if another project has it
+ */
+export const getUniqueProjectName = (name: string, projects: ProjectSummary[]): string => {
+  const names = new Set(projects.map(project => project.name));
+  if (!names.has(name)) return name;
+
+  let number = 2;
+  while (names.has(`${name} ${number}`)) number++;
+  return `${name} ${number}`;
+};
+
+/**
+ * Filter projects by name and sort the most recently edited first
+ * @param projects Projects in the library
+ * @param query Search text; empty keeps every project
+ * @returns The matching projects
+ */
+export const searchProjects = (projects: ProjectSummary[], query: string): ProjectSummary[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return projects
+    .filter(project => terms.every(term => project.name.toLowerCase().includes(term)))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Describe how long ago something happened, as "5 minutes ago"
+ * @param timestamp Time in milliseconds
+ * @param now Current time in milliseconds
+ * @returns The description, or the date for anything older than a week
+ */
+export const formatTimeAgo = (timestamp: number, now = Date.now()): string => {
+  const seconds = Math.max(0, Math.round((now - timestamp) / 1000));
+  if (seconds < 60) return 'just now';
+
+  const [count, unit]: [number, string] = seconds < 60 * 60
+    ? [Math.floor(seconds / 60), 'minute']
+    : seconds < 60 * 60 * 24
+    ? [Math.floor(seconds / (60 * 60)), 'hour']
+    : [Math.floor(seconds / (60 * 60 * 24)), 'day'];
+  if (unit !== 'day' || count < 7) {
+    return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+  }
+  return new Date(timestamp).toLocaleDateString();
+};
@@ -0,0 +1,224 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Worker } from 'worker_threads';
+import { CanvasState } from '../types/canvas';
+import {
+  RenderFont,
+  RenderRequest,
+  RenderRequestValidation,
+  RenderWorkerData,
+  RenderWorkerResponse,
+} from '../types/export';
+import { readJpegSize } from './jpegMetadata';
+import { readPngSize } from './pngMetadata';
+import { loadCanvasState, UNVERSIONED_STATE_VERSION } from './stateSchema';
+
+// Server-only: imported by the render API route, never by the editor
+
+// Limits on the fonts one request can send, which are written to disk to render
+const MAX_RENDER_FONTS = 10;
+const MAX_RENDER_FONT_BYTES = 10 * 1024 * 1024;
+
+// Largest image a request can draw or produce; node-canvas allocates the whole surface up front
+const MAX_RENDER_SIDE = 10_000;
+const MAX_RENDER_PIXELS = 40_000_000;
+
+// A render still running after this is stopped
+const RENDER_TIMEOUT = 60 * 1000;
+
+const FONT_DATA_URL = /^data:[^;,]*;base64,(.*)$/;
+
+// Only images sent inline are drawn; the server never fetches URLs or reads files for a request
+const IMAGE_DATA_URL = /^data:image\/[a-z0-9.+-]+(;[^;,]+)*;base64,/i;
+
+type PixelSize = { width: number; height: number };
+
+/**
+ * Check the fonts sent with a request
+ * @param fonts The request's fonts
+ * @returns An error message, or null if they can be used
+ */
+const validateRenderFonts = (fonts: unknown): string | null => {
+  if (!Array.isArray(fonts)) {
+    return 'Fonts must be an array';
+  }
+  if (fonts.length > MAX_RENDER_FONTS) {
+    return `A request can send at most ${MAX_RENDER_FONTS} fonts`;
+  }
+  for (const font of fonts as Partial<RenderFont>[]) {
+    const match = typeof font?.data === 'string' ? FONT_DATA_URL.exec(font.data) : null;
+    if (typeof font?.family !== 'string' || !font.family || !match) {
+      return 'Each font needs a family and its file as a base64 data URL';
+    }
+    // Four base64 characters hold three bytes
+    if (match[1].length * 0.75 > MAX_RENDER_FONT_BYTES) {
+      return `Font ${font.family} is larger than ${MAX_RENDER_FONT_BYTES / (1024 * 1024)} MB`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Write a request's fonts to files, since node-canvas only loads fonts from files
+ * @param fonts Validated fonts
+ * @param directory Where to write them; the caller deletes it
+ * @returns Each family with its file
+ */
+const writeFonts = (fonts: RenderFont[], directory: string): Promise<RenderWorkerData['fonts']> =>
+  Promise.all(fonts.map(async (font, i) => {
+    const path = join(directory, `font-${i}`);
+    await writeFile(path, Buffer.from(FONT_DATA_URL.exec(font.data)![1], 'base64'));
+    return { family: font.family, path };
+  }));
+
+/**
+ * Run a render in a new worker thread and wait for the image
+ */
+const runRenderWorker = (data: RenderWorkerData): Promise<{ data: Buffer; mimeType: string }> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/renderWorker.ts', import.meta.url), { workerData: data });
+    const timer = setTimeout(() => {
+      worker.terminate();
+      reject(new Error('The render took too long'));
+    }, RENDER_TIMEOUT);
+    const finish = () => {
+      clearTimeout(timer);
+      worker.terminate();
+    };
+
+    worker.once('message', (message: RenderWorkerResponse) => {
+      finish();
+      if (message.type === 'done') {
+        resolve({ data: Buffer.from(message.data), mimeType: message.mimeType });
+      } else {
+        reject(new Error(message.message));
+      }
+    });
+    worker.once('error', (error) => {
+      finish();
+      reject(error);
+    });
+    // Does nothing when a message has already settled the render
+    worker.once('exit', () => {
+      finish();
+      reject(new Error('The render stopped before it finished'));
+    });
+  });
+
+/**
+ * Read an inline image's size from its header, without decoding the image
+ * @param url A base64 data:image URL
+ * @returns The size in pixels, or null if the image isn't a PNG, JPEG or GIF
+ */
+const readImageSize = (url: string): PixelSize | null => {
+  const bytes = new Uint8Array(Buffer.from(url.slice(url.indexOf(',') + 1), 'base64'));
+  if (bytes.length >= 10 && String.fromCharCode(...bytes.subarray(0, 4)) === 'GIF8') {
+    // The logical screen size follows the signature, least significant byte first
+    return { width: bytes[6] | (bytes[7] << 8), height: bytes[8] | (bytes[9] << 8) };
+  }
+  return readPngSize(bytes) ?? readJpegSize(bytes);
+};
+
+const isWithinRenderLimits = ({ width, height }: PixelSize) =>
+  width > 0 && height > 0 &&
+  width <= MAX_RENDER_SIDE && height <= MAX_RENDER_SIDE &&
+  width * height <= MAX_RENDER_PIXELS;
+
+/**
+ * Check a render request before any work is done. The background's size
+ * is read from the image itself, since the export resolution follows it.
+ * @param body Parsed request body
+ * @returns The state to render, or an error message if the request can't be rendered
+ */
+export const validateRenderRequest = (body: unknown): RenderRequestValidation => {
+  const invalid = (error: string): RenderRequestValidation => ({ state: null, error });
+
+  const request = body as Partial<RenderRequest> | null;
+  if (!request?.project?.state) {
+    return invalid('Request must include a project');
+  }
+  // Unlike the editor, the API rejects damaged projects rather than rendering part of them
+  const { state, problems } = loadCanvasState(
+    request.project.state,
+    request.project.stateVersion ?? UNVERSIONED_STATE_VERSION
+  );
+  if (problems.length > 0) {
+    return invalid(`Invalid project: ${problems[0]}`);
+  }
+  if (!state?.backgroundImage) {
+    return invalid('Project must include a background image with dimensions');
+  }
+  const urls = [state.backgroundImage.url, ...state.imageLayers.map(layer => layer.src)];
+  if (!urls.every(url => IMAGE_DATA_URL.test(url))) {
+    return invalid('The background and image layers must be base64 data:image URLs');
+  }
+  const sizes = urls.map(readImageSize);
+  if (sizes.includes(null)) {
+    return invalid('The background and image layers must be PNG, JPEG or GIF images');
+  }
+  const limit = `${MAX_RENDER_SIDE} pixels a side and ${MAX_RENDER_PIXELS / 1_000_000} megapixels`;
+  if (!(sizes as PixelSize[]).every(isWithinRenderLimits)) {
+    return invalid(`Images can be at most ${limit}`);
+  }
+
+  // The export matches the background's resolution, as getExportMultiplier works it out
+  const background = sizes[0] as PixelSize;
+  const { canvasDimensions } = state;
+  const multiplier = Math.max(
+    background.width / canvasDimensions.width,
+    background.height / canvasDimensions.height
+  );
+  if (!isWithinRenderLimits(canvasDimensions) || !isWithinRenderLimits({
+    width: Math.round(canvasDimensions.width * multiplier),
+    height: Math.round(canvasDimensions.height * multiplier),
+  })) {
+    return invalid(`The canvas and the rendered image can be at most ${limit}`);
+  }
+
+  if (request.format && request.format !== 'png' && request.format !== 'jpeg') {
+    return invalid('Format must be png or jpeg');
+  }
+  const fontError = request.fonts === undefined ? null : validateRenderFonts(request.fonts);
+  if (fontError) {
+    return invalid(fontError);
+  }
+
+  return {
+    state: {
+      ...state,
+      backgroundImage: {
+        ...state.backgroundImage,
+        dimensions: { ...background, aspectRatio: background.width / background.height },
+      },
+    },
+    error: null,
+  };
+};
+
+/**
+ * Render a project to an image in Node. Layers are built by the same code
+ * the editor uses, and the output has the original image's resolution,
+ * matching the editor's export. Each render runs in its own worker thread
+ * with the request's fonts, which are deleted afterwards.
+ * @param request A render request
+ * @param state The state validateRenderRequest returned for it
+ * @returns The encoded image and its MIME type
+ */
+export const renderProject = async (
+  request: RenderRequest,
+  state: CanvasState
+): Promise<{ data: Buffer; mimeType: string }> => {
+  const fontDirectory = await mkdtemp(join(tmpdir(), 'image-text-compose-fonts-'));
+  try {
+    return await runRenderWorker({
+      state,
+      fonts: await writeFonts(request.fonts || [], fontDirectory),
+      format: request.format || 'png',
+      quality: request.quality,
+      matteColor: request.matteColor,
+    });
+  } finally {
+    await rm(fontDirectory, { recursive: true, force: true });
+  }
+};
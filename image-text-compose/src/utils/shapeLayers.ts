@@ -0,0 +1,169 @@
+import { nanoid } from 'nanoid';
+import { ShapeLayerProperties, ShapeType } from '@/types/canvas';
+import * as fabric from 'fabric';
+
+// Default properties for new shape layers
+export const DEFAULT_SHAPE_PROPERTIES: ShapeLayerProperties = {
+  id: '',
+  shapeType: 'rect',
+  fill: 'rgba(0,0,0,0.5)',
+  stroke: '#000000',
+  strokeWidth: 0,
+  cornerRadius: 0,
+  opacity: 1,
+  left: 0,
+  top: 0,
+  width: 200,
+  height: 100,
+  scaleX: 1,
+  scaleY: 1,
+  angle: 0,
+  locked: false,
+};
+
+// Per-type starting geometry and paint, so a new band or arrow is usable right away
+export const SHAPE_TYPE_DEFAULTS: Record<ShapeType, Partial<ShapeLayerProperties>> = {
+  rect: { width: 300, height: 80, fill: 'rgba(0,0,0,0.5)', strokeWidth: 0 },
+  ellipse: { width: 160, height: 160, fill: 'rgba(255,255,255,0.5)', strokeWidth: 0 },
+  line: { width: 200, height: 20, fill: 'transparent', stroke: '#ffffff', strokeWidth: 4 },
+  arrow: { width: 200, height: 30, fill: 'transparent', stroke: '#ff0000', strokeWidth: 6 },
+};
+
+export const SHAPE_TYPE_LABELS: Record<ShapeType, string> = {
+  rect: 'Rectangle',
+  ellipse: 'Ellipse',
+  line: 'Line',
+  arrow: 'Arrow',
+};
+
+/**
+ * Whether a shape type is drawn as a stroke only (no fill area)
+ * @param shapeType - Shape type
+ */
+export const isStrokeOnlyShape = (shapeType: ShapeType): boolean =>
+  shapeType === 'line' || shapeType === 'arrow';
+
+/**
+ * Horizontal line or arrow centered in its box. The box height is the
+ * arrowhead width, so the line stays easy to grab and rotate.
+ */
+class LineShape extends fabric.FabricObject {
+  static type = 'LineShape';
+
+  declare arrowHead: boolean;
+
+  _render(ctx: CanvasRenderingContext2D) {
+    const halfWidth = this.width / 2;
+    const headLength = this.arrowHead
+      ? Math.min(this.width / 2, Math.max(this.height, this.strokeWidth * 3))
+      : 0;
+
+    ctx.beginPath();
+    ctx.moveTo(-halfWidth, 0);
+    ctx.lineTo(halfWidth - headLength / 2, 0);
+    this._renderStroke(ctx);
+
+    if (this.arrowHead) {
+      // Filled arrowhead in the stroke color
+      ctx.beginPath();
+      ctx.moveTo(halfWidth, 0);
+      ctx.lineTo(halfWidth - headLength, -this.height / 2);
+      ctx.lineTo(halfWidth - headLength, this.height / 2);
+      ctx.closePath();
+      ctx.fillStyle = this.stroke as string;
+      ctx.fill();
+    }
+  }
+}
+
+/**
+ * Create a new shape layer with default properties
+ * @param shapeType - Kind of shape to create
+ * @param overrides - Optional properties to override defaults
+ * @returns A new shape layer object
+ */
+export const createShapeLayer = (
+  shapeType: ShapeType,
+  overrides: Partial<ShapeLayerProperties> = {}
+): ShapeLayerProperties => {
+  return {
+    ...DEFAULT_SHAPE_PROPERTIES,
+    ...SHAPE_TYPE_DEFAULTS[shapeType],
+    id: nanoid(),
+    shapeType,
+    ...overrides,
+  };
+};
+
+/**
+ * Create a Fabric.js object from shape layer properties
+ * @param layer - Shape layer properties
+ * @returns Fabric.js object drawing the shape
+ */
+export const createShapeObjectFromLayer = (layer: ShapeLayerProperties): fabric.FabricObject => {
+  let shapeObj: fabric.FabricObject;
+
+  switch (layer.shapeType) {
+    case 'ellipse':
+      shapeObj = new fabric.Ellipse();
+      break;
+    case 'line':
+    case 'arrow':
+      shapeObj = new LineShape();
+      break;
+    case 'rect':
+    default:
+      shapeObj = new fabric.Rect();
+      break;
+  }
+
+  // Keep stroke width constant when the shape is scaled on the canvas
+  shapeObj.set({ strokeUniform: true });
+  updateShapeObjectFromLayer(shapeObj, layer);
+
+  // Store layer ID and shape type for tracking
+  // TODO: Use module augmentation to extend fabric.Object with layerId property
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (shapeObj as any).layerId = layer.id;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (shapeObj as any).shapeType = layer.shapeType;
+  return shapeObj;
+};
+
+/**
+ * Update a Fabric.js shape object with shape layer properties.
+ * The object must have been created for the same shape type.
+ * @param shapeObj - Fabric.js object to update
+ * @param layer - Shape layer properties
+ */
+export const updateShapeObjectFromLayer = (
+  shapeObj: fabric.FabricObject,
+  layer: ShapeLayerProperties
+): void => {
+  shapeObj.set({
+    left: layer.left,
+    top: layer.top,
+    width: layer.width,
+    height: layer.height,
+    scaleX: layer.scaleX,
+    scaleY: layer.scaleY,
+    angle: layer.angle,
+    fill: isStrokeOnlyShape(layer.shapeType) ? '' : layer.fill,
+    stroke: layer.strokeWidth > 0 ? layer.stroke : null,
+    strokeWidth: layer.strokeWidth,
+    opacity: layer.opacity,
+    visible: true,
+    selectable: !layer.locked,
+    evented: !layer.locked,
+  });
+
+  if (layer.shapeType === 'rect') {
+    shapeObj.set({ rx: layer.cornerRadius, ry: layer.cornerRadius });
+  } else if (layer.shapeType === 'ellipse') {
+    shapeObj.set({ rx: layer.width / 2, ry: layer.height / 2 });
+  } else {
+    shapeObj.set({ arrowHead: layer.shapeType === 'arrow' });
+  }
+
+  shapeObj.setCoords();
+};
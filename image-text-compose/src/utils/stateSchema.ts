@@ -0,0 +1,365 @@
+import {
+  BackgroundImage,
+  CanvasState,
+  CanvasStateValidation,
+  GradientType,
+  ImageLayerProperties,
+  LayerGroup,
+  ShapeLayerProperties,
+  ShapeType,
+  TextAlign,
+  TextAnimationDirection,
+  TextAnimationType,
+  TextBackgroundMode,
+  TextFitMode,
+  TextFontStyle,
+  TextLayerProperties,
+  TextPathType,
+  TextStrokePosition,
+  TextTransform,
+  TextVerticalAlign,
+  VersionedCanvasState,
+} from '../types/canvas';
+
+// Version of the CanvasState shape. Bump it, and add a migration from the
+// previous version, whenever a change would load older saves wrongly.
+export const CANVAS_STATE_VERSION = 2;
+
+// State saved before it carried a version
+export const UNVERSIONED_STATE_VERSION = 1;
+
+type SavedState = Record<string, unknown>;
+
+/**
+ * Upgrade saved state by one version. Migrations work on plain data and
+ * only need to handle what the version they upgrade from could contain.
+ */
+type CanvasStateMigration = (state: SavedState) => SavedState;
+
+// migrations[n] upgrades state saved in version n to version n + 1
+const migrations: Record<number, CanvasStateMigration> = {
+  // Saves made before image, shape and group support only carry text layers
+  1: (state) => ({
+    ...state,
+    imageLayers: state.imageLayers ?? [],
+    shapeLayers: state.shapeLayers ?? [],
+    groups: state.groups ?? [],
+    layerOrder: state.layerOrder ?? (Array.isArray(state.textLayers)
+      ? state.textLayers.map((layer: { id?: unknown }) => layer?.id)
+      : []),
+  }),
+};
+
+const SHAPE_TYPES: ShapeType[] = ['rect', 'ellipse', 'line', 'arrow'];
+const TEXT_ALIGNS: TextAlign[] = ['left', 'center', 'right', 'justify', 'justify-all'];
+const FONT_STYLES: TextFontStyle[] = ['normal', 'italic', 'oblique'];
+const TEXT_TRANSFORMS: TextTransform[] = ['none', 'uppercase', 'lowercase', 'title'];
+const VERTICAL_ALIGNS: TextVerticalAlign[] = ['top', 'middle', 'bottom'];
+const FIT_MODES: TextFitMode[] = ['none', 'shrink', 'fill'];
+const STROKE_POSITIONS: TextStrokePosition[] = ['outside', 'center', 'inside'];
+const BACKGROUND_MODES: TextBackgroundMode[] = ['block', 'line'];
+const TEXT_PATH_TYPES: TextPathType[] = ['arc', 'circle', 'bezier'];
+const GRADIENT_TYPES: GradientType[] = ['linear', 'radial'];
+const ANIMATION_TYPES: TextAnimationType[] = ['fade', 'slide', 'typewriter', 'scale'];
+const ANIMATION_DIRECTIONS: TextAnimationDirection[] = ['left', 'right', 'top', 'bottom'];
+
+const isRecord = (value: unknown): value is SavedState =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isOneOf = (values: readonly string[]) => (value: unknown) =>
+  values.includes(value as string);
+
+const hasStrings = (value: SavedState, keys: string[]) =>
+  keys.every(key => typeof value[key] === 'string');
+
+const hasNumbers = (value: SavedState, keys: string[]) =>
+  keys.every(key => isNumber(value[key]));
+
+// Objects that may also be null to mean off
+const isNullOr = (isValid: (value: unknown) => boolean) => (value: unknown) =>
+  value === null || isValid(value);
+
+// Position and size every layer kind keeps
+const TRANSFORM_KEYS = ['left', 'top', 'angle', 'scaleX', 'scaleY', 'opacity'];
+
+const isTextLayer = (layer: unknown): layer is TextLayerProperties =>
+  isRecord(layer) &&
+  hasStrings(layer, ['id', 'text', 'fontFamily', 'color', 'textAlign']) &&
+  hasNumbers(layer, [...TRANSFORM_KEYS, 'fontSize', 'width', 'height']) &&
+  (typeof layer.fontWeight === 'string' || isNumber(layer.fontWeight));
+
+const isSpanStyle = (style: unknown) =>
+  isRecord(style) &&
+  (style.fontFamily === undefined || typeof style.fontFamily === 'string') &&
+  (style.fontSize === undefined || (isNumber(style.fontSize) && style.fontSize > 0)) &&
+  (style.fontWeight === undefined || typeof style.fontWeight === 'string' || isNumber(style.fontWeight)) &&
+  (style.color === undefined || typeof style.color === 'string') &&
+  (style.underline === undefined || isBoolean(style.underline)) &&
+  (style.linethrough === undefined || isBoolean(style.linethrough));
+
+const isPoint = (point: unknown) => isRecord(point) && hasNumbers(point, ['x', 'y']);
+
+/**
+ * Checks for the text layer fields that can be left out. A field that fails
+ * is unset, or set to its default if it has one, and the rest of the layer
+ * is kept; the layer code would otherwise throw while drawing it.
+ */
+const TEXT_LAYER_FIELDS: Record<string, { isValid: (value: unknown) => boolean; fallback?: unknown }> = {
+  textAlign: { isValid: isOneOf(TEXT_ALIGNS), fallback: 'left' },
+  fontStyle: { isValid: isOneOf(FONT_STYLES) },
+  underline: { isValid: isBoolean },
+  overline: { isValid: isBoolean },
+  linethrough: { isValid: isBoolean },
+  textTransform: { isValid: isOneOf(TEXT_TRANSFORMS) },
+  fontFeatures: {
+    isValid: value => isRecord(value) && ['ligatures', 'smallCaps', 'tabularFigures'].every(key => isBoolean(value[key])),
+  },
+  lineHeight: { isValid: value => isNumber(value) && value > 0 },
+  charSpacing: { isValid: isNumber },
+  shadow: {
+    isValid: isNullOr(value => isRecord(value) && typeof value.color === 'string' &&
+      hasNumbers(value, ['blur', 'offsetX', 'offsetY'])),
+  },
+  stroke: {
+    isValid: isNullOr(value => isRecord(value) && typeof value.color === 'string' &&
+      isNumber(value.width) && isOneOf(STROKE_POSITIONS)(value.position)),
+  },
+  gradient: {
+    isValid: isNullOr(value => isRecord(value) && isOneOf(GRADIENT_TYPES)(value.type) && isNumber(value.angle) &&
+      Array.isArray(value.stops) && value.stops.length >= 2 &&
+      value.stops.every(stop => isRecord(stop) && isNumber(stop.offset) && typeof stop.color === 'string')),
+  },
+  background: {
+    isValid: isNullOr(value => isRecord(value) && typeof value.color === 'string' &&
+      hasNumbers(value, ['opacity', 'paddingX', 'paddingY', 'cornerRadius']) &&
+      isOneOf(BACKGROUND_MODES)(value.mode)),
+  },
+  textPath: {
+    // Custom curves are drawn through exactly four points
+    isValid: isNullOr(value => isRecord(value) && isOneOf(TEXT_PATH_TYPES)(value.type) &&
+      isNumber(value.radius) && value.radius > 0 && isBoolean(value.flip) &&
+      Array.isArray(value.points) && value.points.every(isPoint) &&
+      (value.type !== 'bezier' || value.points.length === 4)),
+  },
+  spans: {
+    isValid: value => Array.isArray(value) && value.every(span =>
+      isRecord(span) && Number.isInteger(span.start) && Number.isInteger(span.end) &&
+      (span.start as number) >= 0 && (span.start as number) < (span.end as number) && isSpanStyle(span.style)),
+  },
+  fixedHeight: { isValid: isBoolean },
+  verticalAlign: { isValid: isOneOf(VERTICAL_ALIGNS) },
+  fitMode: { isValid: isOneOf(FIT_MODES) },
+  animation: {
+    isValid: isNullOr(value => isRecord(value) && isOneOf(ANIMATION_TYPES)(value.type) &&
+      isOneOf(ANIMATION_DIRECTIONS)(value.direction) &&
+      isNumber(value.start) && value.start >= 0 && isNumber(value.duration) && value.duration > 0),
+  },
+  locked: { isValid: isBoolean },
+};
+
+/**
+ * Reset the damaged optional fields of a text layer
+ * @param layer A layer with its required fields checked
+ * @returns The layer, copied if anything was reset, and the names of the fields that were
+ */
+const repairTextLayer = (layer: TextLayerProperties): { layer: TextLayerProperties; fields: string[] } => {
+  const repaired: SavedState = { ...layer };
+  const fields = Object.entries(TEXT_LAYER_FIELDS)
+    .filter(([key, { isValid }]) => repaired[key] !== undefined && !isValid(repaired[key]))
+    .map(([key, { fallback }]) => {
+      if (fallback === undefined) {
+        delete repaired[key];
+      } else {
+        repaired[key] = fallback;
+      }
+      return key;
+    });
+  return { layer: fields.length > 0 ? repaired as unknown as TextLayerProperties : layer, fields };
+};
+
+const isImageLayer = (layer: unknown): layer is ImageLayerProperties =>
+  isRecord(layer) &&
+  hasStrings(layer, ['id', 'name', 'src']) &&
+  hasNumbers(layer, [...TRANSFORM_KEYS, 'naturalWidth', 'naturalHeight']);
+
+const isShapeLayer = (layer: unknown): layer is ShapeLayerProperties =>
+  isRecord(layer) &&
+  hasStrings(layer, ['id', 'fill', 'stroke']) &&
+  hasNumbers(layer, [...TRANSFORM_KEYS, 'width', 'height', 'strokeWidth', 'cornerRadius']) &&
+  SHAPE_TYPES.includes(layer.shapeType as ShapeType);
+
+const isGroup = (group: unknown): group is LayerGroup =>
+  isRecord(group) &&
+  hasStrings(group, ['id', 'name']) &&
+  isNumber(group.opacity) &&
+  Array.isArray(group.layerIds) &&
+  group.layerIds.every(id => typeof id === 'string');
+
+const isBackgroundImage = (image: unknown): image is BackgroundImage =>
+  isRecord(image) &&
+  typeof image.url === 'string' &&
+  isRecord(image.dimensions) &&
+  hasNumbers(image.dimensions, ['width', 'height', 'aspectRatio']);
+
+/**
+ * Upgrade saved state to the current version, one migration at a time
+ * @param state The state as saved
+ * @param version The version it was saved in
+ * @returns The state in the current version's shape, not yet validated
+ */
+export const migrateCanvasState = (state: unknown, version: number): unknown => {
+  if (!Number.isInteger(version) || version < UNVERSIONED_STATE_VERSION) {
+    throw new Error(`Unknown saved state version ${version}`);
+  }
+  if (version > CANVAS_STATE_VERSION) {
+    throw new Error('This was saved by a newer version of the editor');
+  }
+  if (!isRecord(state)) return state;
+
+  let migrated = state;
+  for (let from = version; from < CANVAS_STATE_VERSION; from++) {
+    migrated = migrations[from](migrated);
+  }
+  return migrated;
+};
+
+/**
+ * Check state before it is loaded. Damaged layers and groups are dropped
+ * and the stacking order is repaired, so one bad entry doesn't lose the
+ * rest of the composition.
+ * @param value State in the current version's shape
+ * @returns The usable state, or null if the canvas itself is damaged, and what was wrong
+ */
+export const validateCanvasState = (value: unknown): CanvasStateValidation => {
+  if (!isRecord(value)) {
+    return { state: null, problems: ['The saved state is not an object'] };
+  }
+  if (!isRecord(value.canvasDimensions) ||
+    !hasNumbers(value.canvasDimensions, ['width', 'height']) ||
+    (value.canvasDimensions.width as number) <= 0 ||
+    (value.canvasDimensions.height as number) <= 0) {
+    return { state: null, problems: ['The canvas size is missing or invalid'] };
+  }
+
+  const problems: string[] = [];
+  const layerIds = new Set<string>();
+
+  // Keep the valid entries of a list, each ID once
+  const keepValid = <T extends { id: string }>(
+    list: unknown,
+    isValid: (entry: unknown) => entry is T,
+    label: string,
+    ids: Set<string>
+  ): T[] => {
+    if (list === undefined) return [];
+    if (!Array.isArray(list)) {
+      problems.push(`${label}s are not a list and were removed`);
+      return [];
+    }
+    return list.filter((entry, index): entry is T => {
+      if (!isValid(entry)) {
+        problems.push(`${label} ${index + 1} is damaged and was removed`);
+        return false;
+      }
+      if (ids.has(entry.id)) {
+        problems.push(`${label} ${index + 1} repeats the ID "${entry.id}" and was removed`);
+        return false;
+      }
+      ids.add(entry.id);
+      return true;
+    });
+  };
+
+  let backgroundImage: BackgroundImage | null = null;
+  if (isBackgroundImage(value.backgroundImage)) {
+    backgroundImage = {
+      ...value.backgroundImage,
+      file: typeof File !== 'undefined' && value.backgroundImage.file instanceof File
+        ? value.backgroundImage.file
+        : null,
+    };
+  } else if (value.backgroundImage != null) {
+    problems.push('The background image is damaged and was removed');
+  }
+
+  const textLayers = keepValid(value.textLayers, isTextLayer, 'Text layer', layerIds).map(layer => {
+    const repaired = repairTextLayer(layer);
+    if (repaired.fields.length > 0) {
+      problems.push(`Text layer "${layer.id}" had damaged settings that were reset: ${repaired.fields.join(', ')}`);
+    }
+    return repaired.layer;
+  });
+  const imageLayers = keepValid(value.imageLayers, isImageLayer, 'Image layer', layerIds);
+  const shapeLayers = keepValid(value.shapeLayers, isShapeLayer, 'Shape layer', layerIds);
+
+  // Groups only keep members that survived, and go when they have none
+  const groups = keepValid(value.groups, isGroup, 'Group', new Set())
+    .map(group => ({ ...group, layerIds: group.layerIds.filter(id => layerIds.has(id)) }))
+    .filter(group => group.layerIds.length > 0);
+
+  // Every layer appears in the order exactly once; missing ones go on top
+  const savedOrder = Array.isArray(value.layerOrder) ? value.layerOrder : [];
+  const layerOrder = [...new Set(savedOrder.filter((id): id is string => layerIds.has(id as string)))];
+  if (layerOrder.length !== savedOrder.length || layerOrder.length !== layerIds.size) {
+    const ordered = new Set(layerOrder);
+    layerOrder.push(...[...layerIds].filter(id => !ordered.has(id)));
+    problems.push('The layer order was out of date and was repaired');
+  }
+
+  return {
+    state: {
+      backgroundImage,
+      textLayers,
+      imageLayers,
+      shapeLayers,
+      groups,
+      layerOrder,
+      selectedLayerIds: [],
+      canvasDimensions: {
+        width: value.canvasDimensions.width as number,
+        height: value.canvasDimensions.height as number,
+      },
+    },
+    problems,
+  };
+};
+
+/**
+ * Migrate and validate saved state, for loading into the editor
+ * @param state The state as saved
+ * @param version The version it was saved in
+ * @returns The usable state, or null if it can't be loaded, and what was wrong
+ */
+export const loadCanvasState = (state: unknown, version: number): CanvasStateValidation => {
+  try {
+    return validateCanvasState(migrateCanvasState(state, version));
+  } catch (error) {
+    return { state: null, problems: [error instanceof Error ? error.message : String(error)] };
+  }
+};
+
+/**
+ * Tag state with the current version for saving
+ * @param state Editor state
+ * @returns The state as saved
+ */
+export const versionCanvasState = (state: CanvasState): VersionedCanvasState => ({
+  version: CANVAS_STATE_VERSION,
+  state,
+});
+
+/**
+ * Load a saved document written by versionCanvasState, or a bare state
+ * saved before versions were added
+ * @param saved The document as read
+ * @returns The usable state, or null if it can't be loaded, and what was wrong
+ */
+export const loadSavedCanvasState = (saved: unknown): CanvasStateValidation =>
+  isRecord(saved) && isNumber(saved.version) && 'state' in saved
+    ? loadCanvasState(saved.state, saved.version)
+    : loadCanvasState(saved, UNVERSIONED_STATE_VERSION);
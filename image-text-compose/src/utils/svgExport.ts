@@ -0,0 +1,93 @@
+import * as fabric from 'fabric';
+import type { Canvas as FabricCanvas } from 'fabric/fabric-impl';
+import { BackgroundImage } from '../types/canvas';
+import { CustomFont } from '../types/fonts';
+import { readBlobAsDataUrl } from './export';
+
+/**
+ * Get the font families a text object uses, including its span styles
+ */
+const getObjectFontFamilies = (obj: fabric.FabricObject): string[] => {
+  if (!(obj instanceof fabric.Textbox)) return [];
+
+  const spanFamilies = fabric.util.stylesToArray(obj.styles, obj.text)
+    .map(({ style }) => style.fontFamily)
+    .filter((family): family is string => !!family);
+  return [obj.fontFamily, ...spanFamilies];
+};
+
+/**
+ * Build @font-face rules that embed the uploaded fonts the layers use,
+ * so the SVG shows the same type on machines without them
+ * @param fonts Custom fonts to embed
+ * @returns CSS for a style element
+ */
+const createFontFaceRules = async (fonts: CustomFont[]): Promise<string> => {
+  const rules = await Promise.all(fonts.map(async (font) => {
+    // The blob URL is the font as loaded; the original file is the fallback
+    let data: Blob = font.file;
+    try {
+      data = await (await fetch(font.url)).blob();
+    } catch (error) {
+      console.warn(`Could not read ${font.name} from its URL, using the uploaded file:`, error);
+    }
+    const dataUrl = await readBlobAsDataUrl(data);
+    return `@font-face { font-family: '${font.family}'; src: url('${dataUrl}') format('${font.format}'); }`;
+  }));
+  return rules.join('\n');
+};
+
+/**
+ * Export the canvas to an SVG document that keeps text as real text. The
+ * document is the size of the original image and the background is
+ * embedded, so the file stands alone.
+ * @param canvas The Fabric.js canvas instance
+ * @param backgroundImage The background image information
+ * @param customFonts Uploaded fonts, embedded when a layer uses them
+ * @returns A Promise that resolves with the SVG markup
+ */
+export const exportToSvg = async (
+  canvas: FabricCanvas,
+  backgroundImage: BackgroundImage,
+  customFonts: CustomFont[]
+): Promise<string> => {
+  if (!canvas) {
+    throw new Error('Canvas is required for export');
+  }
+
+  if (!backgroundImage || !backgroundImage.dimensions) {
+    throw new Error('Background image with dimensions is required for export');
+  }
+
+  const { width: imgWidth, height: imgHeight } = backgroundImage.dimensions;
+  const canvasWidth = canvas.getWidth();
+  const canvasHeight = canvas.getHeight();
+
+  // Layer objects in stacking order; guides and other helpers have no layer ID
+  // TODO: Use module augmentation to extend fabric.Object with layerId property
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const objects = (canvas as unknown as fabric.Canvas).getObjects().filter(obj => (obj as any).layerId);
+
+  const usedFamilies = new Set(objects.flatMap(getObjectFontFamilies));
+  const fontRules = await createFontFaceRules(customFonts.filter(font => usedFamilies.has(font.family)));
+
+  const layerMarkup = objects.map(obj => {
+    const markup = obj.toSVG();
+    // Members of an active selection are positioned relative to it
+    const group = obj.group;
+    return group
+      ? `<g transform="${fabric.util.matrixToSVG(group.calcTransformMatrix())}">\n${markup}</g>\n`
+      : markup;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>\n',
+    '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" version="1.1" ',
+    `width="${imgWidth}" height="${imgHeight}" viewBox="0 0 ${canvasWidth} ${canvasHeight}">\n`,
+    fontRules ? `<defs>\n<style type="text/css"><![CDATA[\n${fontRules}\n]]></style>\n</defs>\n` : '',
+    `<image href="${backgroundImage.url}" x="0" y="0" width="${canvasWidth}" height="${canvasHeight}" `,
+    'preserveAspectRatio="none" />\n',
+    ...layerMarkup,
+    '</svg>\n',
+  ].join('');
+};
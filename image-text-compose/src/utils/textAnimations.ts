@@ -0,0 +1,119 @@
+import * as fabric from 'fabric';
+import {
+  TextAnimation,
+  TextAnimationDirection,
+  TextAnimationType,
+  TextLayerProperties,
+} from '@/types/canvas';
+import { setTextObjectReveal } from './textLayers';
+
+export const TEXT_ANIMATION_LABELS: Record<TextAnimationType, string> = {
+  fade: 'Fade In',
+  slide: 'Slide In',
+  typewriter: 'Typewriter',
+  scale: 'Scale In',
+};
+
+export const TEXT_ANIMATION_DIRECTION_LABELS: Record<TextAnimationDirection, string> = {
+  left: 'From Left',
+  right: 'From Right',
+  top: 'From Top',
+  bottom: 'From Bottom',
+};
+
+export const DEFAULT_TEXT_ANIMATION: TextAnimation = {
+  type: 'fade',
+  direction: 'left',
+  start: 0,
+  duration: 1,
+};
+
+export const MAX_ANIMATION_START = 10;
+export const MAX_ANIMATION_DURATION = 5;
+
+// How far a sliding layer travels, as a share of the canvas width or height
+const SLIDE_DISTANCE = 0.2;
+
+// Size a scaling layer starts at, relative to its own
+const SCALE_FROM = 0.3;
+
+interface AnimatedText {
+  object: fabric.Textbox;
+  animation: TextAnimation;
+  // The finished state the animation ends on
+  opacity: number;
+  left: number;
+  top: number;
+  scaleX: number;
+  scaleY: number;
+  center: fabric.Point;
+}
+
+// Quick at first and settling gently, which reads well for entrances
+const easeOutCubic = (t: number): number => 1 - Math.pow(1 - t, 3);
+
+/**
+ * Find when the last text animation finishes
+ * @param textLayers - All text layers
+ * @returns Seconds until every layer has fully entered, 0 with no animations
+ */
+export const getAnimationsEnd = (textLayers: TextLayerProperties[]): number => {
+  return textLayers.reduce((end, layer) =>
+    layer.animation ? Math.max(end, layer.animation.start + layer.animation.duration) : end, 0);
+};
+
+/**
+ * Prepare the text objects of a composition canvas for animation
+ * @param canvas - Canvas built from the layers, with layer IDs on its objects
+ * @param textLayers - Text layers, holding their animations
+ * @returns A function that poses every animated layer at a time in seconds
+ */
+export const createAnimationTimeline = (
+  canvas: fabric.StaticCanvas,
+  textLayers: TextLayerProperties[]
+): ((time: number) => void) => {
+  const animated: AnimatedText[] = [];
+  canvas.getObjects().forEach(object => {
+    // TODO: Use module augmentation to extend fabric.Object with layerId property
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const layer = textLayers.find(layer => layer.id === (object as any).layerId);
+    if (!layer?.animation || !(object instanceof fabric.Textbox)) return;
+
+    animated.push({
+      object,
+      animation: layer.animation,
+      opacity: object.opacity,
+      left: object.left,
+      top: object.top,
+      scaleX: object.scaleX,
+      scaleY: object.scaleY,
+      center: object.getCenterPoint(),
+    });
+  });
+
+  return (time: number) => {
+    animated.forEach(({ object, animation, opacity, left, top, scaleX, scaleY, center }) => {
+      const linear = animation.duration > 0
+        ? Math.min(Math.max((time - animation.start) / animation.duration, 0), 1)
+        : Number(time >= animation.start);
+      const progress = easeOutCubic(linear);
+
+      // Every entrance starts hidden, and only typewriter shows the layer in full from the start
+      object.set({ opacity: animation.type === 'typewriter' ? opacity * Number(linear > 0) : opacity * progress });
+
+      if (animation.type === 'typewriter') {
+        setTextObjectReveal(object, linear < 1 ? linear : null);
+      } else if (animation.type === 'slide') {
+        const distance = (1 - progress) * SLIDE_DISTANCE;
+        const offsetX = { left: -1, right: 1, top: 0, bottom: 0 }[animation.direction] * distance * canvas.getWidth();
+        const offsetY = { left: 0, right: 0, top: -1, bottom: 1 }[animation.direction] * distance * canvas.getHeight();
+        object.set({ left: left + offsetX, top: top + offsetY });
+      } else if (animation.type === 'scale') {
+        const scale = SCALE_FROM + (1 - SCALE_FROM) * progress;
+        object.set({ scaleX: scaleX * scale, scaleY: scaleY * scale });
+        object.setPositionByOrigin(center, 'center', 'center');
+      }
+      object.setCoords();
+    });
+  };
+};
@@ -0,0 +1,54 @@
+import { TextFontFeatures, TextTransform } from '@/types/canvas';
+import * as fabric from 'fabric';
+
+// Fonts render with their standard ligatures unless a layer turns them off
+export const DEFAULT_FONT_FEATURES: TextFontFeatures = {
+  ligatures: true,
+  smallCaps: false,
+  tabularFigures: false,
+};
+
+export const TEXT_TRANSFORM_LABELS: Record<TextTransform, string> = {
+  none: 'As Typed',
+  uppercase: 'UPPERCASE',
+  lowercase: 'lowercase',
+  title: 'Title Case',
+};
+
+export const DIGITS = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+/**
+ * Check whether a grapheme is a digit that tabular figures align
+ * @param grapheme - Single grapheme
+ * @returns True for 0 to 9
+ */
+export const isDigit = (grapheme: string): boolean => DIGITS.includes(grapheme);
+
+const changeCase = (grapheme: string, upper: boolean): string => {
+  const changed = upper ? grapheme.toUpperCase() : grapheme.toLowerCase();
+  // Some characters change length (ß becomes SS); keep those as typed so
+  // every position in the displayed text matches the stored text
+  return fabric.util.string.graphemeSplit(changed).length === 1 ? changed : grapheme;
+};
+
+/**
+ * Apply a text case transform one grapheme at a time. Title case capitalizes
+ * the first letter of each word and leaves the rest as typed.
+ * @param graphemes - Graphemes of one line of text
+ * @param transform - Text case transform
+ * @returns Transformed graphemes, the same number as given
+ */
+export const transformGraphemes = (graphemes: string[], transform: TextTransform): string[] => {
+  switch (transform) {
+    case 'uppercase':
+      return graphemes.map(grapheme => changeCase(grapheme, true));
+    case 'lowercase':
+      return graphemes.map(grapheme => changeCase(grapheme, false));
+    case 'title':
+      return graphemes.map((grapheme, i) =>
+        i === 0 || /\s/.test(graphemes[i - 1]) ? changeCase(grapheme, true) : grapheme
+      );
+    default:
+      return graphemes;
+  }
+};
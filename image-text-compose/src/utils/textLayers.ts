@@ -1,5 +1,27 @@
 import { nanoid } from 'nanoid';
-import { TextLayerProperties } from '@/types/canvas';
+import {
+  TextAlign,
+  TextBackground,
+  TextFitMode,
+  TextFontFeatures,
+  TextLayerProperties,
+  TextPath,
+  TextSpan,
+  TextStrokePosition,
+  TextTransform,
+  TextVerticalAlign,
+} from '@/types/canvas';
+import { createFabricGradient } from './gradients';
+import { DEFAULT_FONT_FEATURES, DIGITS, isDigit, transformGraphemes } from './textFeatures';
+import { fromFabricStyles, scaleSpanFontSizes, toFabricStyles } from './textSpans';
+import {
+  getTextPathBounds,
+  getTextPathHandles,
+  getTextPathLayerPosition,
+  getTextPathSvgData,
+  layoutTextOnPath,
+  moveTextPathHandle,
+} from './textPaths';
 import * as fabric from 'fabric';
 
 // Default properties for new text layers
@@ -24,6 +46,934 @@ export const DEFAULT_TEXT_PROPERTIES: TextLayerProperties = {
   locked: false,
 };
 
+// Starting point when a background box is switched on: a dark caption band
+export const DEFAULT_TEXT_BACKGROUND: TextBackground = {
+  color: '#000000',
+  opacity: 0.6,
+  paddingX: 12,
+  paddingY: 6,
+  cornerRadius: 4,
+  mode: 'block',
+};
+
+// Smallest font size auto-fit will shrink text to
+const MIN_FIT_FONT_SIZE = 6;
+
+// Fabric.js justifies every line with 'justify' and leaves paragraph ends alone with 'justify-left'
+const FABRIC_TEXT_ALIGN: Record<TextAlign, string> = {
+  left: 'left',
+  center: 'center',
+  right: 'right',
+  justify: 'justify-left',
+  'justify-all': 'justify',
+};
+
+// Share of the free space in a fixed-height box that goes above the text
+const VERTICAL_ALIGN_OFFSETS: Record<TextVerticalAlign, number> = {
+  top: 0,
+  middle: 0.5,
+  bottom: 1,
+};
+
+// A displayed line of text, positioned in object coordinates
+export interface TextLineBaseline {
+  text: string;
+  // Start of the line's baseline
+  x: number;
+  y: number;
+  width: number;
+}
+
+// A background box rectangle in object coordinates, padding included
+interface BackgroundBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  radius: number;
+}
+
+// Fabric.js mixes these SVG export helpers into text objects without typing them
+// TODO: Use module augmentation to add the SVG export mixin to fabric.Textbox
+interface SvgTextHelpers {
+  getSvgSpanStyles(style: fabric.TextStyleDeclaration, useWhiteSpace?: boolean): string;
+  getSvgTextDecoration(style: fabric.TextStyleDeclaration): string;
+}
+
+// Numbers ids of SVG definitions so they are unique within a document
+let svgDefinitionCount = 0;
+
+const svgNumber = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Build SVG path data for a rounded rectangle. Every rectangle runs
+ * clockwise, so overlapping ones merge into one shape when filled.
+ */
+const roundRectPath = ({ left, top, width, height, radius }: BackgroundBox): string => {
+  const right = left + width;
+  const bottom = top + height;
+  return [
+    `M ${svgNumber(left + radius)} ${svgNumber(top)}`,
+    `H ${svgNumber(right - radius)}`,
+    `A ${radius} ${radius} 0 0 1 ${svgNumber(right)} ${svgNumber(top + radius)}`,
+    `V ${svgNumber(bottom - radius)}`,
+    `A ${radius} ${radius} 0 0 1 ${svgNumber(right - radius)} ${svgNumber(bottom)}`,
+    `H ${svgNumber(left + radius)}`,
+    `A ${radius} ${radius} 0 0 1 ${svgNumber(left)} ${svgNumber(bottom - radius)}`,
+    `V ${svgNumber(top + radius)}`,
+    `A ${radius} ${radius} 0 0 1 ${svgNumber(left + radius)} ${svgNumber(top)}`,
+    'Z',
+  ].join(' ');
+};
+
+/**
+ * Textbox with the layer effects Fabric.js lacks: an outline inside the
+ * glyph edge, a padded background box behind the block or each line,
+ * text laid out along a curve, text sized to fit a fixed box, text case
+ * transforms and typography features
+ */
+class LayerTextbox extends fabric.Textbox {
+  static cacheProperties = [
+    ...fabric.Textbox.cacheProperties,
+    'strokePosition',
+    'textBackground',
+    'textPath',
+    'verticalAlign',
+    'revealProgress',
+  ];
+  static textLayoutProperties = [
+    ...fabric.Textbox.textLayoutProperties,
+    'textPath',
+    'boxHeight',
+    'textTransform',
+    'fontFeatures',
+  ];
+
+  declare strokePosition: TextStrokePosition;
+  declare textBackground: TextBackground | null;
+  declare textPath: TextPath | null;
+  declare fitMode: TextFitMode;
+  // Fixed box height, when the box does not grow with the text
+  declare boxHeight: number | null;
+  declare verticalAlign: TextVerticalAlign;
+  // The layer's own font size and spans, before fitting scales them
+  declare baseFontSize: number;
+  declare baseSpans: TextSpan[];
+  declare textTransform: TextTransform;
+  declare fontFeatures: TextFontFeatures;
+  // Font size used divided by the layer's font size
+  fitScale = 1;
+  // Set while typing, when characters are compared with the untransformed text
+  skipTextTransform = false;
+  // Share of characters drawn, from 0 to 1, while a typewriter animation plays
+  revealProgress: number | null = null;
+
+  // Lines are split into displayed characters here, so this is where the
+  // text case changes; the text itself keeps the case it was typed in
+  graphemeSplit(value: string): string[] {
+    const graphemes = super.graphemeSplit(value);
+    return this.textTransform && !this.skipTextTransform
+      ? transformGraphemes(graphemes, this.textTransform)
+      : graphemes;
+  }
+
+  // Typing goes through a hidden textarea holding the untransformed text,
+  // so compare and splice against untransformed characters, then lay out again
+  onInput(e: Event) {
+    if (!this.textTransform || this.textTransform === 'none') {
+      super.onInput(e);
+      return;
+    }
+    this.skipTextTransform = true;
+    try {
+      this._text = this._splitTextIntoLines(this.text).graphemeText;
+      super.onInput(e);
+    } finally {
+      this.skipTextTransform = false;
+      this.initDimensions();
+    }
+  }
+
+  // Tabular figures give every digit the width of the widest one
+  _measureChar(
+    _char: string,
+    charStyle: fabric.CompleteTextStyleDeclaration,
+    previousChar: string | undefined,
+    prevCharStyle: fabric.CompleteTextStyleDeclaration | Record<string, never>
+  ) {
+    if (!this.fontFeatures?.tabularFigures || !isDigit(_char)) {
+      return super._measureChar(_char, charStyle, previousChar, prevCharStyle);
+    }
+    const width = this._getFigureWidth(charStyle);
+    return { width, kernedWidth: width };
+  }
+
+  _getFigureWidth(charStyle: fabric.CompleteTextStyleDeclaration): number {
+    return Math.max(...DIGITS.map(digit => super._measureChar(digit, charStyle, undefined, {}).width));
+  }
+
+  /**
+   * Draw runs one character at a time where the run can't be drawn whole:
+   * with tabular figures, each digit is centered in its widened box, and
+   * with ligatures off, no characters can join. Canvas text has no switch
+   * for ligatures, so this is the only way to keep them off in every browser.
+   */
+  _renderChar(
+    method: 'fillText' | 'strokeText',
+    ctx: CanvasRenderingContext2D,
+    lineIndex: number,
+    charIndex: number,
+    _char: string,
+    left: number,
+    top: number
+  ) {
+    let graphemes = super.graphemeSplit(_char);
+    // charIndex is the last character of the run, or 0 when a whole line is drawn at once
+    const start = charIndex === 0 ? 0 : charIndex - graphemes.length + 1;
+
+    // While revealing, draw only the characters typed so far
+    const revealed = this._getRevealedCount(this._textLines.reduce((count, line) => count + line.length, 0));
+    if (revealed !== null) {
+      const lineOffset = this._textLines.slice(0, lineIndex).reduce((count, line) => count + line.length, 0);
+      const visible = revealed - lineOffset - start;
+      if (visible <= 0) return;
+      if (visible < graphemes.length) {
+        graphemes = graphemes.slice(0, visible);
+        _char = graphemes.join('');
+      }
+    }
+
+    const hasTabularDigits = Boolean(this.fontFeatures?.tabularFigures) && graphemes.some(isDigit);
+    const splitsLigatures = this.fontFeatures?.ligatures === false && graphemes.length > 1;
+    if (!hasTabularDigits && !splitsLigatures) {
+      super._renderChar(method, ctx, lineIndex, charIndex, _char, left, top);
+      return;
+    }
+    const bounds = this.__charBounds[lineIndex];
+    graphemes.forEach((grapheme, i) => {
+      const index = start + i;
+      let x = left + bounds[index].left - bounds[start].left;
+      if (hasTabularDigits && isDigit(grapheme)) {
+        const style = this.getCompleteStyleDeclaration(lineIndex, index);
+        const natural = super._measureChar(grapheme, style, undefined, {}).width;
+        x += (bounds[index].width - natural) / 2;
+      }
+      super._renderChar(method, ctx, lineIndex, index, grapheme, x, top);
+    });
+  }
+
+  /**
+   * Number of characters a typewriter animation has revealed
+   * @param total - Characters in the text
+   * @returns The count, or null when the whole text shows
+   */
+  _getRevealedCount(total: number): number | null {
+    return this.revealProgress === null ? null : Math.round(this.revealProgress * total);
+  }
+
+  // On a curve the box is the area the curve can cover, not the wrapped text.
+  // A fixed-height box only grows when the text overflows it.
+  initDimensions() {
+    super.initDimensions();
+    if (this.textPath) {
+      const bounds = getTextPathBounds(this.textPath, this.fontSize);
+      this.width = bounds.width;
+      this.height = bounds.height;
+    } else if (this.boxHeight) {
+      this.height = Math.max(this.boxHeight, this.height);
+    }
+  }
+
+  // Everything drawn and hit-tested starts from here, so moving the text
+  // block down inside a fixed-height box only needs this offset
+  _getTopOffset() {
+    const top = super._getTopOffset();
+    if (!this.boxHeight || this.textPath) return top;
+
+    const freeSpace = this.height - this.calcTextHeight();
+    return top + freeSpace * VERTICAL_ALIGN_OFFSETS[this.verticalAlign || 'top'];
+  }
+
+  /**
+   * Find the font size that fits the text in the box, by bisection.
+   * Font sizes set by spans are scaled by the same amount.
+   * @param boxWidth - Width of the box the text wraps in
+   */
+  fitToBox(boxWidth: number) {
+    const boxHeight = this.boxHeight;
+    if (!boxHeight || this.fitMode === 'none' || this.textPath) {
+      this.fitScale = 1;
+      return;
+    }
+
+    const applySize = (size: number) => {
+      this.set({
+        width: boxWidth,
+        fontSize: size,
+        styles: toFabricStyles(scaleSpanFontSizes(this.baseSpans, size / this.baseFontSize), this.text),
+      });
+    };
+    // Textboxes widen past their width for words that do not fit
+    const fits = () => this.calcTextHeight() <= boxHeight && this.width <= boxWidth + 0.5;
+
+    let low = MIN_FIT_FONT_SIZE;
+    let high = Math.max(low, this.fitMode === 'shrink' ? this.baseFontSize : boxHeight);
+    applySize(high);
+    if (!fits()) {
+      while (high - low > 0.5) {
+        const mid = (low + high) / 2;
+        applySize(mid);
+        if (fits()) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      applySize(Math.floor(low * 2) / 2);
+    }
+    this.fitScale = this.fontSize / this.baseFontSize;
+  }
+
+  // Grow the cache canvas so background padding is not clipped
+  _getCacheCanvasDimensions() {
+    const dims = super._getCacheCanvasDimensions();
+    if (!this.textBackground || this.textPath) return dims;
+
+    const extraX = this.textBackground.paddingX * 2 * dims.zoomX;
+    const extraY = this.textBackground.paddingY * 2 * dims.zoomY;
+    return {
+      ...dims,
+      width: Math.ceil(dims.width + extraX),
+      height: Math.ceil(dims.height + extraY),
+      x: dims.x + extraX,
+      y: dims.y + extraY,
+    };
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    if (this.textPath) {
+      this._setTextStyles(ctx);
+      this._renderTextOnPath(ctx, this.textPath);
+      return;
+    }
+    this._renderTextBackgroundBox(ctx);
+    super._render(ctx);
+  }
+
+  /**
+   * Draw on a scratch canvas with the same transform, then copy the result
+   * back in one go so compositing only affects what was drawn there
+   */
+  _renderOnScratch(ctx: CanvasRenderingContext2D, draw: (scratchCtx: CanvasRenderingContext2D) => void) {
+    const scratch = fabric.util.createCanvasElement();
+    scratch.width = ctx.canvas.width;
+    scratch.height = ctx.canvas.height;
+    const scratchCtx = scratch.getContext('2d');
+    if (!scratchCtx) return;
+
+    scratchCtx.setTransform(ctx.getTransform());
+    draw(scratchCtx);
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.drawImage(scratch, 0, 0);
+    ctx.restore();
+  }
+
+  /**
+   * Draw each glyph rotated to follow the curve. Lines are joined into one
+   * run, and fill, outline and shadow follow the same rules as box text.
+   */
+  _renderTextOnPath(ctx: CanvasRenderingContext2D, path: TextPath) {
+    const bounds = getTextPathBounds(path, this.fontSize);
+    const glyphs = fabric.util.string.graphemeSplit(this._text.join('').replace(/\s*\n\s*/g, ' '));
+    const font = this._getFontDeclaration();
+    const spacing = (this.fontSize * this.charSpacing) / 1000;
+
+    ctx.font = font;
+    const widths = glyphs.map(glyph => ctx.measureText(glyph).width + spacing);
+    // Justified text starts at the beginning of a curve, like left-aligned text
+    const textAlign = this.textAlign.includes('justify') ? 'left' : (this.textAlign as TextAlign);
+    const placements = layoutTextOnPath(path, widths, textAlign);
+    const revealed = this._getRevealedCount(glyphs.length) ?? glyphs.length;
+
+    // Curve coordinates to the object's centered coordinates
+    const offsetX = -bounds.minX - this.width / 2;
+    const offsetY = -bounds.minY - this.height / 2;
+
+    const drawGlyphs = (target: CanvasRenderingContext2D, method: 'fillText' | 'strokeText') => {
+      target.font = font;
+      target.textAlign = 'center';
+      target.textBaseline = 'alphabetic';
+      placements.slice(0, revealed).forEach((placement, i) => {
+        target.save();
+        target.translate(placement.x + offsetX, placement.y + offsetY);
+        target.rotate(placement.angle);
+        target[method](glyphs[i], 0, 0);
+        target.restore();
+      });
+    };
+
+    const paintFill = (target: CanvasRenderingContext2D) => {
+      const fill = this.fill;
+      if (!fill) return;
+
+      if (typeof fill === 'string') {
+        target.save();
+        target.fillStyle = fill;
+        drawGlyphs(target, 'fillText');
+        target.restore();
+        return;
+      }
+
+      // A gradient spans the whole box rather than restarting on every rotated glyph
+      this._renderOnScratch(target, scratchCtx => {
+        drawGlyphs(scratchCtx, 'fillText');
+        scratchCtx.globalCompositeOperation = 'source-in';
+        scratchCtx.translate(-this.width / 2, -this.height / 2);
+        scratchCtx.fillStyle = fill.toLive(scratchCtx) || '';
+        scratchCtx.fillRect(0, 0, this.width, this.height);
+      });
+    };
+
+    const paintStroke = (target: CanvasRenderingContext2D) => {
+      if (!this.stroke || !this.strokeWidth) return;
+
+      target.save();
+      target.strokeStyle = this.stroke as string;
+      target.lineWidth = this.strokeWidth;
+      target.lineJoin = 'round';
+      drawGlyphs(target, 'strokeText');
+      target.restore();
+    };
+
+    if (this.strokePosition === 'inside' && this.stroke && this.strokeWidth) {
+      this._renderOnScratch(ctx, scratchCtx => {
+        paintFill(scratchCtx);
+        scratchCtx.globalCompositeOperation = 'source-atop';
+        paintStroke(scratchCtx);
+      });
+    } else if (this.paintFirst === 'stroke') {
+      paintStroke(ctx);
+      paintFill(ctx);
+    } else {
+      paintFill(ctx);
+      paintStroke(ctx);
+    }
+  }
+
+  /**
+   * Work out the background box rectangles, padding included: one around the
+   * block, or one per line
+   */
+  _getTextBackgroundBoxes(): BackgroundBox[] {
+    const background = this.textBackground;
+    if (!background || background.opacity <= 0) return [];
+
+    const { paddingX, paddingY, cornerRadius } = background;
+    const leftOffset = this._getLeftOffset();
+    const lines: { left: number; top: number; width: number; height: number }[] = [];
+    let lineTop = this._getTopOffset();
+
+    for (let i = 0; i < this._textLines.length; i++) {
+      const heightOfLine = this.getHeightOfLine(i);
+      const lineWidth = this.getLineWidth(i);
+      if (lineWidth > 0) {
+        lines.push({
+          left: leftOffset + this._getLineLeftOffset(i),
+          top: lineTop,
+          width: lineWidth,
+          height: heightOfLine / this.lineHeight,
+        });
+      }
+      lineTop += heightOfLine;
+    }
+    if (lines.length === 0) return [];
+
+    const blockLeft = Math.min(...lines.map(line => line.left));
+    const blockRight = Math.max(...lines.map(line => line.left + line.width));
+    const boxes = background.mode === 'line'
+      ? lines
+      : [{ left: blockLeft, top: this._getTopOffset(), width: blockRight - blockLeft, height: this.calcTextHeight() }];
+
+    return boxes.map(box => {
+      const width = box.width + paddingX * 2;
+      const height = box.height + paddingY * 2;
+      return {
+        left: box.left - paddingX,
+        top: box.top - paddingY,
+        width,
+        height,
+        radius: Math.min(cornerRadius, width / 2, height / 2),
+      };
+    });
+  }
+
+  /**
+   * Fill the background box in one pass, so overlapping per-line boxes
+   * do not darken where they meet
+   */
+  _renderTextBackgroundBox(ctx: CanvasRenderingContext2D) {
+    const background = this.textBackground;
+    const boxes = this._getTextBackgroundBoxes();
+    if (!background || boxes.length === 0) return;
+
+    ctx.save();
+    // The text shadow belongs to the glyphs, not the box behind them
+    ctx.shadowColor = 'transparent';
+    ctx.globalAlpha *= background.opacity;
+    ctx.fillStyle = background.color;
+    ctx.beginPath();
+    boxes.forEach(box => {
+      ctx.roundRect(box.left, box.top, box.width, box.height, box.radius);
+    });
+    ctx.fill();
+    ctx.restore();
+  }
+
+  // The shadow goes on the text elements only, as on the canvas
+  toSVG(reviver?: fabric.TSVGReviver) {
+    return this._createBaseSVGMarkup(this._toSVG(), { reviver, noStyle: true });
+  }
+
+  /**
+   * Write the layer as real SVG text, so it stays editable in vector
+   * editors: a tspan per line with nested tspans for styled runs, or a
+   * textPath for curved text. Inside outlines are clipped to the fill.
+   */
+  _toSVG(): string[] {
+    const markup: string[] = [`<g opacity="${this.opacity}">\n`];
+
+    const background = this.textBackground;
+    const boxes = this.textPath ? [] : this._getTextBackgroundBoxes();
+    if (background && boxes.length > 0) {
+      markup.push(
+        `<path d="${boxes.map(roundRectPath).join(' ')}" fill="${background.color}" `,
+        `fill-opacity="${background.opacity}" />\n`
+      );
+    }
+
+    const content = this.textPath
+      ? this._getSVGTextPathContent(this.textPath, markup)
+      : this._getSVGLinesContent();
+    const fontAttributes = this._getSVGFontAttributes();
+    const text = (paint: string) =>
+      `<text xml:space="preserve" ${fontAttributes} ${paint}>${content}</text>\n`;
+
+    const fill = this.fill;
+    const fillPaint = typeof fill === 'string'
+      ? `fill="${fill}"`
+      : fill ? `fill="url(#SVGID_${(fill as fabric.Gradient<'linear'>).id})"` : 'fill="none"';
+    const filter = this.shadow ? `style="${this.getSvgFilter()}"` : '';
+
+    if (!this.stroke || !this.strokeWidth) {
+      markup.push(`<g ${filter}>`, text(fillPaint), '</g>\n');
+    } else {
+      const strokePaint = `stroke="${this.stroke}" stroke-width="${this.strokeWidth}" stroke-linejoin="round"`;
+      if (this.strokePosition === 'inside') {
+        const clipId = `TEXTCLIP_${++svgDefinitionCount}`;
+        markup.push(
+          `<clipPath id="${clipId}">${text(fillPaint)}</clipPath>\n`,
+          `<g ${filter}>`,
+          text(fillPaint),
+          `<g clip-path="url(#${clipId})">${text(`fill="none" ${strokePaint}`)}</g>`,
+          '</g>\n'
+        );
+      } else {
+        const paintOrder = this.paintFirst === 'stroke' ? ' paint-order="stroke"' : '';
+        markup.push(`<g ${filter}>`, text(`${fillPaint} ${strokePaint}${paintOrder}`), '</g>\n');
+      }
+    }
+
+    markup.push('</g>\n');
+    return markup;
+  }
+
+  // Font, decoration and typography features shared by every text element
+  _getSVGFontAttributes(): string {
+    const features = this.fontFeatures || DEFAULT_FONT_FEATURES;
+    const styles = [
+      'white-space: pre',
+      features.ligatures ? '' : 'font-variant-ligatures: none',
+      features.tabularFigures ? 'font-variant-numeric: tabular-nums' : '',
+    ].filter(Boolean);
+    const decoration = (this as unknown as SvgTextHelpers).getSvgTextDecoration(this);
+
+    return [
+      `font-family="${this.fontFamily.replace(/"/g, "'")}"`,
+      `font-size="${svgNumber(this.fontSize)}"`,
+      `font-weight="${this.fontWeight}"`,
+      `font-style="${String(this.fontStyle).replace(' small-caps', '')}"`,
+      features.smallCaps ? 'font-variant="small-caps"' : '',
+      this.charSpacing ? `letter-spacing="${svgNumber((this.fontSize * this.charSpacing) / 1000)}"` : '',
+      decoration ? `text-decoration="${decoration}"` : '',
+      `style="${styles.join('; ')}"`,
+    ].filter(Boolean).join(' ');
+  }
+
+  /**
+   * Get each displayed line with where Fabric.js draws it. Curved text
+   * counts as one line across the middle of its box.
+   */
+  getLineBaselines(): TextLineBaseline[] {
+    if (this.textPath) {
+      return [{
+        text: this._text.join('').replace(/\s*\n\s*/g, ' '),
+        x: -this.width / 2,
+        y: this.fontSize * (0.5 - this._fontSizeFraction),
+        width: this.width,
+      }];
+    }
+
+    const left = this._getLeftOffset();
+    let lineTop = this._getTopOffset();
+
+    return this._textLines.map((line, i) => {
+      const heightOfLine = this.getHeightOfLine(i);
+      const baseline = {
+        text: line.join(''),
+        x: left + this._getLineLeftOffset(i),
+        y: lineTop + (heightOfLine * (1 - this._fontSizeFraction)) / this.lineHeight,
+        width: this.textAlign.includes('justify') && this._getSVGWordSpacing(i)
+          ? this.width
+          : this.getLineWidth(i),
+      };
+      lineTop += heightOfLine;
+      return baseline;
+    });
+  }
+
+  // One tspan per displayed line, placed where Fabric.js draws it
+  _getSVGLinesContent(): string {
+    return this.getLineBaselines().map(({ x, y }, i) => {
+      const wordSpacing = this._getSVGWordSpacing(i);
+      return `<tspan x="${svgNumber(x)}" y="${svgNumber(y)}"${
+        wordSpacing ? ` word-spacing="${svgNumber(wordSpacing)}"` : ''
+      }>${this._getSVGLineRuns(i)}</tspan>`;
+    }).join('');
+  }
+
+  // Justified lines share their extra width between the spaces, as on the canvas
+  _getSVGWordSpacing(lineIndex: number): number {
+    if (!this.textAlign.includes('justify')) return 0;
+
+    const isParagraphEnd = lineIndex === this._textLines.length - 1 || this.isEndOfWrapping(lineIndex);
+    if (this.textAlign !== 'justify' && isParagraphEnd) return 0;
+
+    const spaces = this._textLines[lineIndex].filter(char => /[ \t\r]/.test(char)).length;
+    return spaces > 0 ? (this.width - this.getLineWidth(lineIndex)) / spaces : 0;
+  }
+
+  // Characters of a line grouped into runs that share span styles
+  _getSVGLineRuns(lineIndex: number): string {
+    const runs: string[] = [];
+    let run = '';
+    let runStyle = this._getStyleDeclaration(lineIndex, 0);
+
+    this._textLines[lineIndex].forEach((char, i) => {
+      const style = this._getStyleDeclaration(lineIndex, i);
+      if (i > 0 && fabric.util.hasStyleChanged(runStyle, style, true)) {
+        runs.push(this._getSVGRun(run, runStyle));
+        run = '';
+        runStyle = style;
+      }
+      run += char;
+    });
+    if (run) {
+      runs.push(this._getSVGRun(run, runStyle));
+    }
+    return runs.join('');
+  }
+
+  _getSVGRun(text: string, style: fabric.TextStyleDeclaration): string {
+    const escaped = fabric.util.string.escapeXml(text);
+    const spanStyles = Object.keys(style).length > 0 ? (this as unknown as SvgTextHelpers).getSvgSpanStyles(style) : '';
+    return spanStyles ? `<tspan style="${spanStyles}">${escaped}</tspan>` : escaped;
+  }
+
+  /**
+   * Curved text as a textPath, aligned the way the canvas lays it out.
+   * Adds the curve's definition to the markup.
+   */
+  _getSVGTextPathContent(path: TextPath, markup: string[]): string {
+    const bounds = getTextPathBounds(path, this.fontSize);
+    const id = `TEXTPATH_${++svgDefinitionCount}`;
+    markup.push(
+      `<defs><path id="${id}" d="${getTextPathSvgData(
+        path,
+        -bounds.minX - this.width / 2,
+        -bounds.minY - this.height / 2
+      )}" /></defs>\n`
+    );
+
+    const text = this._text.join('').replace(/\s*\n\s*/g, ' ');
+    let startOffset = '50%';
+    let anchor = 'middle';
+    let textLength = '';
+    if (path.type === 'bezier' && (this.textAlign === 'left' || this.textAlign.includes('justify'))) {
+      startOffset = '0%';
+      anchor = 'start';
+    } else if (path.type === 'bezier' && this.textAlign === 'right') {
+      startOffset = '100%';
+      anchor = 'end';
+    } else if (path.type === 'circle') {
+      // Circles spread their glyphs evenly around the ring
+      const glyphCount = fabric.util.string.graphemeSplit(text).length;
+      const circumference = Math.PI * 2 * path.radius;
+      textLength = ` textLength="${svgNumber((circumference * (glyphCount - 1)) / Math.max(glyphCount, 1))}" lengthAdjust="spacing"`;
+    }
+
+    return `<textPath href="#${id}" startOffset="${startOffset}" text-anchor="${anchor}"${textLength}>${
+      fabric.util.string.escapeXml(text)
+    }</textPath>`;
+  }
+
+  _renderText(ctx: CanvasRenderingContext2D) {
+    if (this.strokePosition !== 'inside' || !this.stroke || !this.strokeWidth) {
+      super._renderText(ctx);
+      return;
+    }
+
+    // Draw the fill and a double-width stroke on a scratch canvas, keeping
+    // only the half of the stroke that lands on the fill
+    this._renderOnScratch(ctx, scratchCtx => {
+      this._renderTextFill(scratchCtx);
+      scratchCtx.globalCompositeOperation = 'source-atop';
+      this._renderTextStroke(scratchCtx);
+    });
+  }
+}
+
+/**
+ * Handles for editing a curve on the canvas: one radius handle for arcs
+ * and circles, one per point for custom curves
+ * @param path - Text path
+ * @returns Fabric.js controls keyed by handle
+ */
+const createTextPathControls = (path: TextPath): Record<string, fabric.Control> => {
+  const controls: Record<string, fabric.Control> = {};
+
+  getTextPathHandles(path).forEach((_, index) => {
+    controls[`textPath${index}`] = new fabric.Control({
+      actionName: 'editTextPath',
+      cursorStyle: 'crosshair',
+      positionHandler: (_dim, finalMatrix, fabricObject) => {
+        const textbox = fabricObject as LayerTextbox;
+        if (!textbox.textPath) return new fabric.Point(0, 0).transform(finalMatrix);
+
+        const bounds = getTextPathBounds(textbox.textPath, textbox.fontSize);
+        const handle = getTextPathHandles(textbox.textPath)[index];
+        // The matrix places the object's center and rotation; scale is applied here
+        return new fabric.Point(
+          (handle.x - bounds.minX - bounds.width / 2) * textbox.scaleX,
+          (handle.y - bounds.minY - bounds.height / 2) * textbox.scaleY
+        ).transform(finalMatrix);
+      },
+      actionHandler: (_eventData, transform, x, y) => {
+        const textbox = transform.target as LayerTextbox;
+        if (!textbox.textPath) return false;
+
+        const bounds = getTextPathBounds(textbox.textPath, textbox.fontSize);
+        const local = fabric.util.sendPointToPlane(
+          new fabric.Point(x, y),
+          undefined,
+          textbox.calcTransformMatrix()
+        );
+        const nextPath = moveTextPathHandle(textbox.textPath, index, {
+          x: local.x + bounds.minX + bounds.width / 2,
+          y: local.y + bounds.minY + bounds.height / 2,
+        });
+
+        textbox.set({
+          ...getTextPathLayerPosition(textbox, nextPath),
+          textPath: nextPath,
+        });
+        return true;
+      },
+    });
+  });
+
+  return controls;
+};
+
+/**
+ * Handle on the bottom edge of a fixed-height box that changes its height
+ * @returns Fabric.js control
+ */
+const createBoxHeightControl = (): fabric.Control => {
+  return new fabric.Control({
+    x: 0,
+    y: 0.5,
+    actionName: 'resizing',
+    cursorStyle: 'ns-resize',
+    actionHandler: (_eventData, transform, x, y) => {
+      const textbox = transform.target as LayerTextbox;
+      const local = fabric.util.sendPointToPlane(
+        new fabric.Point(x, y),
+        undefined,
+        textbox.calcTransformMatrix()
+      );
+      // The top edge stays put, so the new height runs from it to the pointer
+      const boxHeight = Math.max(MIN_FIT_FONT_SIZE * 2, Math.round(local.y + textbox.height / 2));
+      if (boxHeight === textbox.boxHeight) return false;
+
+      textbox.set({ boxHeight });
+      textbox.fitToBox(textbox.width);
+      return true;
+    },
+  });
+};
+
+/**
+ * Whether a layer's text is sized to fit a fixed box. Curved text has no box to fit.
+ * @param layer - Text layer properties
+ * @returns True when the layer uses shrink or fill fitting
+ */
+export const isTextFitted = (layer: TextLayerProperties): boolean =>
+  !!layer.fitMode && layer.fitMode !== 'none' && !layer.textPath;
+
+/**
+ * Whether a layer's box keeps its height instead of growing with the text.
+ * Fitted text always has a fixed box.
+ * @param layer - Text layer properties
+ * @returns True when the layer's height is the box height
+ */
+export const hasFixedHeight = (layer: TextLayerProperties): boolean =>
+  !layer.textPath && (!!layer.fixedHeight || isTextFitted(layer));
+
+/**
+ * Give a textbox the handles that fit its layout. Width handles only
+ * rewrap text in a box, so curved text gets curve handles instead.
+ * Fixed-height boxes also get a handle for their height.
+ * @param textObj - Fabric.js Textbox object to update
+ * @param layer - Text layer properties
+ */
+const applyTextControls = (textObj: fabric.Textbox, layer: TextLayerProperties): void => {
+  const controls: Record<string, fabric.Control> = fabric.controlsUtils.createTextboxDefaultControls();
+
+  if (layer.textPath) {
+    delete controls.ml;
+    delete controls.mr;
+    Object.assign(controls, createTextPathControls(layer.textPath));
+  } else if (hasFixedHeight(layer)) {
+    controls.mb = createBoxHeightControl();
+  }
+
+  textObj.controls = controls;
+};
+
+/**
+ * Map font weight and style, decorations, typography features, alignment,
+ * shadow and outline settings to Fabric.js options
+ * @param layer - Text layer properties
+ * @returns Options for a Fabric.js Textbox
+ */
+const getTextStyleOptions = (layer: TextLayerProperties) => {
+  const stroke = layer.stroke && layer.stroke.width > 0 ? layer.stroke : null;
+
+  const fontFeatures = layer.fontFeatures || DEFAULT_FONT_FEATURES;
+
+  return {
+    fontWeight: layer.fontWeight || 'normal',
+    // Small caps ride along in the font style, which Fabric.js puts first in the CSS font
+    fontStyle: fontFeatures.smallCaps
+      ? `${layer.fontStyle || 'normal'} small-caps`
+      : layer.fontStyle || 'normal',
+    underline: layer.underline || false,
+    overline: layer.overline || false,
+    linethrough: layer.linethrough || false,
+    textTransform: layer.textTransform || 'none',
+    fontFeatures,
+    textAlign: FABRIC_TEXT_ALIGN[layer.textAlign || 'left'],
+    verticalAlign: layer.verticalAlign || 'top',
+    // The shadow follows the outline so outlined text does not lose it
+    shadow: layer.shadow ? new fabric.Shadow({ ...layer.shadow, affectStroke: true }) : null,
+    stroke: stroke ? stroke.color : null,
+    // Outside and inside outlines are drawn at double width with half of it hidden
+    strokeWidth: stroke ? (stroke.position === 'center' ? stroke.width : stroke.width * 2) : 0,
+    strokePosition: stroke ? stroke.position : 'center',
+    paintFirst: stroke?.position === 'outside' ? 'stroke' as const : 'fill' as const,
+    strokeLineJoin: 'round' as const,
+    textBackground: layer.background || null,
+    textPath: layer.textPath || null,
+    styles: toFabricStyles(layer.spans, layer.text),
+    fitMode: layer.fitMode || 'none',
+    boxHeight: hasFixedHeight(layer) ? layer.height : null,
+    baseFontSize: layer.fontSize,
+    baseSpans: layer.spans || [],
+    // Curved text is edited in the properties panel
+    editable: !layer.textPath,
+  };
+};
+
+/**
+ * Size fitted text to the layer's box. Runs after text, font and width are set.
+ * @param textObj - Fabric.js Textbox object to update
+ * @param layer - Text layer properties
+ */
+const applyTextFit = (textObj: fabric.Textbox, layer: TextLayerProperties): void => {
+  if (textObj instanceof LayerTextbox) {
+    textObj.fitToBox(layer.width);
+  }
+};
+
+/**
+ * Refit text while its box is resized on the canvas
+ * @param textObj - Fabric.js object being resized
+ */
+export const refitTextObject = (textObj: fabric.FabricObject): void => {
+  if (textObj instanceof LayerTextbox) {
+    textObj.fitToBox(textObj.width);
+  }
+};
+
+/**
+ * Get the displayed lines of a text object, for exporting selectable text
+ * @param textObj - Fabric.js Textbox object
+ * @returns Each line's text and baseline in object coordinates
+ */
+export const getTextObjectLines = (textObj: fabric.Textbox): TextLineBaseline[] => {
+  return textObj instanceof LayerTextbox ? textObj.getLineBaselines() : [];
+};
+
+/**
+ * Draw only the first part of a text object's characters, for typewriter animations
+ * @param textObj - Fabric.js Textbox object
+ * @param progress - Share of characters to draw, from 0 to 1, or null to draw them all
+ */
+export const setTextObjectReveal = (textObj: fabric.Textbox, progress: number | null): void => {
+  if (textObj instanceof LayerTextbox) {
+    textObj.set({ revealProgress: progress });
+  }
+};
+
+/**
+ * Read the spans of a text object edited on the canvas, undoing the font
+ * scaling applied by fitting it to its box
+ * @param textObj - Fabric.js Textbox object
+ * @returns Layer spans
+ */
+export const getTextObjectSpans = (textObj: fabric.Textbox): TextSpan[] => {
+  const spans = fromFabricStyles(textObj.styles, textObj.text);
+  return textObj instanceof LayerTextbox && textObj.fitScale !== 1
+    ? scaleSpanFontSizes(spans, 1 / textObj.fitScale)
+    : spans;
+};
+
+/**
+ * Apply a layer's solid color or gradient fill. Gradients are sized to the
+ * laid-out text, so this runs after text, font and width are set.
+ * @param textObj - Fabric.js Textbox object to update
+ * @param layer - Text layer properties
+ */
+const applyTextFill = (textObj: fabric.Textbox, layer: TextLayerProperties): void => {
+  textObj.set({
+    fill: layer.gradient
+      ? createFabricGradient(layer.gradient, textObj.width, textObj.height)
+      : layer.color || '#000000',
+  });
+};
+
 /**
  * Create a new text layer with default properties
  * @param overrides - Optional properties to override defaults
@@ -45,20 +995,27 @@ export const createTextLayer = (
  * @returns Fabric.js Textbox object
  */
 export const createTextObjectFromLayer = (layer: TextLayerProperties): fabric.Textbox => {
-  const textObj = new fabric.Textbox(layer.text, {
+  const textObj = new LayerTextbox(layer.text, {
     left: layer.left,
     top: layer.top,
     fontSize: layer.fontSize || 24,
     fill: layer.color || '#000000',
     fontFamily: layer.fontFamily || 'Arial',
     width: layer.width || 200,
-    opacity: layer.opacity || 1,
-    lineHeight: layer.lineHeight || 1.2,
-    charSpacing: layer.charSpacing || 0,
+    angle: layer.angle ?? 0,
+    scaleX: layer.scaleX ?? 1,
+    scaleY: layer.scaleY ?? 1,
+    opacity: layer.opacity ?? 1,
+    lineHeight: layer.lineHeight ?? 1.2,
+    charSpacing: layer.charSpacing ?? 0,
+    ...getTextStyleOptions(layer),
     visible: true,
     selectable: !layer.locked,
     evented: !layer.locked,
   });
+  applyTextFit(textObj, layer);
+  applyTextFill(textObj, layer);
+  applyTextControls(textObj, layer);
 
   // Store layer ID for tracking
   // TODO: Use module augmentation to extend fabric.Object with layerId property
@@ -80,15 +1037,21 @@ export const updateTextObjectFromLayer = (textObj: fabric.Textbox, layer: TextLa
     left: layer.left,
     top: layer.top,
     fontSize: layer.fontSize,
-    fill: layer.color,
     fontFamily: layer.fontFamily,
     width: layer.width,
+    angle: layer.angle,
+    scaleX: layer.scaleX,
+    scaleY: layer.scaleY,
     opacity: layer.opacity,
     lineHeight: layer.lineHeight,
     charSpacing: layer.charSpacing,
+    ...getTextStyleOptions(layer),
     selectable: !layer.locked,
     evented: !layer.locked,
   });
+  applyTextFit(textObj, layer);
+  applyTextFill(textObj, layer);
+  applyTextControls(textObj, layer);
   textObj.setCoords();
 };
 
@@ -110,9 +1073,11 @@ export const extractPropsFromFabricText = (
     fontFamily: fabricText.fontFamily || DEFAULT_TEXT_PROPERTIES.fontFamily,
     fontSize: fabricText.fontSize || DEFAULT_TEXT_PROPERTIES.fontSize,
     fontWeight: (fabricText.fontWeight as string) || DEFAULT_TEXT_PROPERTIES.fontWeight,
-    color: fabricText.fill as string || DEFAULT_TEXT_PROPERTIES.color,
-    opacity: fabricText.opacity || DEFAULT_TEXT_PROPERTIES.opacity,
-    textAlign: (fabricText.textAlign as 'left' | 'center' | 'right') || DEFAULT_TEXT_PROPERTIES.textAlign,
+    color: typeof fabricText.fill === 'string' ? fabricText.fill : DEFAULT_TEXT_PROPERTIES.color,
+    opacity: fabricText.opacity ?? DEFAULT_TEXT_PROPERTIES.opacity,
+    textAlign: (Object.keys(FABRIC_TEXT_ALIGN) as TextAlign[]).find(
+      align => FABRIC_TEXT_ALIGN[align] === fabricText.textAlign
+    ) || DEFAULT_TEXT_PROPERTIES.textAlign,
     left: fabricText.left || 0,
     top: fabricText.top || 0,
     scaleX: fabricText.scaleX || 1,
@@ -0,0 +1,293 @@
+import { TextLayerProperties, TextPath, TextPathPoint, TextPathType } from '@/types/canvas';
+import * as fabric from 'fabric';
+
+export const TEXT_PATH_LABELS: Record<TextPathType, string> = {
+  arc: 'Arc',
+  circle: 'Circle',
+  bezier: 'Custom Curve',
+};
+
+export const MIN_TEXT_PATH_RADIUS = 20;
+
+// Number of straight segments used to approximate each curve
+const CIRCLE_SEGMENTS = 180;
+const BEZIER_SEGMENTS = 64;
+
+export interface TextPathBounds {
+  minX: number;
+  minY: number;
+  width: number;
+  height: number;
+}
+
+export interface TextPathPlacement {
+  x: number;
+  y: number;
+  // Reading direction at this point, in radians
+  angle: number;
+}
+
+interface SampledTextPath {
+  points: TextPathPoint[];
+  // Distance along the path at each point
+  distances: number[];
+  total: number;
+  closed: boolean;
+}
+
+/**
+ * Create a curve sized for text of the given width
+ * @param type - Kind of curve
+ * @param textWidth - Width of the text box the curve replaces
+ * @returns A new text path
+ */
+export const createTextPath = (type: TextPathType, textWidth: number): TextPath => {
+  const halfWidth = Math.max(textWidth, 100) / 2;
+
+  return {
+    type,
+    radius: Math.max(MIN_TEXT_PATH_RADIUS, Math.round(halfWidth)),
+    flip: false,
+    // A gentle S-curve centered on the origin
+    points: [
+      { x: -halfWidth, y: 0 },
+      { x: -halfWidth / 3, y: -halfWidth / 2 },
+      { x: halfWidth / 3, y: halfWidth / 2 },
+      { x: halfWidth, y: 0 },
+    ],
+  };
+};
+
+/**
+ * Get the area a curve and its text can cover, in curve coordinates.
+ * The layer's box is this area, so it depends only on the curve and font size.
+ * @param path - Text path
+ * @param fontSize - Font size of the text
+ * @returns Bounds of the layer box around the curve origin
+ */
+export const getTextPathBounds = (path: TextPath, fontSize: number): TextPathBounds => {
+  if (path.type === 'bezier') {
+    // A cubic Bezier always stays inside the hull of its points
+    const xs = path.points.map(point => point.x);
+    const ys = path.points.map(point => point.y);
+    const minX = Math.min(...xs) - fontSize;
+    const minY = Math.min(...ys) - fontSize;
+    return {
+      minX,
+      minY,
+      width: Math.max(...xs) + fontSize - minX,
+      height: Math.max(...ys) + fontSize - minY,
+    };
+  }
+
+  const extent = path.radius + fontSize;
+  return { minX: -extent, minY: -extent, width: extent * 2, height: extent * 2 };
+};
+
+/**
+ * Approximate a curve with short segments
+ */
+const sampleTextPath = (path: TextPath): SampledTextPath => {
+  const points: TextPathPoint[] = [];
+
+  if (path.type === 'bezier') {
+    const [p0, p1, p2, p3] = path.points;
+    for (let i = 0; i <= BEZIER_SEGMENTS; i++) {
+      const t = i / BEZIER_SEGMENTS;
+      const mt = 1 - t;
+      points.push({
+        x: mt * mt * mt * p0.x + 3 * mt * mt * t * p1.x + 3 * mt * t * t * p2.x + t * t * t * p3.x,
+        y: mt * mt * mt * p0.y + 3 * mt * mt * t * p1.y + 3 * mt * t * t * p2.y + t * t * t * p3.y,
+      });
+    }
+  } else {
+    // Circles start opposite the text and run clockwise (or counter-clockwise
+    // when flipped), so the text sits halfway along at the top or bottom
+    const start = path.flip ? -Math.PI / 2 : Math.PI / 2;
+    const direction = path.flip ? -1 : 1;
+    for (let i = 0; i <= CIRCLE_SEGMENTS; i++) {
+      const theta = start + direction * (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+      points.push({ x: Math.cos(theta) * path.radius, y: Math.sin(theta) * path.radius });
+    }
+  }
+
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    const segment = Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+    distances.push(distances[i - 1] + segment);
+  }
+
+  return {
+    points,
+    distances,
+    total: distances[distances.length - 1],
+    closed: path.type !== 'bezier',
+  };
+};
+
+/**
+ * Find the point and direction at a distance along a sampled curve. Closed
+ * curves wrap around; open curves continue straight past their ends.
+ */
+const getPlacementAtDistance = (sampled: SampledTextPath, distance: number): TextPathPlacement => {
+  const { points, distances, total, closed } = sampled;
+  const d = closed ? ((distance % total) + total) % total : distance;
+
+  let index = 1;
+  while (index < points.length - 1 && distances[index] < d) {
+    index++;
+  }
+
+  const from = points[index - 1];
+  const to = points[index];
+  const segmentLength = distances[index] - distances[index - 1] || 1;
+  const ratio = (d - distances[index - 1]) / segmentLength;
+
+  return {
+    x: from.x + (to.x - from.x) * ratio,
+    y: from.y + (to.y - from.y) * ratio,
+    angle: Math.atan2(to.y - from.y, to.x - from.x),
+  };
+};
+
+/**
+ * Place glyphs along a curve. Arcs center the text on the curve, circles
+ * spread it evenly around the whole ring, and custom curves follow the
+ * layer's text alignment.
+ * @param path - Text path
+ * @param glyphWidths - Advance width of each glyph, including letter spacing
+ * @param textAlign - Layer text alignment
+ * @returns Center of each glyph's baseline and its reading direction
+ */
+export const layoutTextOnPath = (
+  path: TextPath,
+  glyphWidths: number[],
+  textAlign: TextLayerProperties['textAlign']
+): TextPathPlacement[] => {
+  const sampled = sampleTextPath(path);
+  const textLength = glyphWidths.reduce((sum, width) => sum + width, 0);
+
+  if (path.type === 'circle') {
+    const step = sampled.total / Math.max(glyphWidths.length, 1);
+    const first = sampled.total / 2 - (step * (glyphWidths.length - 1)) / 2;
+    return glyphWidths.map((_, i) => getPlacementAtDistance(sampled, first + step * i));
+  }
+
+  let start = (sampled.total - textLength) / 2;
+  if (path.type === 'bezier' && textAlign === 'left') {
+    start = 0;
+  } else if (path.type === 'bezier' && textAlign === 'right') {
+    start = sampled.total - textLength;
+  }
+
+  let offset = start;
+  return glyphWidths.map(width => {
+    const placement = getPlacementAtDistance(sampled, offset + width / 2);
+    offset += width;
+    return placement;
+  });
+};
+
+/**
+ * Get the points the on-canvas curve handles sit on, in curve coordinates
+ * @param path - Text path
+ * @returns One radius handle for arcs and circles, or the four Bezier points
+ */
+export const getTextPathHandles = (path: TextPath): TextPathPoint[] => {
+  if (path.type === 'bezier') {
+    return path.points;
+  }
+  return [{ x: 0, y: path.flip ? path.radius : -path.radius }];
+};
+
+/**
+ * Apply a handle drag to a curve
+ * @param path - Text path
+ * @param handleIndex - Index from getTextPathHandles
+ * @param point - New handle position in curve coordinates
+ * @returns The updated text path
+ */
+export const moveTextPathHandle = (
+  path: TextPath,
+  handleIndex: number,
+  point: TextPathPoint
+): TextPath => {
+  if (path.type === 'bezier') {
+    return {
+      ...path,
+      points: path.points.map((p, i) => (i === handleIndex ? { x: point.x, y: point.y } : p)),
+    };
+  }
+  return {
+    ...path,
+    radius: Math.max(MIN_TEXT_PATH_RADIUS, Math.round(Math.hypot(point.x, point.y))),
+  };
+};
+
+/**
+ * Describe a curve as SVG path data, for exporting curved text as a textPath.
+ * Circles start opposite the text and run the same way as on the canvas.
+ * @param path - Text path
+ * @param offsetX - Added to every x coordinate
+ * @param offsetY - Added to every y coordinate
+ * @returns SVG path data running in the text's reading direction
+ */
+export const getTextPathSvgData = (path: TextPath, offsetX: number, offsetY: number): string => {
+  if (path.type === 'bezier') {
+    const [p0, p1, p2, p3] = path.points.map(point => `${point.x + offsetX} ${point.y + offsetY}`);
+    return `M ${p0} C ${p1} ${p2} ${p3}`;
+  }
+
+  const { radius } = path;
+  const startY = (path.flip ? -radius : radius) + offsetY;
+  const endY = (path.flip ? radius : -radius) + offsetY;
+  const sweep = path.flip ? 0 : 1;
+  return [
+    `M ${offsetX} ${startY}`,
+    `A ${radius} ${radius} 0 1 ${sweep} ${offsetX} ${endY}`,
+    `A ${radius} ${radius} 0 1 ${sweep} ${offsetX} ${startY}`,
+  ].join(' ');
+};
+
+/**
+ * Work out where a layer's box goes when its curve changes, so the text
+ * stays put on the canvas. Curve edits keep the curve origin fixed;
+ * switching between box and curve keeps the text's middle in place.
+ * @param layer - Text layer before the change
+ * @param nextPath - New curve, or null to go back to a text box
+ * @returns New left and top for the layer
+ */
+export const getTextPathLayerPosition = (
+  layer: Pick<
+    TextLayerProperties,
+    'left' | 'top' | 'angle' | 'scaleX' | 'scaleY' | 'width' | 'height' | 'fontSize' | 'textPath'
+  >,
+  nextPath: TextPath | null
+): { left: number; top: number } => {
+  const currentPath = layer.textPath || null;
+
+  // A point in the old box and the same point in the new box, from their top-left corners
+  const pathAnchor = (path: TextPath, useOrigin: boolean): TextPathPoint => {
+    const bounds = getTextPathBounds(path, layer.fontSize);
+    let anchor: TextPathPoint = { x: 0, y: 0 };
+    if (!useOrigin) {
+      const handles = getTextPathHandles(path);
+      anchor = path.type === 'bezier'
+        ? layoutTextOnPath(path, [0], 'center')[0]
+        : handles[0];
+    }
+    return { x: anchor.x - bounds.minX, y: anchor.y - bounds.minY };
+  };
+  const boxCenter = { x: layer.width / 2, y: layer.height / 2 };
+  const bothCurved = !!currentPath && !!nextPath;
+
+  const from = currentPath ? pathAnchor(currentPath, bothCurved) : boxCenter;
+  const to = nextPath ? pathAnchor(nextPath, bothCurved) : boxCenter;
+
+  const delta = fabric.util.rotateVector(
+    new fabric.Point((from.x - to.x) * layer.scaleX, (from.y - to.y) * layer.scaleY),
+    fabric.util.degreesToRadians(layer.angle)
+  );
+
+  return { left: layer.left + delta.x, top: layer.top + delta.y };
+};
@@ -0,0 +1,234 @@
+import { TextLayerProperties, TextRange, TextSpan, TextSpanStyle } from '@/types/canvas';
+import * as fabric from 'fabric';
+
+// Style of every character in a layer, null where the layer style applies
+type CharacterStyles = (TextSpanStyle | null)[];
+
+/**
+ * Split text into the characters span offsets count: graphemes, skipping line breaks
+ * @param text - Layer text
+ * @returns Characters addressed by span offsets
+ */
+export const getSpanCharacters = (text: string): string[] =>
+  fabric.util.string.graphemeSplit(text.replace(/\r?\n/g, ''));
+
+/**
+ * Convert a string index (such as a textarea selection) to a span offset
+ * @param text - Layer text
+ * @param index - UTF-16 index into the text
+ * @returns Span offset of the same position
+ */
+export const toSpanOffset = (text: string, index: number): number =>
+  getSpanCharacters(text.slice(0, index)).length;
+
+/**
+ * Drop style keys that are unset
+ */
+const cleanStyle = <T extends object>(style: T): T | null => {
+  const entries = Object.entries(style).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : null;
+};
+
+const isSameStyle = (a: TextSpanStyle, b: TextSpanStyle): boolean => {
+  const keys = Object.keys(a) as (keyof TextSpanStyle)[];
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
+
+const expandSpans = (spans: TextSpan[], length: number): CharacterStyles => {
+  const styles: CharacterStyles = new Array(length).fill(null);
+  spans.forEach(span => {
+    for (let i = Math.max(span.start, 0); i < Math.min(span.end, length); i++) {
+      styles[i] = { ...styles[i], ...span.style };
+    }
+  });
+  return styles;
+};
+
+// Merge runs of identically styled characters back into spans
+const compressStyles = (styles: CharacterStyles): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  styles.forEach((style, i) => {
+    if (!style) return;
+    const last = spans[spans.length - 1];
+    if (last && last.end === i && isSameStyle(last.style, style)) {
+      last.end++;
+    } else {
+      spans.push({ start: i, end: i + 1, style });
+    }
+  });
+  return spans;
+};
+
+/**
+ * Merge a style into a character range. Keys set to undefined are removed,
+ * so the range goes back to the layer's value for them.
+ * @param spans - Current spans
+ * @param text - Layer text
+ * @param start - First character offset
+ * @param end - Offset after the last character
+ * @param style - Style to merge
+ * @returns The updated spans
+ */
+export const applySpanStyle = (
+  spans: TextSpan[] | undefined,
+  text: string,
+  start: number,
+  end: number,
+  style: TextSpanStyle
+): TextSpan[] => {
+  const styles = expandSpans(spans || [], getSpanCharacters(text).length);
+  for (let i = Math.max(start, 0); i < Math.min(end, styles.length); i++) {
+    styles[i] = cleanStyle({ ...styles[i], ...style });
+  }
+  return compressStyles(styles);
+};
+
+/**
+ * Remove all span styles from a character range
+ * @param spans - Current spans
+ * @param text - Layer text
+ * @param start - First character offset
+ * @param end - Offset after the last character
+ * @returns The updated spans
+ */
+export const clearSpanStyles = (
+  spans: TextSpan[] | undefined,
+  text: string,
+  start: number,
+  end: number
+): TextSpan[] => {
+  const styles = expandSpans(spans || [], getSpanCharacters(text).length);
+  styles.fill(null, Math.max(start, 0), end);
+  return compressStyles(styles);
+};
+
+/**
+ * Get the span style of one character
+ * @param spans - Current spans
+ * @param offset - Character offset
+ * @returns The character's style overrides (empty if it follows the layer)
+ */
+export const getSpanStyleAt = (spans: TextSpan[] | undefined, offset: number): TextSpanStyle => {
+  return (spans || [])
+    .filter(span => span.start <= offset && offset < span.end)
+    .reduce<TextSpanStyle>((style, span) => ({ ...style, ...span.style }), {});
+};
+
+/**
+ * Move spans along with an edit to the text. Characters typed into the
+ * text continue the style of the character before them.
+ * @param spans - Spans for the old text
+ * @param oldText - Text before the edit
+ * @param newText - Text after the edit
+ * @returns Spans for the new text
+ */
+export const adjustSpansForTextChange = (
+  spans: TextSpan[] | undefined,
+  oldText: string,
+  newText: string
+): TextSpan[] => {
+  if (!spans || spans.length === 0) return [];
+
+  const oldChars = getSpanCharacters(oldText);
+  const newChars = getSpanCharacters(newText);
+  const styles = expandSpans(spans, oldChars.length);
+
+  let prefix = 0;
+  while (prefix < oldChars.length && prefix < newChars.length && oldChars[prefix] === newChars[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldChars.length - prefix &&
+    suffix < newChars.length - prefix &&
+    oldChars[oldChars.length - 1 - suffix] === newChars[newChars.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const inserted = newChars.length - prefix - suffix;
+  const carried = prefix > 0 ? styles[prefix - 1] : null;
+
+  return compressStyles([
+    ...styles.slice(0, prefix),
+    ...new Array<TextSpanStyle | null>(inserted).fill(carried),
+    ...styles.slice(oldChars.length - suffix),
+  ]);
+};
+
+/**
+ * Scale the font sizes spans set, as when a whole layer is resized to fit its box
+ * @param spans - Layer spans
+ * @param factor - Scale factor for span font sizes
+ * @returns Spans with scaled font sizes
+ */
+export const scaleSpanFontSizes = (spans: TextSpan[] | undefined, factor: number): TextSpan[] => {
+  return (spans || []).map(span =>
+    span.style.fontSize === undefined
+      ? span
+      : { ...span, style: { ...span.style, fontSize: Math.round(span.style.fontSize * factor * 100) / 100 } }
+  );
+};
+
+/**
+ * Get the part of a text selection that applies to a layer
+ * @param range - Current text selection
+ * @param layer - Text layer
+ * @returns The non-empty range within the layer's text, or null to style the whole layer
+ */
+export const getActiveSpanRange = (
+  range: TextRange | null,
+  layer: TextLayerProperties
+): { start: number; end: number } | null => {
+  if (!range || range.layerId !== layer.id) return null;
+
+  const end = Math.min(range.end, getSpanCharacters(layer.text).length);
+  return range.start < end ? { start: range.start, end } : null;
+};
+
+/**
+ * Convert spans to the per-character styles Fabric.js renders
+ * @param spans - Layer spans
+ * @param text - Layer text
+ * @returns Fabric.js styles object
+ */
+export const toFabricStyles = (spans: TextSpan[] | undefined, text: string) => {
+  return fabric.util.stylesFromArray(
+    (spans || []).map(({ start, end, style }) => ({
+      start,
+      end,
+      style: cleanStyle({
+        fontFamily: style.fontFamily,
+        fontSize: style.fontSize,
+        fontWeight: style.fontWeight,
+        fill: style.color,
+        underline: style.underline,
+        linethrough: style.linethrough,
+      }) || {},
+    })),
+    text
+  );
+};
+
+/**
+ * Read spans back from a Fabric.js text object after on-canvas editing
+ * @param styles - Fabric.js styles object
+ * @param text - Text of the object
+ * @returns Layer spans
+ */
+export const fromFabricStyles = (styles: fabric.TextStyle, text: string): TextSpan[] => {
+  return fabric.util.stylesToArray(styles, text)
+    .map(({ start, end, style }) => ({
+      start,
+      end,
+      style: cleanStyle<TextSpanStyle>({
+        fontFamily: style.fontFamily,
+        fontSize: style.fontSize,
+        fontWeight: style.fontWeight,
+        color: typeof style.fill === 'string' ? style.fill : undefined,
+        underline: style.underline,
+        linethrough: style.linethrough,
+      }),
+    }))
+    .filter((span): span is TextSpan => span.style !== null);
+};
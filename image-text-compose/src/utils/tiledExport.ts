@@ -0,0 +1,178 @@
+import type { Canvas as FabricCanvas } from 'fabric/fabric-impl';
+import { BackgroundImage } from '../types/canvas';
+import { ExportOptions, ExportProgress, ExportWorkerRequest, ExportWorkerResponse } from '../types/export';
+import { EXPORT_FORMATS, getExportMultiplier } from './export';
+
+// Side of each rendered tile in output pixels; small enough to render without stalling the page
+const TILE_SIZE = 2048;
+
+interface TiledExportCallbacks {
+  signal: AbortSignal;
+  onProgress: (progress: ExportProgress) => void;
+}
+
+/**
+ * Get the pixel size of a full-resolution export
+ * @param canvas The Fabric.js canvas instance
+ * @param backgroundImage The background image information
+ * @returns Output width and height
+ */
+export const getExportSize = (
+  canvas: FabricCanvas,
+  backgroundImage: BackgroundImage
+): { width: number; height: number } => {
+  const multiplier = getExportMultiplier(canvas, backgroundImage);
+  return {
+    width: Math.round(canvas.getWidth() * multiplier),
+    height: Math.round(canvas.getHeight() * multiplier),
+  };
+};
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) {
+    throw new DOMException('Export cancelled', 'AbortError');
+  }
+};
+
+// Give the page a turn between tiles, so it stays responsive and can cancel
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Assemble tiles in a Web Worker on an OffscreenCanvas, which also encodes
+ * the result. Falls back to a canvas on the main thread where workers
+ * cannot use OffscreenCanvas.
+ */
+const createTileAssembler = (signal: AbortSignal) => {
+  if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined') {
+    const worker = new Worker(new URL('../workers/exportWorker.ts', import.meta.url));
+    const result = new Promise<Blob>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => {
+        if (event.data.type === 'done') {
+          resolve(event.data.blob);
+        } else {
+          reject(new Error(event.data.message));
+        }
+      };
+      worker.onerror = () => reject(new Error('The export worker failed'));
+      signal.addEventListener('abort', () => reject(new DOMException('Export cancelled', 'AbortError')));
+    });
+    // Settled on every path; callers see the rejection when they await
+    result.catch(() => undefined);
+
+    const send = (message: ExportWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+    return {
+      start: (message: Extract<ExportWorkerRequest, { type: 'start' }>) => send(message),
+      addTile: async (tile: HTMLCanvasElement, x: number, y: number) => {
+        const bitmap = await createImageBitmap(tile);
+        send({ type: 'tile', bitmap, x, y }, [bitmap]);
+      },
+      finish: () => {
+        send({ type: 'finish' });
+        return result;
+      },
+      dispose: () => worker.terminate(),
+    };
+  }
+
+  let output: HTMLCanvasElement | null = null;
+  let encodeOptions: { mimeType: string; quality?: number } = { mimeType: 'image/png' };
+  return {
+    start: ({ width, height, mimeType, quality, matteColor, colorSpace }: Extract<ExportWorkerRequest, { type: 'start' }>) => {
+      output = document.createElement('canvas');
+      output.width = width;
+      output.height = height;
+      const ctx = output.getContext('2d', { colorSpace });
+      if (ctx && matteColor) {
+        ctx.fillStyle = matteColor;
+        ctx.fillRect(0, 0, width, height);
+      }
+      encodeOptions = { mimeType, quality };
+    },
+    addTile: async (tile: HTMLCanvasElement, x: number, y: number) => {
+      output?.getContext('2d')?.drawImage(tile, x, y);
+    },
+    finish: () => new Promise<Blob>((resolve, reject) => {
+      if (!output) {
+        reject(new Error('Failed to prepare the export canvas'));
+        return;
+      }
+      output.toBlob(
+        (blob) => {
+          if (!blob || blob.type !== encodeOptions.mimeType) {
+            reject(new Error(`This browser cannot export ${encodeOptions.mimeType} images`));
+            return;
+          }
+          resolve(blob);
+        },
+        encodeOptions.mimeType,
+        encodeOptions.quality
+      );
+    }),
+    dispose: () => {
+      output = null;
+    },
+  };
+};
+
+/**
+ * Export a very large image without freezing the page. The canvas renders
+ * in tiles, yielding between them, and the tiles are assembled and encoded
+ * in a Web Worker. The result is a Blob rather than a data URL.
+ * @param canvas The Fabric.js canvas instance
+ * @param backgroundImage The background image information
+ * @param options Raster format, quality and matte color
+ * @param colorSpace Color space to assemble and encode the image in
+ * @param callbacks Abort signal to cancel with, and a progress listener
+ * @returns A Promise that resolves with the encoded image
+ */
+export const exportInTiles = async (
+  canvas: FabricCanvas,
+  backgroundImage: BackgroundImage,
+  options: ExportOptions,
+  colorSpace: PredefinedColorSpace,
+  { signal, onProgress }: TiledExportCallbacks
+): Promise<Blob> => {
+  const multiplier = getExportMultiplier(canvas, backgroundImage);
+  const { width, height } = getExportSize(canvas, backgroundImage);
+  const columns = Math.ceil(width / TILE_SIZE);
+  const rows = Math.ceil(height / TILE_SIZE);
+  const total = columns * rows;
+
+  const assembler = createTileAssembler(signal);
+  try {
+    assembler.start({
+      type: 'start',
+      width,
+      height,
+      mimeType: EXPORT_FORMATS[options.format].mimeType,
+      quality: options.format === 'png' ? undefined : options.quality,
+      // JPEG cannot store transparency
+      matteColor: options.format === 'jpeg' ? options.matteColor : undefined,
+      colorSpace,
+    });
+
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        throwIfAborted(signal);
+        onProgress({ stage: 'rendering', done: row * columns + column, total });
+        await nextTask();
+
+        const x = column * TILE_SIZE;
+        const y = row * TILE_SIZE;
+        const tile = canvas.toCanvasElement(multiplier, {
+          left: x / multiplier,
+          top: y / multiplier,
+          width: Math.min(TILE_SIZE, width - x) / multiplier,
+          height: Math.min(TILE_SIZE, height - y) / multiplier,
+        });
+        await assembler.addTile(tile, x, y);
+      }
+    }
+
+    throwIfAborted(signal);
+    onProgress({ stage: 'encoding', done: total, total });
+    return await assembler.finish();
+  } finally {
+    assembler.dispose();
+  }
+};
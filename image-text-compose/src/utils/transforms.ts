@@ -1,4 +1,5 @@
 import * as fabric from 'fabric';
+import { LayerTransform } from '@/types/canvas';
 
 /**
  * Snap value to grid
@@ -157,13 +158,54 @@ export const hideCenterGuide = (
 };
 
 /**
- * Group objects
+ * Select objects together so they move, rotate and scale as one.
+ * Persistent groups live in the editor store; this is how they are
+ * presented on the canvas.
  * @param canvas - Fabric.js canvas
  * @param objects - Array of Fabric.js objects
+ * @returns The active selection, or the object itself for a single object
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export const groupObjects = (canvas: fabric.Canvas, objects: fabric.Object[]): void => {
-  // Group objects logic here
+export const groupObjects = (
+  canvas: fabric.Canvas,
+  objects: fabric.FabricObject[]
+): fabric.FabricObject | null => {
+  if (objects.length === 0) return null;
+  
+  if (objects.length === 1) {
+    canvas.setActiveObject(objects[0]);
+    return objects[0];
+  }
+  
+  const selection = new fabric.ActiveSelection(objects, { canvas });
+  canvas.setActiveObject(selection);
+  return selection;
+};
+
+/**
+ * Get an object's transform in canvas coordinates, resolving any
+ * selection or group it currently sits in
+ * @param object - Fabric.js object
+ * @returns Position of the top-left origin, angle and scale on the canvas
+ */
+export const getLayerTransformFromObject = (object: fabric.FabricObject): LayerTransform => {
+  const { angle, scaleX, scaleY, translateX, translateY } = fabric.util.qrDecompose(
+    object.calcTransformMatrix()
+  );
+  
+  // qrDecompose gives the center; the store keeps the top-left origin
+  const dimensions = object._getTransformedDimensions({ scaleX, scaleY, skewX: 0, skewY: 0 });
+  const offset = fabric.util.rotateVector(
+    new fabric.Point(-dimensions.x / 2, -dimensions.y / 2),
+    fabric.util.degreesToRadians(angle)
+  );
+  
+  return {
+    left: translateX + offset.x,
+    top: translateY + offset.y,
+    angle: (angle + 360) % 360,
+    scaleX,
+    scaleY,
+  };
 };
 
 /**
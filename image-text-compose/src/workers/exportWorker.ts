@@ -0,0 +1,49 @@
+import { ExportWorkerRequest, ExportWorkerResponse } from '../types/export';
+
+// Assembles rendered tiles and encodes the image off the main thread
+
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let encodeOptions: ImageEncodeOptions = {};
+
+const respond = (message: ExportWorkerResponse) => {
+  self.postMessage(message);
+};
+
+self.onmessage = (event: MessageEvent<ExportWorkerRequest>) => {
+  const message = event.data;
+
+  try {
+    if (message.type === 'start') {
+      canvas = new OffscreenCanvas(message.width, message.height);
+      // Tiles are drawn in sRGB and converted as they are placed
+      ctx = canvas.getContext('2d', { colorSpace: message.colorSpace });
+      if (!ctx) {
+        throw new Error('Failed to prepare the export canvas');
+      }
+      if (message.matteColor) {
+        ctx.fillStyle = message.matteColor;
+        ctx.fillRect(0, 0, message.width, message.height);
+      }
+      encodeOptions = { type: message.mimeType, quality: message.quality };
+    } else if (message.type === 'tile') {
+      ctx?.drawImage(message.bitmap, message.x, message.y);
+      message.bitmap.close();
+    } else if (canvas) {
+      const { type } = encodeOptions;
+      canvas.convertToBlob(encodeOptions).then(
+        (blob) => {
+          // Browsers fall back to PNG for formats they cannot encode
+          if (blob.type !== type) {
+            respond({ type: 'error', message: `This browser cannot export ${type} images` });
+            return;
+          }
+          respond({ type: 'done', blob });
+        },
+        (error) => respond({ type: 'error', message: error instanceof Error ? error.message : 'Failed to encode the image' })
+      );
+    }
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : 'Export failed' });
+  }
+};
@@ -0,0 +1,54 @@
+import { parentPort, workerData } from 'worker_threads';
+import { registerFont } from 'canvas';
+import * as fabric from 'fabric';
+import { getEnv as getNodeEnv } from 'fabric/node';
+import type { Canvas as FabricCanvas } from 'fabric/fabric-impl';
+import { RenderWorkerData, RenderWorkerResponse } from '../types/export';
+import { createCompositionCanvas } from '../utils/composition';
+import { EXPORT_FORMATS, getExportMultiplier } from '../utils/export';
+
+// Renders one /api/render request. node-canvas only uses fonts registered
+// before the thread creates its first canvas, so every request gets a new
+// worker that registers the request's fonts first.
+
+const respond = (message: RenderWorkerResponse, transfer: ArrayBuffer[] = []) => {
+  parentPort?.postMessage(message, transfer);
+};
+
+const render = async ({ state, fonts, format, quality, matteColor }: RenderWorkerData) => {
+  for (const font of fonts) {
+    registerFont(font.path, { family: font.family });
+  }
+  // Point the editor's Fabric.js build at the DOM that fabric/node sets up,
+  // so the layer classes and layout code run unchanged on the server
+  fabric.setEnv(getNodeEnv());
+
+  const backgroundImage = state.backgroundImage;
+  if (!backgroundImage) {
+    throw new Error('Background image with dimensions is required for export');
+  }
+
+  const canvas = await createCompositionCanvas(
+    state,
+    // JPEG cannot store transparency
+    format === 'jpeg' ? matteColor || '#ffffff' : undefined
+  );
+
+  try {
+    const multiplier = getExportMultiplier(canvas as unknown as FabricCanvas, backgroundImage);
+    const output = canvas.toCanvasElement(multiplier);
+    const mimeType = EXPORT_FORMATS[format].mimeType;
+    const dataUrl = format === 'jpeg'
+      ? output.toDataURL(mimeType, quality ?? 0.92)
+      : output.toDataURL(mimeType);
+
+    const data = new Uint8Array(Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64'));
+    respond({ type: 'done', data, mimeType }, [data.buffer]);
+  } finally {
+    canvas.dispose();
+  }
+};
+
+render(workerData as RenderWorkerData).catch((error) => {
+  respond({ type: 'error', message: error instanceof Error ? error.message : 'Render failed' });
+});